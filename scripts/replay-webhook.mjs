@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+// Replay a saved GitHub webhook payload against the local webhook route, signed
+// the same way GitHub signs deliveries.
+//
+//   GITHUB_WEBHOOK_SECRET=... node scripts/replay-webhook.mjs scripts/webhook-payloads/push.json
+//
+// Options:
+//   --event <name>   X-GitHub-Event header (defaults to the file name up to the first ".")
+//   --repo <o/r>     Rewrite repository.full_name so the event reaches an open canvas
+//   --url <url>      Webhook endpoint (defaults to http://localhost:3000/api/webhooks/github)
+
+import { createHmac, randomUUID } from 'crypto';
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+
+const args = process.argv.slice(2);
+const option = (name) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args.splice(index, 2)[1];
+};
+
+const event = option('event');
+const repo = option('repo');
+const url = option('url') || 'http://localhost:3000/api/webhooks/github';
+const [file] = args;
+
+if (!file) {
+  console.error('Usage: node scripts/replay-webhook.mjs <payload.json> [--event name] [--repo owner/repo] [--url url]');
+  process.exit(1);
+}
+
+const secret = process.env.GITHUB_WEBHOOK_SECRET;
+if (!secret) {
+  console.error('GITHUB_WEBHOOK_SECRET must be set to the same value the server uses');
+  process.exit(1);
+}
+
+const payload = JSON.parse(await readFile(file, 'utf8'));
+if (repo) {
+  const [owner, name] = repo.split('/');
+  payload.repository = { ...payload.repository, full_name: repo, name, owner: { ...payload.repository?.owner, login: owner } };
+}
+
+const body = JSON.stringify(payload);
+const signature = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'X-GitHub-Event': event || basename(file).split('.')[0],
+    'X-GitHub-Delivery': randomUUID(),
+    'X-Hub-Signature-256': signature,
+  },
+  body,
+});
+
+console.log(`${response.status} ${response.statusText}`, await response.text());
+process.exit(response.ok ? 0 : 1);
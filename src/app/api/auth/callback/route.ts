@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  OAUTH_STATE_COOKIE,
+  SESSION_COOKIE,
+  sanitizeReturnTo,
+  sealSession,
+  sessionCookieOptions,
+} from '../../../../lib/server/session';
+
+export const GET = async (request: NextRequest) => {
+  const code = request.nextUrl.searchParams.get('code');
+  const state = request.nextUrl.searchParams.get('state');
+
+  let stored: { state: string; returnTo: string } | null = null;
+  try {
+    stored = JSON.parse(request.cookies.get(OAUTH_STATE_COOKIE)?.value || 'null');
+  } catch (error) {
+    console.warn('Failed to parse OAuth state cookie:', error);
+  }
+
+  if (!code || !stored || stored.state !== state) {
+    return Response.json({ message: 'Invalid OAuth state. Please try signing in again.' }, { status: 400 });
+  }
+
+  // Exchange the authorization code for a user access token
+  const tokenResponse = await fetch('https://github.com/login/oauth/access_token', {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      client_id: process.env.GITHUB_CLIENT_ID,
+      client_secret: process.env.GITHUB_CLIENT_SECRET,
+      code,
+      redirect_uri: `${request.nextUrl.origin}/api/auth/callback`,
+    }),
+    cache: 'no-store',
+  });
+  const tokenData = await tokenResponse.json();
+
+  if (!tokenResponse.ok || !tokenData.access_token) {
+    return Response.json({ message: tokenData.error_description || 'Failed to sign in with GitHub' }, { status: 400 });
+  }
+
+  // Look up who just signed in and which scopes they granted
+  const userResponse = await fetch('https://api.github.com/user', {
+    headers: {
+      'Accept': 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+      'Authorization': `Bearer ${tokenData.access_token}`
+    },
+    cache: 'no-store',
+  });
+
+  if (!userResponse.ok) {
+    return Response.json({ message: `Failed to load GitHub user: ${userResponse.status}` }, { status: 502 });
+  }
+
+  const userData = await userResponse.json();
+  const scopes = (userResponse.headers.get('x-oauth-scopes') || '')
+    .split(',')
+    .map(scope => scope.trim())
+    .filter(Boolean);
+
+  const response = NextResponse.redirect(new URL(sanitizeReturnTo(stored.returnTo, request.nextUrl.origin), request.nextUrl.origin));
+  response.cookies.set(SESSION_COOKIE, sealSession({
+    token: tokenData.access_token,
+    login: userData.login,
+    avatarUrl: userData.avatar_url,
+    scopes,
+  }), sessionCookieOptions);
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth' });
+  return response;
+};
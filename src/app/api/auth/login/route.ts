@@ -0,0 +1,32 @@
+import { randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { OAUTH_STATE_COOKIE, sanitizeReturnTo } from '../../../../lib/server/session';
+
+// "repo" is needed to read private repositories and to create branches and PRs
+const OAUTH_SCOPES = 'repo';
+
+export const GET = (request: NextRequest) => {
+  const clientId = process.env.GITHUB_CLIENT_ID;
+  if (!clientId) {
+    return Response.json({ message: 'GitHub sign-in is not configured' }, { status: 500 });
+  }
+
+  const state = randomBytes(16).toString('hex');
+  const returnTo = sanitizeReturnTo(request.nextUrl.searchParams.get('returnTo'), request.nextUrl.origin);
+
+  const authorizeUrl = new URL('https://github.com/login/oauth/authorize');
+  authorizeUrl.searchParams.set('client_id', clientId);
+  authorizeUrl.searchParams.set('redirect_uri', `${request.nextUrl.origin}/api/auth/callback`);
+  authorizeUrl.searchParams.set('scope', OAUTH_SCOPES);
+  authorizeUrl.searchParams.set('state', state);
+
+  const response = NextResponse.redirect(authorizeUrl);
+  response.cookies.set(OAUTH_STATE_COOKIE, JSON.stringify({ state, returnTo }), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/auth',
+    maxAge: 10 * 60,
+  });
+  return response;
+};
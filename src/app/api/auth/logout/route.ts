@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '../../../../lib/server/session';
+
+export const POST = () => {
+  const response = NextResponse.json({ user: null });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+};
@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server';
+import { getSession } from '../../../../lib/server/session';
+
+// Tells the browser who is signed in, without ever exposing the token
+export const GET = (request: NextRequest) => {
+  const session = getSession(request);
+  if (!session) {
+    return Response.json({ user: null });
+  }
+
+  return Response.json({
+    user: {
+      login: session.login,
+      avatarUrl: session.avatarUrl,
+      scopes: session.scopes,
+    }
+  });
+};
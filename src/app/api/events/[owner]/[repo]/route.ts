@@ -0,0 +1,91 @@
+import { NextRequest } from 'next/server';
+import { Session, getSession } from '../../../../../lib/server/session';
+import { subscribeToRepo } from '../../../../../lib/server/webhooks';
+
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+const GITHUB_API_URL = 'https://api.github.com';
+
+interface RouteContext {
+  params: Promise<{ owner: string; repo: string }>;
+}
+
+// Whether the caller may see the repository's events. Signed-in users need read
+// access with their own token; anonymous visitors only get public repositories.
+const checkAccess = async (owner: string, repo: string, session: Session | null): Promise<Response | null> => {
+  const token = session?.token || process.env.GITHUB_TOKEN;
+  const response = await fetch(`${GITHUB_API_URL}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`, {
+    headers: {
+      Accept: 'application/vnd.github+json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    cache: 'no-store',
+  });
+
+  // GitHub answers 404 for repositories the token can't see
+  if (response.status === 401 || response.status === 403 || response.status === 404) {
+    return Response.json({ message: 'Not Found' }, { status: 404 });
+  }
+  if (!response.ok) {
+    return Response.json({ message: 'Could not check access to the repository' }, { status: 502 });
+  }
+  const { private: isPrivate } = await response.json() as { private?: boolean };
+  if (!session && isPrivate !== false) {
+    return Response.json({ message: 'Sign in with GitHub to follow this repository' }, { status: 401 });
+  }
+  return null;
+};
+
+// Server-sent event stream of webhook events for one repository
+export const GET = async (request: NextRequest, { params }: RouteContext) => {
+  const { owner, repo } = await params;
+
+  // Without webhooks there is nothing to stream; 204 tells EventSource not to reconnect
+  if (!process.env.GITHUB_WEBHOOK_SECRET) {
+    return new Response(null, { status: 204 });
+  }
+
+  const denied = await checkAccess(owner, repo, getSession(request));
+  if (denied) return denied;
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+        }
+      };
+
+      send('retry: 5000\n\n');
+      const unsubscribe = subscribeToRepo(`${owner}/${repo}`, event => {
+        send(`data: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      request.signal.addEventListener('abort', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed
+        }
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+};
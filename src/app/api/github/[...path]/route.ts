@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server';
+import { isGraphQLQuery, toApiPath } from '../../../../lib/server/proxy';
+import { getSession } from '../../../../lib/server/session';
+
+const GITHUB_API_URL = 'https://api.github.com';
+
+// Only the parts of the API the canvas actually uses are reachable through the proxy
+const ALLOWED_PATH_PREFIXES = ['repos/', 'search/repositories', 'graphql'];
+
+// Request headers passed through from the browser to GitHub
+const FORWARDED_REQUEST_HEADERS = [
+  'accept',
+  'content-type',
+  'if-modified-since',
+  'if-none-match',
+  'x-github-api-version',
+];
+
+// Response headers passed back to the browser (pagination, caching and rate-limit info)
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'etag',
+  'last-modified',
+  'link',
+  'retry-after',
+  'x-ratelimit-limit',
+  'x-ratelimit-remaining',
+  'x-ratelimit-reset',
+  'x-ratelimit-resource',
+  'x-ratelimit-used',
+];
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+const proxyToGitHub = async (request: NextRequest, { params }: RouteContext) => {
+  const { path } = await params;
+  const apiPath = toApiPath(path);
+
+  if (!apiPath || !ALLOWED_PATH_PREFIXES.some(prefix => apiPath.startsWith(prefix))) {
+    return Response.json({ message: 'Not Found' }, { status: 404 });
+  }
+
+  const headers = new Headers();
+  FORWARDED_REQUEST_HEADERS.forEach(name => {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+
+  // GraphQL queries are POSTs too, so read the body up front to tell reads from mutations
+  const body = request.method === 'GET' ? undefined : await request.text();
+  const isRead = request.method === 'GET' || (apiPath === 'graphql' && isGraphQLQuery(body));
+
+  // Writes must be attributed to a real user, so they require a signed-in session
+  const session = getSession(request);
+  if (!isRead && !session) {
+    return Response.json({ message: 'Sign in with GitHub to make changes' }, { status: 401 });
+  }
+
+  // Tokens only ever live on the server. Signed-in users act as themselves;
+  // anonymous visitors fall back to the shared read token.
+  const token = session?.token || process.env.GITHUB_TOKEN;
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const upstream = await fetch(`${GITHUB_API_URL}/${apiPath}${request.nextUrl.search}`, {
+    method: request.method,
+    headers,
+    body,
+    cache: 'no-store',
+  });
+
+  const responseHeaders = new Headers();
+  FORWARDED_RESPONSE_HEADERS.forEach(name => {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  });
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: responseHeaders,
+  });
+};
+
+export { proxyToGitHub as GET, proxyToGitHub as POST };
@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server';
+import { HostConfig, getHost } from '../../../../../lib/server/hosts';
+import { isGraphQLQuery, toApiPath } from '../../../../../lib/server/proxy';
+import { ProviderKind } from '../../../../../lib/providers/types';
+
+// Only the repository endpoints the canvas uses are reachable through the proxy
+const ALLOWED_PATH_PREFIXES: Partial<Record<ProviderKind, string[]>> = {
+  github: ['repos/', 'graphql'],
+  gitlab: ['projects/'],
+  gitea: ['repos/'],
+};
+
+// Request headers passed through from the browser to the host
+const FORWARDED_REQUEST_HEADERS = [
+  'accept',
+  'content-type',
+  'if-modified-since',
+  'if-none-match',
+  'x-github-api-version',
+];
+
+// Response headers passed back to the browser (pagination, caching and rate-limit info)
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'etag',
+  'last-modified',
+  'link',
+  'retry-after',
+  'ratelimit-limit',
+  'ratelimit-remaining',
+  'ratelimit-reset',
+  'x-ratelimit-limit',
+  'x-ratelimit-remaining',
+  'x-ratelimit-reset',
+  'x-ratelimit-resource',
+  'x-ratelimit-used',
+  'x-total-count',
+  'x-total-pages',
+];
+
+// GitLab takes the token in its own header; Gitea and GitHub Enterprise use the GitHub-style one
+const setToken = (headers: Headers, host: HostConfig) => {
+  if (!host.token) return;
+  if (host.kind === 'gitlab') {
+    headers.set('PRIVATE-TOKEN', host.token);
+  } else {
+    headers.set('Authorization', `token ${host.token}`);
+  }
+};
+
+interface RouteContext {
+  params: Promise<{ host: string; path: string[] }>;
+}
+
+const proxyToHost = async (request: NextRequest, { params }: RouteContext) => {
+  const { host: hostId, path } = await params;
+  const host = getHost(hostId);
+  const apiPath = toApiPath(path);
+
+  if (!host || !apiPath || !ALLOWED_PATH_PREFIXES[host.kind]?.some(prefix => apiPath.startsWith(prefix))) {
+    return Response.json({ message: 'Not Found' }, { status: 404 });
+  }
+
+  // GraphQL queries are POSTs too, so read the body up front to tell reads from mutations
+  const body = request.method === 'GET' ? undefined : await request.text();
+  const isRead = request.method === 'GET' || (apiPath === 'graphql' && isGraphQLQuery(body));
+
+  // There's no per-user sign-in for these hosts, so writes would all come from the shared token
+  if (!isRead && !host.allowWrites) {
+    return Response.json({ message: `Changes to ${host.name} are disabled on this server` }, { status: 403 });
+  }
+
+  const headers = new Headers();
+  FORWARDED_REQUEST_HEADERS.forEach(name => {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+
+  // The token only ever lives on the server
+  setToken(headers, host);
+
+  const url = apiPath === 'graphql' && host.graphqlUrl
+    ? host.graphqlUrl
+    : `${host.apiUrl}/${apiPath}${request.nextUrl.search}`;
+
+  const upstream = await fetch(url, {
+    method: request.method,
+    headers,
+    body,
+    cache: 'no-store',
+  });
+
+  const responseHeaders = new Headers();
+  FORWARDED_RESPONSE_HEADERS.forEach(name => {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  });
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: responseHeaders,
+  });
+};
+
+export { proxyToHost as GET, proxyToHost as POST };
@@ -0,0 +1,6 @@
+import { listHosts, toHostInfo } from '../../../lib/server/hosts';
+
+export const dynamic = 'force-dynamic';
+
+// Configured self-hosted instances, so the repo picker can recognise their URLs
+export const GET = async () => Response.json(listHosts().map(toHostInfo));
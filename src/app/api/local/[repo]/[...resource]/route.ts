@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server';
+import {
+  LocalGitError,
+  LocalRepo,
+  compareRefs,
+  getLocalRepo,
+  readBranches,
+  readDefaultBranch,
+  readFileAt,
+  readLog,
+} from '../../../../../lib/server/localGit';
+import { calculateBranchTree } from '../../../../../lib/branchTree';
+import { BranchGraph } from '../../../../../lib/providers/types';
+import { ParentHints, Repository } from '../../../../../lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LOG_LIMIT = 50;
+const MAX_LOG_LIMIT = 500;
+
+interface RouteContext {
+  params: Promise<{ repo: string; resource: string[] }>;
+}
+
+const readRepository = async (repo: LocalRepo): Promise<Repository> => ({
+  name: repo.name,
+  fullName: repo.name,
+  webUrl: '',
+  defaultBranch: await readDefaultBranch(repo, await readBranches(repo)),
+  // The canvas only reads local repositories
+  canPush: false,
+});
+
+// Build the tree on the server, where the history is a local git log rather than a request
+const readGraph = async (repo: LocalRepo, hints: ParentHints): Promise<BranchGraph> => {
+  const branches = await readBranches(repo);
+  const defaultBranch = await readDefaultBranch(repo, branches);
+  const tree = await calculateBranchTree(
+    branches,
+    { listCommits: (sha, perPage = DEFAULT_LOG_LIMIT) => readLog(repo, sha, perPage) },
+    defaultBranch,
+    hints
+  );
+  return { defaultBranch, ...tree, pullRequests: [], pullRequestAheadBy: {} };
+};
+
+const withLocalRepo = (
+  handle: (repo: LocalRepo, resource: string, request: NextRequest) => Promise<unknown>
+) => async (request: NextRequest, { params }: RouteContext) => {
+  const { repo: name, resource } = await params;
+  const repo = getLocalRepo(name);
+  if (!repo) {
+    return Response.json({ message: 'Not Found' }, { status: 404 });
+  }
+
+  try {
+    const data = await handle(repo, resource.join('/'), request);
+    return data === undefined
+      ? Response.json({ message: 'Not Found' }, { status: 404 })
+      : Response.json(data);
+  } catch (error) {
+    const status = error instanceof LocalGitError ? error.status : 500;
+    return Response.json({ message: error instanceof Error ? error.message : 'git failed' }, { status });
+  }
+};
+
+export const GET = withLocalRepo(async (repo, resource, request) => {
+  const query = request.nextUrl.searchParams;
+
+  switch (resource) {
+    case 'repository':
+      return readRepository(repo);
+    case 'branches':
+      return readBranches(repo);
+    case 'compare':
+      return compareRefs(repo, query.get('base') || '', query.get('head') || '');
+    // Always from the default branch, like the hosts' contents APIs
+    case 'file': {
+      const branches = await readBranches(repo);
+      return { content: await readFileAt(repo, await readDefaultBranch(repo, branches), query.get('path') || '') };
+    }
+    case 'commits': {
+      const limit = Math.min(parseInt(query.get('limit') || '', 10) || DEFAULT_LOG_LIMIT, MAX_LOG_LIMIT);
+      return readLog(repo, query.get('sha') || '', limit);
+    }
+    default:
+      return undefined;
+  }
+});
+
+// The tree is a POST so overrides and saved relationships can ride along in the body
+export const POST = withLocalRepo(async (repo, resource, request) => {
+  if (resource !== 'graph') return undefined;
+
+  const body = await request.json().catch(() => ({}));
+  const hints = body && typeof body.hints === 'object' && body.hints ? body.hints : {};
+  return readGraph(repo, hints);
+});
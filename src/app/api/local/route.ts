@@ -0,0 +1,6 @@
+import { listLocalRepos } from '../../../lib/server/localGit';
+
+export const dynamic = 'force-dynamic';
+
+// Names of the local repositories that can be opened; their paths stay on the server
+export const GET = async () => Response.json(listLocalRepos().map(repo => repo.name));
@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { SUPPORTED_WEBHOOK_EVENTS, toRepoEvent } from '../../../../lib/events';
+import { publishRepoEvent, verifyWebhookSignature } from '../../../../lib/server/webhooks';
+
+// Receives GitHub webhook deliveries and fans them out to connected canvases
+export const POST = async (request: NextRequest) => {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    return Response.json({ message: 'GITHUB_WEBHOOK_SECRET is not configured' }, { status: 500 });
+  }
+
+  // The signature covers the exact bytes GitHub sent, so verify before parsing
+  const body = await request.text();
+  if (!verifyWebhookSignature(body, request.headers.get('x-hub-signature-256'), secret)) {
+    return Response.json({ message: 'Invalid signature' }, { status: 401 });
+  }
+
+  const eventName = request.headers.get('x-github-event') || '';
+  if (!SUPPORTED_WEBHOOK_EVENTS.includes(eventName)) {
+    // ping and anything we don't visualize
+    return Response.json({ delivered: 0 });
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return Response.json({ message: 'Payload must be JSON' }, { status: 400 });
+  }
+
+  const event = toRepoEvent(eventName, payload);
+  return Response.json({ delivered: event ? publishRepoEvent(event) : 0 }, { status: 202 });
+};
@@ -0,0 +1,32 @@
+import { notFound } from 'next/navigation';
+import DraggableCanvas from '../../../../components/DraggableCanvas';
+import { getHost, toHostInfo } from '../../../../lib/server/hosts';
+
+interface HostRepoPageProps {
+  params: Promise<{ host: string; path: string[] }>;
+}
+
+// The last segment is the project; everything before it is the namespace, which can be nested
+const splitPath = (path: string[]) =>
+  path.length >= 2 ? { owner: path.slice(0, -1).join('/'), repo: path[path.length - 1] } : null;
+
+export async function generateMetadata({ params }: HostRepoPageProps) {
+  const { path } = await params;
+  return { title: `${path.join('/')} · gitvis` };
+}
+
+export default async function HostRepoPage({ params }: HostRepoPageProps) {
+  const { host: hostId, path } = await params;
+  const host = getHost(hostId);
+  const location = splitPath(path);
+  if (!host || !location) {
+    notFound();
+  }
+
+  const { owner, repo } = location;
+
+  return (
+    // Keyed by host and repo so switching repositories starts from a clean canvas
+    <DraggableCanvas key={`${host.id}:${owner}/${repo}`} host={toHostInfo(host)} owner={owner} repo={repo} />
+  );
+}
@@ -0,0 +1,24 @@
+import { notFound } from 'next/navigation';
+import DraggableCanvas from '../../../components/DraggableCanvas';
+import { getLocalRepo } from '../../../lib/server/localGit';
+import { LOCAL_HOST } from '../../../lib/providers/local';
+
+interface LocalRepoPageProps {
+  params: Promise<{ repo: string }>;
+}
+
+export async function generateMetadata({ params }: LocalRepoPageProps) {
+  const { repo } = await params;
+  return { title: `${repo} (local) · gitvis` };
+}
+
+export default async function LocalRepoPage({ params }: LocalRepoPageProps) {
+  const { repo } = await params;
+  if (!getLocalRepo(repo)) {
+    notFound();
+  }
+
+  return (
+    <DraggableCanvas key={`${LOCAL_HOST.id}:${repo}`} host={LOCAL_HOST} owner={LOCAL_HOST.id} repo={repo} />
+  );
+}
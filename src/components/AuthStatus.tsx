@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+import { usePathname } from 'next/navigation';
+import { useSession } from './SessionProvider';
+
+export default function AuthStatus() {
+  const { user, loading, signOut } = useSession();
+  const pathname = usePathname();
+
+  if (loading) return null;
+
+  if (!user) {
+    return (
+      <a
+        href={`/api/auth/login?returnTo=${encodeURIComponent(pathname || '/')}`}
+        className="bg-gray-800/80 backdrop-blur-sm text-gray-300 px-3 py-2 rounded-lg text-sm hover:bg-gray-700/80 transition-colors"
+      >
+        Sign in with GitHub
+      </a>
+    );
+  }
+
+  return (
+    <div
+      className="flex items-center gap-2 bg-gray-800/80 backdrop-blur-sm rounded-lg px-2 py-1"
+      title={user.scopes.length > 0 ? `Scopes: ${user.scopes.join(', ')}` : 'No scopes granted'}
+    >
+      <img
+        src={user.avatarUrl}
+        alt={user.login}
+        className="w-6 h-6 rounded-full"
+      />
+      <span className="text-gray-300 text-sm">{user.login}</span>
+      <button
+        onClick={signOut}
+        className="text-gray-500 hover:text-white text-xs transition-colors"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
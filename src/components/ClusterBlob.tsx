@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+import { Cluster } from '../lib/viewport';
+import { clusterRadius } from './graphStyle';
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+interface ClusterBlobProps {
+  cluster: Cluster;
+  rgb: string; // The root branch's color, as "r, g, b"
+  scale: number;
+  offset: Position;
+  onDoubleClick: (cluster: Cluster) => void;
+}
+
+// A subtree collapsed while zoomed out: one glowing blob with its branch count.
+// Double-clicking zooms in on it.
+const ClusterBlob: React.FC<ClusterBlobProps> = ({ cluster, rgb, scale, offset, onDoubleClick }) => {
+  const radius = clusterRadius(cluster.members.length);
+
+  return (
+    <div
+      className="absolute flex items-center justify-center rounded-full text-[11px] font-semibold text-white cursor-zoom-in select-none"
+      style={{
+        left: cluster.center.x * scale + offset.x - radius,
+        top: cluster.center.y * scale + offset.y - radius,
+        width: radius * 2,
+        height: radius * 2,
+        background: `radial-gradient(circle at 30% 30%, rgba(255, 255, 255, 0.3), rgba(${rgb}, 0.85))`,
+        boxShadow: `0 0 20px rgba(${rgb}, 0.6), inset 0 0 8px rgba(${rgb}, 0.8)`,
+        border: '1px solid rgba(255, 255, 255, 0.3)',
+        zIndex: 2
+      }}
+      title={`${cluster.root} and ${cluster.members.length - 1} more branches`}
+      onDoubleClick={e => {
+        e.stopPropagation();
+        onDoubleClick(cluster);
+      }}
+    >
+      {cluster.members.length}
+    </div>
+  );
+};
+
+export default ClusterBlob;
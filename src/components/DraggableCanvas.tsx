@@ -1,6 +1,73 @@
 'use client';
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { addRecentRepo } from '../lib/recentRepos';
+import { ApiError, RateLimitError } from '../lib/providers/errors';
+import { createProvider } from '../lib/providers';
+import { HostInfo, ProviderKind } from '../lib/providers/types';
+import { Branch, BranchConnection, BranchHead, BranchTree, Commit, Issue, Member, PullRequest, RepoConfig } from '../lib/types';
+import { LayoutMode } from '../lib/layout';
+import { TimelineLayout } from '../lib/timelineLayout';
+import { LoadProgress, TreeWorker, createTreeWorker } from '../lib/worker';
+import {
+  ALPHA_MIN,
+  DAMPING_RANGE,
+  DEFAULT_FORCE_SETTINGS,
+  ForceBody,
+  ForceSettings,
+  STRENGTH_RANGE,
+  stepForces,
+} from '../lib/forceLayout';
+import { MotionStore, createMotionStore } from '../lib/motion';
+import { CONFIG_PATH, findBranchRule, isIgnored, loadRepoConfig, pinnedRoots } from '../lib/repoConfig';
+import { readParentHints, readParentOverrides, setParentOverride, writeSavedRelationships } from '../lib/relationships';
+import {
+  SavedLayout,
+  deleteLayout,
+  placeSavedLayout,
+  readActiveLayout,
+  readSavedLayouts,
+  saveLayouts,
+  setActiveLayout
+} from '../lib/savedLayouts';
+import { withPersistentCache } from '../lib/store/persistentCache';
+import { Cluster, clusterSubtrees, containsPoint, overlapsSegment, visibleWorldRect } from '../lib/viewport';
+import { RepoEvent } from '../lib/events';
+import { useLivePosition } from '../lib/useMotion';
+import { useRepoEvents } from '../lib/useRepoEvents';
+import {
+  BranchDiff,
+  ConnectionDiff,
+  applyMergedPulls,
+  applyPullRequests,
+  connectionKey,
+  diffBranches,
+  diffConnections,
+  isEmptyDiff,
+  mergeTree,
+  sameHeads,
+  syncedPositions,
+} from '../lib/sync';
+import AuthStatus from './AuthStatus';
+import ClusterBlob from './ClusterBlob';
+import GraphCanvas, { GraphEdge, GraphNode } from './GraphCanvas';
+import {
+  COMMIT_NODE_RADIUS,
+  MIN_SCALE_FOR_COMMIT_TEXT,
+  MIN_SCALE_FOR_TEXT,
+  NODE_RADIUS,
+  depthRgb,
+  edgeDetail,
+  hexToRgb,
+  textOpacityAt
+} from './graphStyle';
+import LayoutManager from './LayoutManager';
+import ParentInspector from './ParentInspector';
+import RateLimitIndicator from './RateLimitIndicator';
+import StorageSettings from './StorageSettings';
+import TimelineLanes from './TimelineLanes';
+import { useSession } from './SessionProvider';
 
 // Add custom styles for scrollbar
 const customStyles = `
@@ -24,6 +91,20 @@ const customStyles = `
     -webkit-box-orient: vertical;
     overflow: hidden;
   }
+  .sync-enter {
+    animation: sync-fade-in 600ms ease-out;
+  }
+  .sync-leave {
+    animation: sync-fade-out 600ms ease-in forwards;
+  }
+  @keyframes sync-fade-in {
+    from { opacity: 0; }
+    to { opacity: 1; }
+  }
+  @keyframes sync-fade-out {
+    from { opacity: 1; }
+    to { opacity: 0; }
+  }
 `;
 
 interface Position {
@@ -37,108 +118,6 @@ interface Velocity {
 }
 
 
-interface PullRequest {
-  id: number;
-  number: number;
-  title: string;
-  state: string;
-  html_url: string;
-  created_at: string;
-  updated_at: string;
-  user: {
-    login: string;
-    avatar_url: string;
-  };
-  head: {
-    ref: string; // source branch
-    sha: string;
-  };
-  base: {
-    ref: string; // target branch
-    sha: string;
-  };
-  draft: boolean;
-  merged: boolean;
-  mergeable?: boolean;
-  mergeable_state?: string;
-}
-
-interface Issue {
-  id: number;
-  number: number;
-  title: string;
-  state: string;
-  html_url: string;
-  created_at: string;
-  updated_at: string;
-  user: {
-    login: string;
-    avatar_url: string;
-  };
-  assignees: Array<{
-    login: string;
-    avatar_url: string;
-  }>;
-  labels: Array<{
-    name: string;
-    color: string;
-  }>;
-  milestone?: {
-    title: string;
-  };
-  comments: number;
-  pull_request?: {
-    url: string;
-  };
-}
-
-interface Branch {
-  name: string;
-  commit: {
-    sha: string;
-    url: string;
-  };
-  protected: boolean;
-  parent?: string; // Added parent branch reference
-  depth?: number; // Added depth in tree
-  children?: string[]; // Added children branches
-  mergedAt?: string; // Added merge date
-  aheadBy?: number; // Number of commits ahead of parent (0 = not ahead, >0 = ahead, <0 = behind, undefined = unknown)
-  commits?: Array<{
-    sha: string;
-    commit: {
-      message: string;
-      author: {
-        name: string;
-        date: string;
-      };
-    };
-  }>; 
-  }
-
-interface Collaborator {
-  id: number;
-  login: string;
-  avatar_url: string;
-  html_url: string;
-  type: string;
-  site_admin: boolean;
-  permissions?: {
-    admin: boolean;
-    maintain: boolean;
-    push: boolean;
-    triage: boolean;
-    pull: boolean;
-  };
-}
-
-interface BranchConnection {
-  from: string;
-  to: string;
-  pullRequest?: PullRequest; // Added pull request info
-  commitCount?: number; // Added commit count for the connection
-}
-
 interface DraggableCardProps {
   id: string;
   branch: Branch;
@@ -151,20 +130,31 @@ interface DraggableCardProps {
   isExpanded: boolean;
   isLoadingCommits: boolean;
   isDragTarget: boolean; // Add this prop
-  onStartDrag: (id: string, position: Position) => void;
+  isPinned?: boolean; // Held in place in the force-directed layout
+  color?: string; // From the repository's branch rules (#rgb or #rrggbb)
+  motion?: MotionStore; // Where the card is while it moves; `position` is where it last came to rest
+  onStartDrag: (id: string, position: Position, reparent: boolean) => void; // reparent: Alt-drag
   onDrag: (id: string, position: Position) => void;
   onEndDrag: (id: string) => void;
   onDoubleClick?: (id: string) => void;
 }
 
-const NODE_RADIUS = 8; // Base radius for nodes - much smaller for tiny glowing balls
-const COMMIT_NODE_RADIUS = 4; // Base radius for commit nodes - also smaller
-const MIN_SCALE_FOR_TEXT = 0.8; // Minimum scale to show text - adjusted for smaller nodes
-const MAX_SCALE_FOR_FULL_TEXT = 2; // Scale at which text is fully visible
-const MIN_SCALE_FOR_COMMIT_TEXT = 1.5; // Minimum scale to show commit text - adjusted
+const SYNC_INTERVAL_MS = 60 * 1000; // How often the background sync re-fetches
+const SYNC_INTERVAL_LIVE_MS = 10 * 60 * 1000; // Backup polling while webhook events are streaming in
+const EVENT_SYNC_DELAY_MS = 1500; // Batches a burst of webhook events into one sync
+const SYNC_ANIMATION_MS = 600; // Matches the sync-enter/sync-leave animations
 const COLLISION_RADIUS = 30; // Effective radius for collision detection between nodes - reduced
 const FRICTION = 0.95; // Deceleration factor
 const MIN_VELOCITY = 0.1; // Minimum velocity before stopping
+const CANVAS_RENDERER_THRESHOLD = 200; // Above this many visible branches, draw on one <canvas> instead of the DOM
+
+// Where each kind of host's shared read token is configured on the server
+const REGISTERED_HOST_TOKEN = 'a token for this host in GITVIS_HOSTS';
+const TOKEN_ENV: Partial<Record<ProviderKind, string>> = {
+  github: 'GITHUB_TOKEN',
+  gitlab: 'GITLAB_TOKEN',
+  gitea: REGISTERED_HOST_TOKEN,
+};
 
 // Helper function to format dates
 const formatDate = (dateString: string): string => {
@@ -192,7 +182,7 @@ const formatDate = (dateString: string): string => {
 const DraggableNode: React.FC<DraggableCardProps> = ({ 
   id, 
   branch, 
-  position,
+  position: restingPosition,
   velocity,
   isDragging,
   scale,
@@ -201,6 +191,9 @@ const DraggableNode: React.FC<DraggableCardProps> = ({
   isExpanded,
   isLoadingCommits,
   isDragTarget, // Add this
+  isPinned,
+  color,
+  motion,
   onStartDrag,
   onDrag,
   onEndDrag,
@@ -208,6 +201,7 @@ const DraggableNode: React.FC<DraggableCardProps> = ({
 }) => {
   const [dragOffset, setDragOffset] = useState<Position>({ x: 0, y: 0 });
   const nodeRef = useRef<HTMLDivElement>(null);
+  const position = useLivePosition(motion, id, restingPosition);
 
   // Calculate screen position from world position
   const screenPosition = {
@@ -220,17 +214,17 @@ const DraggableNode: React.FC<DraggableCardProps> = ({
   const scaledCommitRadius = COMMIT_NODE_RADIUS * scale;
 
   // Calculate text opacity based on scale
-  const textOpacity = scale < MIN_SCALE_FOR_TEXT ? 0 : 
-    scale > MAX_SCALE_FOR_FULL_TEXT ? 1 : 
-    (scale - MIN_SCALE_FOR_TEXT) / (MAX_SCALE_FOR_FULL_TEXT - MIN_SCALE_FOR_TEXT);
+  const textOpacity = textOpacityAt(scale, MIN_SCALE_FOR_TEXT);
 
   // Calculate commit text opacity
-  const commitTextOpacity = scale < MIN_SCALE_FOR_COMMIT_TEXT ? 0 : 
-    scale > MAX_SCALE_FOR_FULL_TEXT ? 1 : 
-    (scale - MIN_SCALE_FOR_COMMIT_TEXT) / (MAX_SCALE_FOR_FULL_TEXT - MIN_SCALE_FOR_COMMIT_TEXT);
+  const commitTextOpacity = textOpacityAt(scale, MIN_SCALE_FOR_COMMIT_TEXT);
+
+  // A branch rule's color replaces the depth colors, but not the drag target and not-ahead states
+  const ruleRgb = color && !isDragTarget && branch.aheadBy !== 0 ? hexToRgb(color) : null;
 
   // Determine node color based on branch status
   const getNodeColor = () => {
+    if (ruleRgb) return '';
     if (isDragTarget) return 'bg-orange-400'; // Orange when drag target
     if (branch.aheadBy === 0) return 'bg-gray-700'; // Grey when not ahead
     if (branch.depth === 0) return 'bg-green-400';
@@ -241,6 +235,7 @@ const DraggableNode: React.FC<DraggableCardProps> = ({
   const getNodeGlowColor = () => {
     if (isDragTarget) return 'rgba(251, 146, 60, 0.9)'; // Orange glow when drag target
     if (branch.aheadBy === 0) return 'rgba(156, 163, 175, 0.6)'; // Grey glow when not ahead
+    if (ruleRgb) return `rgba(${ruleRgb}, 0.8)`;
     if (branch.depth === 0) return 'rgba(74, 222, 128, 0.8)';
     if (branch.depth === 1) return 'rgba(96, 165, 250, 0.8)';
     return 'rgba(196, 181, 253, 0.8)';
@@ -250,6 +245,7 @@ const DraggableNode: React.FC<DraggableCardProps> = ({
     if (isDragTarget) return 'border-orange-300/80'; // Orange border when drag target
     if (isDragging) return 'border-white/50';
     if (branch.aheadBy === 0) return 'border-gray-600'; // Grey border when not ahead
+    if (ruleRgb) return 'border-white/30';
     if (branch.depth === 0) return 'border-green-300/50';
     if (branch.depth === 1) return 'border-blue-300/50';
     return 'border-purple-300/50';
@@ -311,7 +307,7 @@ const DraggableNode: React.FC<DraggableCardProps> = ({
           document.addEventListener('mousemove', handleMouseMove);
           document.addEventListener('mouseup', handleMouseUp);
           
-          onStartDrag(id, position);
+          onStartDrag(id, position, e.altKey);
         }
       }
     }
@@ -355,7 +351,7 @@ const DraggableNode: React.FC<DraggableCardProps> = ({
       <div
         className={`absolute inset-0 rounded-full ${getNodeColor()} ${getNodeBorderColor()} border transition-all duration-200 ${
           branch.aheadBy === 0 ? 'opacity-40' : ''
-        }`}
+        } ${isPinned ? 'ring-2 ring-white/70' : ''}`}
         style={{
           boxShadow: isDragTarget 
             ? `0 0 40px ${getNodeGlowColor()}, 0 0 80px ${getNodeGlowColor()}, inset 0 0 30px ${getNodeGlowColor()}` // Bigger glow for drag target
@@ -365,7 +361,7 @@ const DraggableNode: React.FC<DraggableCardProps> = ({
           transform: isDragTarget ? 'scale(1.5)' : isDragging ? 'scale(1.3)' : 'scale(1)', // Bigger scale for drag target
           background: `radial-gradient(circle at 30% 30%, ${
             branch.aheadBy === 0 ? 'rgba(255, 255, 255, 0.2)' : 'rgba(255, 255, 255, 0.4)'
-          }, ${getNodeColor().replace('bg-', 'rgba(').replace('400', '400, 1)').replace('700', '700, 1)').replace('green', '74, 222, 128').replace('blue', '96, 165, 250').replace('purple', '196, 181, 253').replace('gray', '156, 163, 175').replace('orange', '251, 146, 60')})`,
+          }, ${ruleRgb ? `rgba(${ruleRgb}, 1)` : getNodeColor().replace('bg-', 'rgba(').replace('400', '400, 1)').replace('700', '700, 1)').replace('green', '74, 222, 128').replace('blue', '96, 165, 250').replace('purple', '196, 181, 253').replace('gray', '156, 163, 175').replace('orange', '251, 146, 60')})`,
         }}
       >
         {/* Inner glow effect */}
@@ -455,7 +451,7 @@ const DraggableNode: React.FC<DraggableCardProps> = ({
                     boxShadow: '0 0 8px rgba(156, 163, 175, 0.5), inset 0 0 4px rgba(156, 163, 175, 0.3)',
                     background: 'radial-gradient(circle at 30% 30%, rgba(255, 255, 255, 0.2), rgba(156, 163, 175, 0.8))',
                   }}
-                  title={commit.commit.message}
+                  title={commit.message}
                 >
                 </div>
 
@@ -470,10 +466,10 @@ const DraggableNode: React.FC<DraggableCardProps> = ({
                 >
                   <div className="bg-gray-900/90 backdrop-blur-sm px-1.5 py-0.5 rounded border border-gray-700/50">
                     <p className="text-xs text-gray-300 max-w-[150px] truncate">
-                      {commit.commit.message.split('\n')[0]}
+                      {commit.message.split('\n')[0]}
                     </p>
                     <p className="text-xs text-gray-500 font-mono">
-                      {commit.sha.substring(0, 7)} • {commit.commit.author.name.split(' ')[0]}
+                      {commit.sha.substring(0, 7)} • {commit.author.name.split(' ')[0]}
                     </p>
                   </div>
                 </div>
@@ -486,298 +482,6 @@ const DraggableNode: React.FC<DraggableCardProps> = ({
   );
 };
 
-// Helper function to calculate branch relationships
-const calculateBranchTree = async (
-  branches: Branch[],
-  owner: string,
-  repo: string,
-  defaultBranch: string,
-  headers: HeadersInit,
-  existingRelationships: Record<string, string> = {}
-): Promise<{ branches: Branch[], connections: BranchConnection[] }> => {
-  const branchMap = new Map<string, Branch>();
-  const connections: BranchConnection[] = [];
-  
-  // Initialize branch map
-  branches.forEach(branch => {
-    branchMap.set(branch.name, { ...branch, children: [] });
-  });
-
-  // Set default branch as root
-  const rootBranch = branchMap.get(defaultBranch);
-  if (rootBranch) {
-    rootBranch.depth = 0;
-    rootBranch.aheadBy = 1; // Default branch always considered ahead
-  }
-
-  const updatedBranches = Array.from(branchMap.values());
-  
-  try {
-    // Create a map to store branch relationships
-    const branchRelationships = new Map<string, string>(); // child -> parent
-    const mergedBranches = new Map<string, { mergedInto: string, aheadBy: number }>(); // Track merged branches with details
-    
-    // First pass: Identify all merged branches
-    for (const branch of updatedBranches) {
-      if (branch.name === defaultBranch) continue;
-      
-      // Check if branch is merged into default branch
-      try {
-        const compareUrl = `https://api.github.com/repos/${owner}/${repo}/compare/${defaultBranch}...${branch.name}`;
-        const response = await fetch(compareUrl, { headers });
-        
-        if (response.ok) {
-          const compareData = await response.json();
-          if (compareData.ahead_by === 0 && compareData.behind_by >= 0) {
-            mergedBranches.set(branch.name, { mergedInto: defaultBranch, aheadBy: 0 });
-          }
-        }
-      } catch (error) {
-        console.warn(`Error comparing ${branch.name} with ${defaultBranch}:`, error);
-      }
-      
-      await new Promise(resolve => setTimeout(resolve, 50)); // Rate limit delay
-    }
-    
-    // Sort branches by name to ensure consistent ordering
-    const sortedBranches = updatedBranches
-      .filter(b => b.name !== defaultBranch)
-      .sort((a, b) => a.name.localeCompare(b.name));
-    
-    // Second pass: Determine parent-child relationships
-    for (const branch of sortedBranches) {
-      // Check if we have an existing relationship for this branch
-      if (existingRelationships[branch.name]) {
-        // Verify the parent still exists
-        const existingParent = existingRelationships[branch.name];
-        if (updatedBranches.some(b => b.name === existingParent)) {
-          branchRelationships.set(branch.name, existingParent);
-          
-          // Mark branch as merged if detected
-          // const branchToUpdate = branchMap.get(branch.name);
-          // if (branchToUpdate && mergedBranches.has(branch.name)) {
-          //   branchToUpdate.isMerged = true;
-          // }
-          continue; // Skip to next branch
-        }
-      }
-      
-      let bestParent = defaultBranch;
-      let bestScore = -Infinity;
-      let shortestDistance = Infinity;
-      
-      // Skip if this branch is already identified as merged
-      const mergedInfo = mergedBranches.get(branch.name);
-      
-      // Compare with all potential parent branches
-      const potentialParents = updatedBranches.filter(b => 
-        b.name !== branch.name && 
-        !mergedBranches.has(b.name) // Don't use merged branches as parents
-      );
-      
-      for (const candidate of potentialParents) {
-        try {
-          const compareUrl = `https://api.github.com/repos/${owner}/${repo}/compare/${candidate.name}...${branch.name}`;
-          const response = await fetch(compareUrl, { headers });
-          
-          if (response.ok) {
-            const compareData = await response.json();
-            
-            // If branch is ahead and not behind, it's a potential child
-            if (compareData.ahead_by > 0 && compareData.behind_by === 0) {
-              // Prefer parents with fewer commits between (shorter distance)
-              if (compareData.ahead_by < shortestDistance) {
-                shortestDistance = compareData.ahead_by;
-                bestParent = candidate.name;
-                bestScore = -compareData.ahead_by;
-              }
-            } else if (compareData.ahead_by === 0 && compareData.behind_by >= 0 && !mergedInfo) {
-              // Branch is fully merged into this candidate
-              mergedBranches.set(branch.name, { mergedInto: candidate.name, aheadBy: 0 });
-              bestParent = candidate.name;
-              break;
-            }
-          }
-        } catch (error) {
-          console.warn(`Error comparing ${branch.name} with ${candidate.name}:`, error);
-        }
-        
-        await new Promise(resolve => setTimeout(resolve, 50)); // Rate limit delay
-      }
-      
-      // Set the parent relationship
-      branchRelationships.set(branch.name, bestParent);
-      
-      // Mark branch as merged if detected
-      // const branchToUpdate = branchMap.get(branch.name);
-      // if (branchToUpdate && mergedBranches.has(branch.name)) {
-      //   branchToUpdate.isMerged = true;
-      // }
-    }
-    
-    // Third pass: Determine aheadBy for each branch
-    for (const branch of sortedBranches) {
-      const parent = branchRelationships.get(branch.name) || defaultBranch;
-      try {
-        const compareUrl = `https://api.github.com/repos/${owner}/${repo}/compare/${parent}...${branch.name}`;
-        const response = await fetch(compareUrl, { headers });
-        if (response.ok) {
-          const compareData = await response.json();
-          const aheadBy = compareData.ahead_by;
-          const branchToUpdate = branchMap.get(branch.name);
-          if (branchToUpdate) {
-            branchToUpdate.aheadBy = aheadBy;
-          }
-        }
-      } catch (error) {
-        console.warn(`Error checking aheadBy for ${branch.name}:`, error);
-        const branchToUpdate = branchMap.get(branch.name);
-        if (branchToUpdate) {
-          branchToUpdate.aheadBy = undefined;
-        }
-      }
-      await new Promise(resolve => setTimeout(resolve, 50)); // Rate limit delay
-    }
-    
-    // Build the tree structure based on relationships
-    updatedBranches.forEach(branch => {
-      if (branch.name === defaultBranch) return;
-      
-      const parent = branchRelationships.get(branch.name) || defaultBranch;
-      branch.parent = parent;
-      
-      // Calculate depth
-      let depth = 1;
-      let currentParent: string | undefined = parent;
-      const visited = new Set<string>(); // Prevent infinite loops
-      
-      while (currentParent && currentParent !== defaultBranch && !visited.has(currentParent)) {
-        visited.add(currentParent);
-        depth++;
-        currentParent = branchRelationships.get(currentParent);
-      }
-      branch.depth = Math.min(depth, 5); // Cap depth at 5 for visualization
-      
-      // Get commit count for this connection (will be calculated later when commits are fetched)
-      connections.push({ 
-        from: branch.name,  // Changed: from child
-        to: parent,         // Changed: to parent
-        commitCount: 0 // Will be updated when commits are fetched
-      });
-      
-      // Update parent's children
-      const parentBranch = branchMap.get(parent);
-      if (parentBranch) {
-        parentBranch.children = parentBranch.children || [];
-        parentBranch.children.push(branch.name);
-      }
-    });
-    
-  } catch (error) {
-    console.error('Error analyzing branch relationships:', error);
-    
-    // Fallback: Simple heuristic based on branch names
-    const fallbackPatterns = {
-      develop: /^(develop|dev|development)$/i,
-      feature: /^(feature|feat)\//i,
-      bugfix: /^(bugfix|fix|hotfix)\//i,
-      release: /^(release|rel)\//i,
-    };
-    
-    updatedBranches.forEach(branch => {
-      if (branch.name === defaultBranch) return;
-      
-      let parent = defaultBranch;
-      let depth = 1;
-      
-      // Check if there's a develop branch and this might branch from it
-      const developBranch = updatedBranches.find(b => fallbackPatterns.develop.test(b.name));
-      if (developBranch && (fallbackPatterns.feature.test(branch.name) || fallbackPatterns.bugfix.test(branch.name))) {
-        parent = developBranch.name;
-        depth = 2;
-      }
-      
-      branch.parent = parent;
-      branch.depth = depth;
-      branch.aheadBy = 1; // Default to 1 in fallback
-      connections.push({ from: parent, to: branch.name });
-      
-      const parentBranch = branchMap.get(parent);
-      if (parentBranch) {
-        parentBranch.children = parentBranch.children || [];
-        parentBranch.children.push(branch.name);
-      }
-    });
-  }
-
-  return { branches: updatedBranches, connections };
-};
-
-// Helper function to calculate tree layout positions
-const calculateTreeLayout = (
-  branches: Branch[],
-  canvasWidth: number = 1200,
-  canvasHeight: number = 800,
-  alignment: 'horizontal' | 'vertical' | 'radial' = 'horizontal'
-): Record<string, Position> => {
-  const positions: Record<string, Position> = {};
-  const horizontalSpacing = 200;
-  const verticalSpacing = 150;
-  const startX = 100;
-  const startY = 100;
-
-  // Group branches by depth
-  const branchesByDepth = new Map<number, Branch[]>();
-  branches.forEach(branch => {
-    const depth = branch.depth || 0;
-    if (!branchesByDepth.has(depth)) {
-      branchesByDepth.set(depth, []);
-    }
-    branchesByDepth.get(depth)?.push(branch);
-  });
-
-  if (alignment === 'horizontal') {
-    // Default: horizontal tree (current)
-    branchesByDepth.forEach((branchesAtDepth, depth) => {
-      const y = startY + depth * verticalSpacing;
-      const totalWidth = (branchesAtDepth.length - 1) * horizontalSpacing;
-      const startXForDepth = (canvasWidth - totalWidth) / 2;
-      branchesAtDepth.forEach((branch, index) => {
-        const x = startXForDepth + index * horizontalSpacing;
-        positions[branch.name] = { x, y };
-      });
-    });
-  } else if (alignment === 'vertical') {
-    // Vertical tree
-    branchesByDepth.forEach((branchesAtDepth, depth) => {
-      const x = startX + depth * horizontalSpacing;
-      const totalHeight = (branchesAtDepth.length - 1) * verticalSpacing;
-      const startYForDepth = (canvasHeight - totalHeight) / 2;
-      branchesAtDepth.forEach((branch, index) => {
-        const y = startYForDepth + index * verticalSpacing;
-        positions[branch.name] = { x, y };
-      });
-    });
-  } else if (alignment === 'radial') {
-    // Radial layout
-    const maxDepth = Math.max(...branches.map(b => b.depth || 0));
-    const centerX = canvasWidth / 2;
-    const centerY = canvasHeight / 2;
-    const radiusStep = Math.min(canvasWidth, canvasHeight) / (2 * (maxDepth + 2));
-    branchesByDepth.forEach((branchesAtDepth, depth) => {
-      const radius = radiusStep * (depth + 1);
-      const angleStep = (2 * Math.PI) / branchesAtDepth.length;
-      branchesAtDepth.forEach((branch, index) => {
-        const angle = angleStep * index - Math.PI / 2;
-        const x = centerX + Math.cos(angle) * radius;
-        const y = centerY + Math.sin(angle) * radius;
-        positions[branch.name] = { x, y };
-      });
-    });
-  }
-  return positions;
-};
-
 // Component to draw connection lines between branches
 interface ConnectionLineProps {
   from: Position;
@@ -786,9 +490,10 @@ interface ConnectionLineProps {
   offset: Position;
   pullRequest?: PullRequest;
   commitCount?: number; // Number of commits this connection represents
+  className?: string;
 }
 
-const ConnectionLine: React.FC<ConnectionLineProps> = ({ from, to, scale, offset, pullRequest, commitCount = 0 }) => {
+const ConnectionLine: React.FC<ConnectionLineProps> = ({ from, to, scale, offset, pullRequest, commitCount = 0, className }) => {
   // Calculate screen positions (center of nodes)
   const fromScreen = {
     x: from.x * scale + offset.x,
@@ -821,7 +526,7 @@ const ConnectionLine: React.FC<ConnectionLineProps> = ({ from, to, scale, offset
   const getStrokeColor = () => {
     if (pullRequest) {
       if (pullRequest.draft) return "156, 163, 175";
-      if (pullRequest.mergeable_state === 'blocked') return "239, 68, 68";
+      if (pullRequest.blocked) return "239, 68, 68";
       return "34, 197, 94";
     }
     return "99, 102, 241";
@@ -830,12 +535,16 @@ const ConnectionLine: React.FC<ConnectionLineProps> = ({ from, to, scale, offset
   const strokeColorRGB = getStrokeColor();
   const glowIntensity = pullRequest ? 0.8 : 0.5;
 
+  // Decorations that fit at this length on screen
+  const detail = edgeDetail(distance, scale);
+
   // Calculate number of pulses to show (max 5 for performance)
-  const numPulses = Math.min(commitCount, 5);
+  const numPulses = detail.pulses ? Math.min(commitCount, 5) : 0;
   const pulseDelay = 3 / numPulses; // Distribute pulses evenly over animation duration
 
   return (
     <svg
+      className={className}
       style={{
         position: 'absolute',
         top: 0,
@@ -891,15 +600,17 @@ const ConnectionLine: React.FC<ConnectionLineProps> = ({ from, to, scale, offset
       </defs>
       
       {/* Glow layer - wider and more blurred */}
-      <line
-        x1={fromEdge.x}
-        y1={fromEdge.y}
-        x2={toEdge.x}
-        y2={toEdge.y}
-        stroke={`rgba(${strokeColorRGB}, ${glowIntensity * 0.3})`}
-        strokeWidth={pullRequest ? 8 : 6}
-        filter={`url(#glow-${from.x}-${from.y}-${to.x}-${to.y})`}
-      />
+      {detail.glow && (
+        <line
+          x1={fromEdge.x}
+          y1={fromEdge.y}
+          x2={toEdge.x}
+          y2={toEdge.y}
+          stroke={`rgba(${strokeColorRGB}, ${glowIntensity * 0.3})`}
+          strokeWidth={pullRequest ? 8 : 6}
+          filter={`url(#glow-${from.x}-${from.y}-${to.x}-${to.y})`}
+        />
+      )}
       
       {/* Main line */}
       <line
@@ -907,14 +618,14 @@ const ConnectionLine: React.FC<ConnectionLineProps> = ({ from, to, scale, offset
         y1={fromEdge.y}
         x2={toEdge.x}
         y2={toEdge.y}
-        stroke={pullRequest ? `url(#pr-pulse-${pullRequest?.id})` : `url(#line-gradient-${from.x}-${from.y}-${to.x}-${to.y})`}
+        stroke={pullRequest && detail.pulses ? `url(#pr-pulse-${pullRequest.id})` : `url(#line-gradient-${from.x}-${from.y}-${to.x}-${to.y})`}
         strokeWidth={pullRequest ? 2 : 1.5}
         strokeLinecap="round"
         opacity={0.8}
       />
       
       {/* Animated energy pulses for active connections - one per commit */}
-      {commitCount > 0 && (
+      {numPulses > 0 && (
         <>
           {Array.from({ length: numPulses }).map((_, index) => (
             <circle 
@@ -958,7 +669,7 @@ const ConnectionLine: React.FC<ConnectionLineProps> = ({ from, to, scale, offset
       />
       
       {/* Pull request info - floating in the middle */}
-      {pullRequest && (
+      {pullRequest && detail.pullRequestBadge && (
         <g>
           {/* Glowing background */}
           <rect
@@ -989,7 +700,7 @@ const ConnectionLine: React.FC<ConnectionLineProps> = ({ from, to, scale, offset
       )}
       
       {/* Commit count indicator */}
-      {commitCount > 0 && !pullRequest && (
+      {commitCount > 0 && !pullRequest && detail.commitCount && (
         <text
           x={fromScreen.x + (toScreen.x - fromScreen.x) / 2}
           y={fromScreen.y + (toScreen.y - fromScreen.y) / 2 - 10}
@@ -1007,37 +718,81 @@ const ConnectionLine: React.FC<ConnectionLineProps> = ({ from, to, scale, offset
   );
 };
 
+// A connection whose ends follow their cards while they move
+const LiveConnectionLine: React.FC<ConnectionLineProps & { motion: MotionStore; fromId?: string; toId?: string }> = ({
+  motion,
+  fromId,
+  toId,
+  from,
+  to,
+  ...props
+}) => {
+  const liveFrom = useLivePosition(motion, fromId, from);
+  const liveTo = useLivePosition(motion, toId, to);
+  return <ConnectionLine {...props} from={liveFrom} to={liveTo} />;
+};
+
 interface DraggableCanvasProps {
   owner?: string;
   repo?: string;
-  githubToken?: string; // Add support for GitHub token
+  host?: HostInfo; // A configured self-hosted instance; github.com when missing
 }
 
 interface CardPhysics {
   position: Position;
   velocity: Velocity;
   isDragging: boolean;
-  lastDragPosition?: Position;
   originalPosition?: Position; // Store original position for bounce-back
   returnTo?: Position; // Target position to return to (for bounce)
+  pinned?: boolean; // Dropped by hand in the force-directed layout, so the forces leave it there
+}
+
+// A card the physics loop is moving; CardPhysics keeps where it was when it started
+interface MovingCard extends ForceBody {
+  arrived?: boolean; // Reached its returnTo, which is cleared when the motion is committed
 }
 
+const LOAD_STAGES: Record<LoadProgress['stage'], { label: string; unit?: string }> = {
+  branches: { label: 'Loading branches...', unit: 'pages' },
+  history: { label: 'Loading history...', unit: 'commit lists' },
+  inference: { label: 'Placing branches...', unit: 'branches' },
+  layout: { label: 'Laying out the tree...' },
+};
+
 export default function DraggableCanvas({ 
   owner = "facebook", 
-  repo = "react", 
-  githubToken 
+  repo = "react",
+  host
 }: DraggableCanvasProps) {
   // Move these lines to the very top of the component
   const LAYOUT_OPTIONS = [
     { value: 'horizontal', label: 'Horizontal Tree' },
     { value: 'vertical', label: 'Vertical Tree' },
     { value: 'radial', label: 'Radial' },
+    { value: 'force', label: 'Force-directed' },
+    { value: 'timeline', label: 'Timeline' },
   ];
-  const [layoutAlignment, setLayoutAlignment] = useState<'horizontal' | 'vertical' | 'radial'>('horizontal');
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('horizontal');
+  const [forceSettings, setForceSettings] = useState<ForceSettings>(DEFAULT_FORCE_SETTINGS);
+  // The physics loop reads these without re-creating itself; alpha cools the simulation and 1 restarts it
+  const layoutModeRef = useRef<LayoutMode>('horizontal');
+  const forceActiveRef = useRef(false);
+  const forceSettingsRef = useRef<ForceSettings>(DEFAULT_FORCE_SETTINGS);
+  const forceAlphaRef = useRef(0);
   const [branches, setBranches] = useState<Branch[]>([]);
   const [loading, setLoading] = useState(true);
-  const [loadingProgress, setLoadingProgress] = useState({ current: 0, total: 0 });
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [showStorageSettings, setShowStorageSettings] = useState(false);
+  const [showLayoutManager, setShowLayoutManager] = useState(false);
+  const [savedLayouts, setSavedLayouts] = useState<SavedLayout[]>([]);
+  const [activeLayoutName, setActiveLayoutName] = useState<string | null>(null); // Saved layout on screen, re-applied on load
+  const [inspectedBranch, setInspectedBranch] = useState<string | null>(null); // Branch shown in the "why this parent" inspector
+  const [parentOverrides, setParentOverrides] = useState<Record<string, string>>({});
+  const [repoConfig, setRepoConfig] = useState<RepoConfig | null>(null); // The repository's .gitvis.json
+  const [configIssues, setConfigIssues] = useState<{ errors: string[]; dismissed: boolean }>({ errors: [], dismissed: false });
+  const [loadingProgress, setLoadingProgress] = useState<LoadProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [isRateLimited, setIsRateLimited] = useState(false);
   const [cardPhysics, setCardPhysics] = useState<Record<string, CardPhysics>>({});
   const [connections, setConnections] = useState<BranchConnection[]>([]);
   const [defaultBranch, setDefaultBranch] = useState<string>('main');
@@ -1046,15 +801,53 @@ export default function DraggableCanvas({
   const [loadingCommits, setLoadingCommits] = useState<Set<string>>(new Set());
   const [showMergedBranches, setShowMergedBranches] = useState<boolean>(true);
   const [pullRequests, setPullRequests] = useState<PullRequest[]>([]);
-  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  // Recently merged pull requests date where merged branches land on the timeline
+  const [mergedPullRequests, setMergedPullRequests] = useState<PullRequest[]>([]);
+  // Pull requests that came back with the GraphQL branch load, so they aren't fetched again
+  const graphPullsRef = useRef<{ pullRequests: PullRequest[]; aheadBy: Record<number, number> } | null>(null);
+  // Live sync: refs mirror state for the async sync loop, and changed items animate in or out
+  const branchesRef = useRef<Branch[]>([]);
+  const connectionsRef = useRef<BranchConnection[]>([]);
+  const cardPhysicsRef = useRef<Record<string, CardPhysics>>({});
+  const syncInProgressRef = useRef(false);
+  // The heads the tree on screen was built from; pushes move the cards' heads before a sync rebuilds it
+  const treeHeadsRef = useRef<BranchHead[]>([]);
+  // A sync was asked for while one was running; it runs again once that one finishes
+  const syncAgainRef = useRef(false);
+  const pullRequestsRef = useRef<PullRequest[]>([]);
+  const scheduledSyncRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const [enteringKeys, setEnteringKeys] = useState<Set<string>>(new Set());
+  const [leavingBranches, setLeavingBranches] = useState<Array<{ branch: Branch; position: Position }>>([]);
+  const [leavingConnections, setLeavingConnections] = useState<Array<{ connection: BranchConnection; from: Position; to: Position }>>([]);
+  const [collaborators, setCollaborators] = useState<Member[]>([]);
+  const { user } = useSession();
+  const provider = useMemo(() => withPersistentCache(createProvider(host, owner, repo)), [host, owner, repo]);
+
+  // Tree inference and layout run here, off the main thread; started on first use so it never runs during SSR
+  const treeWorkerRef = useRef<TreeWorker | null>(null);
+  const getTreeWorker = useCallback(() => {
+    treeWorkerRef.current = treeWorkerRef.current || createTreeWorker();
+    return treeWorkerRef.current;
+  }, []);
+  useEffect(() => () => {
+    treeWorkerRef.current?.terminate();
+    treeWorkerRef.current = null;
+  }, []);
+  const [canPush, setCanPush] = useState<boolean>(false); // Whoever writes go out as has push access to this repo
   const [dragTargetBranch, setDragTargetBranch] = useState<string | null>(null); // Add this state
   const [draggingBranch, setDraggingBranch] = useState<string | null>(null); // Add this state
   const dragTargetRef = useRef<string | null>(null); // Add ref for immediate access
+  const reparentDragRef = useRef(false); // The current drag re-parents instead of opening a PR
   const animationFrameRef = useRef<number | undefined>(undefined);
+  // Cards in motion are stepped here, outside React state, and drawn from `motion`
+  const movingRef = useRef<Record<string, MovingCard>>({});
+  const draggingRef = useRef<string | null>(null);
+  const [motion] = useState(createMotionStore);
   
   // Zoom and pan state
   const [scale, setScale] = useState(1);
   const [offset, setOffset] = useState<Position>({ x: 0, y: 0 });
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 }); // Unknown until the canvas is measured
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState<Position>({ x: 0, y: 0 });
   const [isSpacePressed, setIsSpacePressed] = useState(false);
@@ -1190,6 +983,27 @@ export default function DraggableCanvas({
     setIsPanning(false);
   }, []);
 
+  // Track the canvas's size, for culling what's off screen
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [loading, error]);
+
+  // Zoom in on a collapsed subtree, centered on the screen
+  const zoomToCluster = useCallback((cluster: Cluster) => {
+    const newScale = 1;
+    setScale(newScale);
+    setOffset({
+      x: viewportSize.width / 2 - cluster.center.x * newScale,
+      y: viewportSize.height / 2 - cluster.center.y * newScale
+    });
+  }, [viewportSize]);
+
   // Set up event listeners
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -1206,388 +1020,476 @@ export default function DraggableCanvas({
     };
   }, [handleWheel, handleMouseMove, handleMouseUp]);
 
-  // Physics update loop
-  const updatePhysics = useCallback(() => {
-    setCardPhysics(prevPhysics => {
-      const newPhysics = { ...prevPhysics };
-      const cardIds = Object.keys(newPhysics);
-
-      // Update positions based on velocity and handle bounce-back
-      cardIds.forEach(id => {
-        const card = newPhysics[id];
-        if (!card.isDragging) {
-          // Bounce-back logic
-          if (card.returnTo) {
-            const dx = card.returnTo.x - card.position.x;
-            const dy = card.returnTo.y - card.position.y;
-            const dist = Math.sqrt(dx * dx + dy * dy);
-            if (dist < 1) {
-              // Snap to target and clear returnTo
-              card.position = { ...card.returnTo };
-              card.velocity = { x: 0, y: 0 };
-              delete card.returnTo;
-              delete card.originalPosition;
-            } else {
-              // Move toward returnTo with spring effect
-              const spring = 0.2;
-              card.velocity.x = dx * spring;
-              card.velocity.y = dy * spring;
-              card.position.x += card.velocity.x;
-              card.position.y += card.velocity.y;
-            }
-          } else {
-            // Apply velocity
-            card.position.x += card.velocity.x;
-            card.position.y += card.velocity.y;
-            // Apply friction
-            card.velocity.x *= FRICTION;
-            card.velocity.y *= FRICTION;
-            // Stop if velocity is too small
-            if (Math.abs(card.velocity.x) < MIN_VELOCITY) card.velocity.x = 0;
-            if (Math.abs(card.velocity.y) < MIN_VELOCITY) card.velocity.y = 0;
-          }
+  // Physics loop. It only runs while a card moves: flung, springing back to
+  // returnTo, or pushed by the force-directed layout. Moving cards are stepped
+  // in movingRef and published through `motion`, so only they redraw; their
+  // positions are committed to cardPhysics once everything has come to rest.
+  const stepPhysics = useCallback(() => {
+    animationFrameRef.current = undefined;
+    const physics = cardPhysicsRef.current;
+    const moving = movingRef.current;
+    const dragging = draggingRef.current;
+
+    // Force-directed mode moves free cards itself until it cools down
+    const forcesRunning = forceActiveRef.current && forceAlphaRef.current > ALPHA_MIN;
+
+    Object.keys(moving).forEach(id => {
+      if (!physics[id]) delete moving[id];
+    });
+    Object.entries(physics).forEach(([id, card]) => {
+      if (moving[id]) return;
+      // Dragged cards join when they're moved, or as fixed bodies for the forces
+      if (forcesRunning || card.returnTo || card.velocity.x !== 0 || card.velocity.y !== 0) {
+        moving[id] = { position: { ...card.position }, velocity: { ...card.velocity } };
+      }
+    });
+    if (Object.keys(moving).length === 0) return;
+    const returnTarget = (id: string) => (moving[id].arrived ? undefined : physics[id].returnTo);
+
+    if (forcesRunning) {
+      forceAlphaRef.current = stepForces(
+        moving,
+        connectionsRef.current,
+        id => id === dragging || Boolean(physics[id].pinned || returnTarget(id)),
+        forceSettingsRef.current,
+        forceAlphaRef.current,
+        COLLISION_RADIUS
+      );
+    }
+
+    // Update positions based on velocity and handle bounce-back
+    Object.entries(moving).forEach(([id, card]) => {
+      if (id === dragging) return;
+      const returnTo = returnTarget(id);
+      if (returnTo) {
+        const dx = returnTo.x - card.position.x;
+        const dy = returnTo.y - card.position.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist < 1) {
+          // Snap to target; returnTo is cleared when the motion is committed
+          card.position = { ...returnTo };
+          card.velocity = { x: 0, y: 0 };
+          card.arrived = true;
+        } else {
+          // Move toward returnTo with spring effect
+          const spring = 0.2;
+          card.velocity.x = dx * spring;
+          card.velocity.y = dy * spring;
+          card.position.x += card.velocity.x;
+          card.position.y += card.velocity.y;
+        }
+      } else if (!forcesRunning) {
+        // Apply velocity
+        card.position.x += card.velocity.x;
+        card.position.y += card.velocity.y;
+        // Apply friction
+        card.velocity.x *= FRICTION;
+        card.velocity.y *= FRICTION;
+        // Stop if velocity is too small
+        if (Math.abs(card.velocity.x) < MIN_VELOCITY) card.velocity.x = 0;
+        if (Math.abs(card.velocity.y) < MIN_VELOCITY) card.velocity.y = 0;
+      }
+    });
+
+    Object.entries(moving).forEach(([id, card]) => motion.set(id, { ...card.position }));
+    motion.notify();
+
+    const stillMoving = (forceActiveRef.current && forceAlphaRef.current > ALPHA_MIN) ||
+      Object.entries(moving).some(([id, card]) =>
+        id !== dragging && (returnTarget(id) || card.velocity.x !== 0 || card.velocity.y !== 0)
+      );
+    if (stillMoving) {
+      animationFrameRef.current = requestAnimationFrame(stepPhysics);
+      return;
+    }
+
+    // A held card is committed once it's let go
+    if (dragging !== null && moving[dragging]) return;
+
+    // Everything is at rest: one commit with the final positions
+    movingRef.current = {};
+    setCardPhysics(prev => {
+      const next = { ...prev };
+      Object.entries(moving).forEach(([id, card]) => {
+        if (!next[id]) return;
+        next[id] = { ...next[id], position: card.position, velocity: { x: 0, y: 0 } };
+        if (card.arrived) {
+          delete next[id].returnTo;
+          delete next[id].originalPosition;
         }
       });
-      // Removed all collision detection and pushing logic
-      return newPhysics;
+      return next;
     });
-    animationFrameRef.current = requestAnimationFrame(updatePhysics);
+  }, [motion]);
+
+  const startPhysics = useCallback(() => {
+    if (animationFrameRef.current === undefined) {
+      animationFrameRef.current = requestAnimationFrame(stepPhysics);
+    }
+  }, [stepPhysics]);
+
+  // Cards jumping to a new layout stop wherever they were heading; their live
+  // positions are dropped once the new ones are committed
+  const stopMotion = useCallback(() => {
+    if (animationFrameRef.current !== undefined) cancelAnimationFrame(animationFrameRef.current);
+    animationFrameRef.current = undefined;
+    movingRef.current = {};
   }, []);
 
-  // Start physics simulation
+  useEffect(() => stopMotion, [stopMotion]);
+
+  // Keep the latest state in refs for the async loaders and the background sync
+  useEffect(() => {
+    branchesRef.current = branches;
+    connectionsRef.current = connections;
+    pullRequestsRef.current = pullRequests;
+  }, [branches, connections, pullRequests]);
+
+  useEffect(() => {
+    cardPhysicsRef.current = cardPhysics;
+    // Live positions of cards that have come to rest are in cardPhysics now
+    const settled = motion.ids().filter(id => !movingRef.current[id]);
+    if (settled.length > 0) {
+      settled.forEach(id => motion.delete(id));
+      motion.notify();
+    }
+    // Anything the commit set moving (a drop, a bounce-back) starts the loop
+    startPhysics();
+  }, [cardPhysics, motion, startPhysics]);
+
+  // Any change to the force-directed layout's inputs sets it moving again
+  useEffect(() => {
+    layoutModeRef.current = layoutMode;
+    forceActiveRef.current = showTreeView && layoutMode === 'force';
+    forceSettingsRef.current = forceSettings;
+    forceAlphaRef.current = 1;
+    startPhysics();
+  }, [layoutMode, showTreeView, forceSettings, connections, startPhysics]);
+
+  // Timeline positions are dates, so cards move with them when a sync (or loading a card's commits) changes them
+  const [timeline, setTimeline] = useState<TimelineLayout | null>(null);
   useEffect(() => {
-    animationFrameRef.current = requestAnimationFrame(updatePhysics);
+    if (!showTreeView || layoutMode !== 'timeline') {
+      setTimeline(null);
+      return;
+    }
+
+    let cancelled = false;
+    getTreeWorker().calculateLayout(applyMergedPulls(branches, mergedPullRequests), 'timeline').then(layout => {
+      if (cancelled || !layout.timeline) return;
+      setTimeline(layout.timeline);
+      stopMotion();
+      setCardPhysics(prev => {
+        const physics = { ...prev };
+        Object.entries(layout.positions).forEach(([name, position]) => {
+          if (physics[name]) {
+            physics[name] = { ...physics[name], position, velocity: { x: 0, y: 0 } };
+          }
+        });
+        return physics;
+      });
+    }, error => console.warn('Timeline layout failed:', error));
     return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
+      cancelled = true;
     };
-  }, [updatePhysics]);
+  }, [branches, mergedPullRequests, layoutMode, showTreeView, getTreeWorker, stopMotion]);
+
+  // Animate what a sync changed: new items fade in, removed ones fade out where they were
+  const animateChanges = useCallback((branchDiff: BranchDiff | null, connectionDiff: ConnectionDiff) => {
+    const physics = cardPhysicsRef.current;
+    const entering = new Set([
+      ...(branchDiff?.added || []).map(branch => `branch:${branch.name}`),
+      ...connectionDiff.added.map(connection => `connection:${connectionKey(connection)}`)
+    ]);
+    const leavingNodes = (branchDiff?.removed || [])
+      .filter(branch => physics[branch.name])
+      .map(branch => ({ branch, position: motion.get(branch.name) || physics[branch.name].position }));
+    const leavingLines = connectionDiff.removed
+      .filter(connection => physics[connection.from] && physics[connection.to])
+      .map(connection => ({
+        connection,
+        from: motion.get(connection.from) || physics[connection.from].position,
+        to: motion.get(connection.to) || physics[connection.to].position
+      }));
+
+    if (entering.size === 0 && leavingNodes.length === 0 && leavingLines.length === 0) return;
+
+    setEnteringKeys(prev => new Set([...prev, ...entering]));
+    setLeavingBranches(prev => [...prev, ...leavingNodes]);
+    setLeavingConnections(prev => [...prev, ...leavingLines]);
+
+    setTimeout(() => {
+      setEnteringKeys(prev => {
+        const next = new Set(prev);
+        entering.forEach(key => next.delete(key));
+        return next;
+      });
+      setLeavingBranches(prev => prev.filter(item => !leavingNodes.includes(item)));
+      setLeavingConnections(prev => prev.filter(item => !leavingLines.includes(item)));
+    }, SYNC_ANIMATION_MS);
+  }, [motion]);
 
-  useEffect(() => {
-    const fetchBranches = async () => {
-      try {
+  // Fetch open pull requests and reconcile the PR arrows with them
+  const syncPullRequests = useCallback(async (animate: boolean) => {
+    try {
+      // Fetch open pull requests, unless the GraphQL loader already brought them along
+      const preloaded = graphPullsRef.current;
+      const [pullRequestsData, mergedPullRequestsData] = await Promise.all([
+        preloaded ? preloaded.pullRequests : provider.listPulls(),
+        provider.listMergedPulls(),
+      ]);
+      setPullRequests(pullRequestsData);
+      setMergedPullRequests(mergedPullRequestsData);
+      
+      // Ahead-by for each PR is used as commitCount for the PR connection
+      const prAheadByMap: Record<number, number> = { ...preloaded?.aheadBy };
+      await Promise.all(
+        pullRequestsData.filter(pr => prAheadByMap[pr.id] === undefined).map(async (pr) => {
+          try {
+            const compareData = await provider.compare(pr.base.ref, pr.head.ref);
+            prAheadByMap[pr.id] = compareData.aheadBy;
+          } catch {
+            prAheadByMap[pr.id] = 0;
+          }
+        })
+      );
+      
+      const currentConnections = connectionsRef.current;
+      const nextConnections = applyPullRequests(currentConnections, branchesRef.current, pullRequestsData, prAheadByMap);
+      if (animate) {
+        animateChanges(null, diffConnections(currentConnections, nextConnections));
+      }
+      connectionsRef.current = nextConnections;
+      setConnections(nextConnections);
+    } catch (error) {
+      console.error('Error fetching pull requests:', error);
+    }
+  }, [provider, animateChanges]);
+
+  // Load branches and build the tree. A refresh keeps the canvas on screen and
+  // only animates what changed; a background sync also swallows its errors.
+  const loadBranches = useCallback(async (mode: 'initial' | 'refresh' | 'background') => {
+    const revalidate = mode !== 'initial';
+    try {
+      if (mode === 'initial') {
         setLoading(true);
+      } else if (mode === 'refresh') {
+        setIsRefreshing(true);
+      }
+      if (mode !== 'background') {
         setError(null);
-        
-        // Check cache first
-        const cacheKey = `gitvis-branches-${owner}-${repo}`;
-        const cacheTimeKey = `${cacheKey}-time`;
-        const cachedData = localStorage.getItem(cacheKey);
-        const cacheTime = localStorage.getItem(cacheTimeKey);
-        
-        // Cache TTL: 5 minutes
-        const cacheTTL = 5 * 60 * 1000;
-        const now = Date.now();
-        
-        if (cachedData && cacheTime && (now - parseInt(cacheTime)) < cacheTTL) {
-          // Use cached data
-          const { branches: cachedBranches, defaultBranch: cachedDefaultBranch } = JSON.parse(cachedData);
-          
-          setDefaultBranch(cachedDefaultBranch);
-          
-          // Load existing relationships
-          const relationshipsCacheKey = `${cacheKey}-relationships`;
-          const cachedRelationships = localStorage.getItem(relationshipsCacheKey);
-          let existingRelationships: Record<string, string> = {};
-          
-          if (cachedRelationships) {
-            try {
-              existingRelationships = JSON.parse(cachedRelationships);
-            } catch (e) {
-              console.warn('Failed to parse cached relationships:', e);
-            }
+        setIsRateLimited(false);
+      }
+      graphPullsRef.current = null;
+      
+      const applyTree = async (treeBranches: Branch[], treeConnections: BranchConnection[]) => {
+        treeHeadsRef.current = treeBranches;
+
+        // Remember inferred parents for future loads; overrides are stored on their own and rules live in the config
+        const newRelationships: Record<string, string> = {};
+        treeBranches.forEach(branch => {
+          const reason = branch.parentage?.reason;
+          const parent = reason === 'override' || reason === 'rule'
+            ? branch.parentage!.inferred?.parent ?? branch.parent
+            : branch.parent;
+          if (parent) {
+            newRelationships[branch.name] = parent;
           }
-          
-          // Calculate tree structure
-          const { branches: treeBranches, connections: treeConnections } = await calculateBranchTree(
-            cachedBranches,
-            owner,
-            repo,
-            cachedDefaultBranch,
-            {},
-            existingRelationships
-          );
-          
+        });
+        writeSavedRelationships(provider.repoKey, newRelationships);
+        setParentOverrides(readParentOverrides(provider.repoKey));
+
+        // Calculate tree layout positions
+        setLoadingProgress({ stage: 'layout', current: 0, total: treeBranches.length });
+        const { positions: treePositions } = await getTreeWorker().calculateLayout(treeBranches, layoutModeRef.current);
+
+        if (!revalidate) {
           setBranches(treeBranches);
           setConnections(treeConnections);
-          
-          // Calculate tree layout positions
-          const treePositions = calculateTreeLayout(treeBranches, 1200, 800, 'horizontal');
-          
+
+          // The saved layout that was on screen last time comes back in Free Layout
+          const savedLayout = readActiveLayout(provider.repoKey);
+          setSavedLayouts(readSavedLayouts(provider.repoKey));
+          setActiveLayoutName(savedLayout?.name ?? null);
+          if (savedLayout) {
+            setShowTreeView(false);
+            setScale(savedLayout.scale);
+            setOffset(savedLayout.offset);
+          }
+          const positions = savedLayout ? placeSavedLayout(savedLayout, treeBranches, treePositions) : treePositions;
+
           // Initialize physics with tree layout
           const physics: Record<string, CardPhysics> = {};
           treeBranches.forEach((branch) => {
-            const position = treePositions[branch.name] || { x: 100, y: 100 };
+            const position = positions[branch.name] || { x: 100, y: 100 };
             physics[branch.name] = {
               position,
               velocity: { x: 0, y: 0 },
               isDragging: false
             };
           });
+          stopMotion();
           setCardPhysics(physics);
-          setLoading(false);
           return;
         }
-        
-        // Prepare headers for GitHub API
-        const headers: HeadersInit = {
-          'Accept': 'application/vnd.github+json',
-          'X-GitHub-Api-Version': '2022-11-28'
-        };
-        
-        if (githubToken) {
-          headers['Authorization'] = `Bearer ${githubToken}`;
-        }
-        
-        // First, get repository info to find default branch
-        const repoUrl = `https://api.github.com/repos/${owner}/${repo}`;
-        const repoResponse = await fetch(repoUrl, { headers });
-        
-        if (!repoResponse.ok) {
-          if (repoResponse.status === 403) {
-            throw new Error('Rate limit exceeded. Please add a GitHub token or try again later.');
-          }
-          throw new Error(`HTTP error! status: ${repoResponse.status}`);
-        }
-        
-        const repoData = await repoResponse.json();
-        const defaultBranchName = repoData.default_branch || 'main';
-        setDefaultBranch(defaultBranchName);
-        
-        // Fetch all branches in parallel with pagination
-        const fetchAllBranches = async () => {
-          const allBranches: any[] = [];
-          
-          // First, get the total number of branches from the first page
-          const firstPageUrl = `https://api.github.com/repos/${owner}/${repo}/branches?per_page=100&page=1`;
-          const firstPageResponse = await fetch(firstPageUrl, { headers });
-          
-          if (!firstPageResponse.ok) {
-            if (firstPageResponse.status === 403) {
-              throw new Error('Rate limit exceeded. Please add a GitHub token or try again later.');
-            }
-            throw new Error(`HTTP error! status: ${firstPageResponse.status}`);
-          }
-          
-          const firstPageData = await firstPageResponse.json();
-          allBranches.push(...firstPageData);
-          
-          // Check if there are more pages
-          const linkHeader = firstPageResponse.headers.get('Link');
-          let totalPages = 1;
-          
-          if (linkHeader) {
-            const lastPageMatch = linkHeader.match(/page=(\d+)>; rel="last"/);
-            if (lastPageMatch) {
-              totalPages = parseInt(lastPageMatch[1], 10);
-            }
-          }
-          
-          // Update progress
-          setLoadingProgress({ current: 1, total: totalPages });
-          
-          // If there are more pages, fetch them in parallel
-          if (totalPages > 1) {
-            const pagePromises = [];
-            for (let page = 2; page <= totalPages; page++) {
-              const pageUrl = `https://api.github.com/repos/${owner}/${repo}/branches?per_page=100&page=${page}`;
-              pagePromises.push(
-                fetch(pageUrl, { headers })
-                  .then(res => {
-                    if (!res.ok) throw new Error(`Failed to fetch page ${page}`);
-                    return res.json();
-                  })
-                  .then(data => {
-                    // Update progress as pages complete
-                    setLoadingProgress(prev => ({ ...prev, current: prev.current + 1 }));
-                    return data;
-                  })
-              );
-            }
-            
-            // Fetch all pages in parallel
-            const pageResults = await Promise.all(pagePromises);
-            pageResults.forEach(pageData => {
-              allBranches.push(...pageData);
-            });
-          }
-          
-          return allBranches;
-        };
-        
-        const allBranches = await fetchAllBranches();
-        
-        // Cache the data
-        localStorage.setItem(cacheKey, JSON.stringify({ 
-          branches: allBranches, 
-          defaultBranch: defaultBranchName 
-        }));
-        localStorage.setItem(cacheTimeKey, now.toString());
-        
-        // Check if we have existing branch relationships cached
-        const relationshipsCacheKey = `${cacheKey}-relationships`;
-        const cachedRelationships = localStorage.getItem(relationshipsCacheKey);
-        let existingRelationships: Record<string, string> = {};
-        
-        if (cachedRelationships) {
-          try {
-            existingRelationships = JSON.parse(cachedRelationships);
-          } catch (e) {
-            console.warn('Failed to parse cached relationships:', e);
-          }
-        }
-        
-        // Calculate tree structure
-        const { branches: treeBranches, connections: treeConnections } = await calculateBranchTree(
-          allBranches,
-          owner,
-          repo,
-          defaultBranchName,
-          headers,
-          existingRelationships
-        );
-        
-        // Save the relationships for future use
-        const newRelationships: Record<string, string> = {};
-        treeBranches.forEach(branch => {
-          if (branch.parent) {
-            newRelationships[branch.name] = branch.parent;
-          }
-        });
-        localStorage.setItem(relationshipsCacheKey, JSON.stringify(newRelationships));
-        
-        setBranches(treeBranches);
-        setConnections(treeConnections);
-        
-        // Calculate tree layout positions
-        const treePositions = calculateTreeLayout(treeBranches, 1200, 800, 'horizontal');
-        
-        // Initialize physics with tree layout
-        const physics: Record<string, CardPhysics> = {};
-        treeBranches.forEach((branch) => {
-          const position = treePositions[branch.name] || { x: 100, y: 100 };
-          physics[branch.name] = {
-            position,
-            velocity: { x: 0, y: 0 },
-            isDragging: false
-          };
+
+        // Diff against what's on screen and only touch what changed
+        const merged = mergeTree(branchesRef.current, connectionsRef.current, treeBranches, treeConnections);
+        const branchDiff = diffBranches(branchesRef.current, merged.branches);
+        const connectionDiff = diffConnections(connectionsRef.current, merged.connections);
+        if (isEmptyDiff(branchDiff, connectionDiff)) return;
+
+        animateChanges(branchDiff, connectionDiff);
+        branchesRef.current = merged.branches;
+        connectionsRef.current = merged.connections;
+        setBranches(merged.branches);
+        setConnections(merged.connections);
+
+        // Existing cards stay where they are; new ones appear next to their parent
+        setCardPhysics(prevPhysics => {
+          const positions = syncedPositions(
+            merged.branches,
+            branchDiff.added,
+            Object.fromEntries(Object.entries(prevPhysics).map(([name, card]) => [name, card.position])),
+            treePositions
+          );
+          const physics: Record<string, CardPhysics> = {};
+          merged.branches.forEach((branch) => {
+            physics[branch.name] = prevPhysics[branch.name] || {
+              position: positions[branch.name],
+              velocity: { x: 0, y: 0 },
+              isDragging: false
+            };
+          });
+          return physics;
         });
-        setCardPhysics(physics);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'An error occurred');
-      } finally {
-        setLoading(false);
+      };
+
+      // The branch model rules apply to whichever loader builds the tree. A
+      // reload only brings a dismissed error list back when the errors changed.
+      const { config, errors: configErrors } = await loadRepoConfig(provider);
+      setRepoConfig(config);
+      setConfigIssues(prev =>
+        prev.errors.join('\n') === configErrors.join('\n') ? prev : { errors: configErrors, dismissed: false }
+      );
+      const hints = { ...readParentHints(provider.repoKey), config: config ?? undefined };
+
+      // A background sync checks the heads over REST first. Those requests are conditional,
+      // so unchanged pages come back 304 without using up the rate limit, and the bulk
+      // load below only runs again once a head has moved.
+      if (mode === 'background' && provider.loadBranchGraph && treeHeadsRef.current.length > 0) {
+        const built = new Set(treeHeadsRef.current.map(branch => branch.name));
+        const heads = (await provider.listBranches())
+          .filter(head => built.has(head.name) || !isIgnored(config, head.name));
+        if (sameHeads(heads, treeHeadsRef.current)) {
+          await syncPullRequests(true);
+          return;
+        }
       }
-    };
 
-    fetchBranches();
-  }, [owner, repo, githubToken, layoutAlignment]);
+      // Prefer the provider's bulk loader (GraphQL on GitHub); the REST path below stays as a fallback
+      let tree: BranchTree | null = null;
+      if (provider.loadBranchGraph) {
+        try {
+          const graph = await provider.loadBranchGraph(
+            hints,
+            (loaded, total) => setLoadingProgress({ stage: 'branches', current: loaded, total }),
+            (histories, treeHints) => getTreeWorker().buildBranchTree(histories, treeHints, setLoadingProgress)
+          );
 
-  // Fetch pull requests when branches are loaded
-  useEffect(() => {
-    const fetchPullRequests = async () => {
-      if (branches.length === 0 || loading) return;
-      
-      try {
-        // Prepare headers for GitHub API
-        const headers: HeadersInit = {
-          'Accept': 'application/vnd.github+json',
-          'X-GitHub-Api-Version': '2022-11-28'
-        };
-        
-        if (githubToken) {
-          headers['Authorization'] = `Bearer ${githubToken}`;
-        }
-        
-        // Fetch open pull requests
-        const pullsUrl = `https://api.github.com/repos/${owner}/${repo}/pulls?state=open&per_page=100`;
-        const response = await fetch(pullsUrl, { headers });
-        
-        if (!response.ok) {
-          console.error('Failed to fetch pull requests:', response.status);
-          return;
+          setDefaultBranch(graph.defaultBranch);
+          graphPullsRef.current = { pullRequests: graph.pullRequests, aheadBy: graph.pullRequestAheadBy };
+          tree = graph;
+        } catch (graphError) {
+          if (graphError instanceof RateLimitError) throw graphError;
+          console.warn('Bulk branch loading failed, falling back to REST:', graphError);
         }
+      }
+      
+      if (!tree) {
+        // First, get repository info to find default branch. Every GET is
+        // revalidated with its ETag, so unchanged data doesn't cost rate limit.
+        const repoData = await provider.getRepository();
+        const defaultBranchName = repoData.defaultBranch;
+        setDefaultBranch(defaultBranchName);
         
-        const pullRequestsData: PullRequest[] = await response.json();
-        setPullRequests(pullRequestsData);
-        
-        // --- NEW LOGIC: Fetch ahead_by for each PR ---
-        // This will be used as commitCount for the PR connection
-        const prAheadByMap: Record<number, number> = {};
-        await Promise.all(
-          pullRequestsData.map(async (pr) => {
-            try {
-              const compareUrl = `https://api.github.com/repos/${owner}/${repo}/compare/${pr.base.ref}...${pr.head.ref}`;
-              const compareRes = await fetch(compareUrl, { headers });
-              if (compareRes.ok) {
-                const compareData = await compareRes.json();
-                prAheadByMap[pr.id] = compareData.ahead_by;
-              } else {
-                prAheadByMap[pr.id] = 0;
-              }
-            } catch (err) {
-              prAheadByMap[pr.id] = 0;
-            }
-          })
-        );
-        // --- END NEW LOGIC ---
-        
-        // Update connections with pull request information
-        setConnections(prevConnections => {
-          const updatedConnections = [...prevConnections];
-          
-          // Create a map of PR connections for quick lookup
-          const prConnectionMap = new Map<string, PullRequest>();
-          pullRequestsData.forEach(pr => {
-            const key = `${pr.head.ref}-${pr.base.ref}`;
-            prConnectionMap.set(key, pr);
-          });
-          
-          // Update existing connections with PR data and ahead_by
-          return updatedConnections.map(connection => {
-            const key = `${connection.from}-${connection.to}`;
-            const pr = prConnectionMap.get(key);
-            if (pr) {
-              return {
-                ...connection,
-                pullRequest: pr,
-                commitCount: prAheadByMap[pr.id] ?? connection.commitCount ?? 0
-              };
-            }
-            return connection;
-          });
+        // Fetch all branches, with progress as pages complete
+        const allBranches = await provider.listBranches((loaded, total) => {
+          setLoadingProgress({ stage: 'branches', current: loaded, total });
         });
         
-        // Add new connections for PRs that don't have existing branch relationships
-        const existingConnectionKeys = new Set(
-          connections.map(c => `${c.from}-${c.to}`)
-        );
-        
-        const newConnections: BranchConnection[] = [];
-        for (const pr of pullRequestsData) {
-          const key = `${pr.head.ref}-${pr.base.ref}`;
-          const headBranchExists = branches.some(b => b.name === pr.head.ref);
-          const baseBranchExists = branches.some(b => b.name === pr.base.ref);
-          if (headBranchExists && baseBranchExists && !existingConnectionKeys.has(key)) {
-            newConnections.push({
-              from: pr.head.ref,
-              to: pr.base.ref,
-              pullRequest: pr,
-              commitCount: prAheadByMap[pr.id] ?? 0
-            });
-          }
-        }
-        if (newConnections.length > 0) {
-          setConnections(prev => [...prev, ...newConnections]);
-        }
+        // Calculate tree structure; history requests come back here to go through the provider
+        tree = await getTreeWorker().calculateBranchTree(
+          allBranches,
+          provider.listCommits,
+          defaultBranchName,
+          hints,
+          setLoadingProgress
+        );
+      }
+      
+      await applyTree(tree.branches, tree.connections);
+
+      // The first load picks up PRs once loading finishes; later loads sync them here
+      if (revalidate) {
+        await syncPullRequests(true);
+      }
+    } catch (err) {
+      if (mode === 'background') {
+        console.warn('Background sync failed:', err);
+      } else if (err instanceof RateLimitError) {
+        setIsRateLimited(true);
+        const resetHint = err.resetAt ? ` It resets at ${err.resetAt.toLocaleTimeString()}.` : '';
+        // GITHUB_TOKEN is only for github.com; Enterprise servers are registered hosts
+        const tokenEnv = host?.kind === 'github' ? REGISTERED_HOST_TOKEN : TOKEN_ENV[provider.kind];
+        const tokenHint = tokenEnv ? ` Please configure ${tokenEnv} on the server or try again later.` : ' Please try again later.';
+        setError(`Rate limit exceeded.${resetHint}${tokenHint}`);
+      } else {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      }
+    } finally {
+      setLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [provider, host, animateChanges, syncPullRequests, getTreeWorker, stopMotion]);
+
+  useEffect(() => {
+    loadBranches('initial');
+  }, [loadBranches]);
+
+  // Remember successfully loaded repositories for the landing page
+  useEffect(() => {
+    if (!loading && !error) {
+      addRecentRepo(owner, repo, host?.id);
+    }
+  }, [loading, error, owner, repo, host]);
+
+  // Check whether writes may go through, which gates drag-to-PR and right-drag-to-branch.
+  // On hosts with sign-in that means the signed-in user; elsewhere the server's token.
+  useEffect(() => {
+    const fetchPermissions = async () => {
+      if (provider.supportsSignIn && !user) {
+        setCanPush(false);
+        return;
+      }
+
+      try {
+        const repoData = await provider.getRepository();
+        setCanPush(repoData.canPush);
       } catch (error) {
-        console.error('Error fetching pull requests:', error);
+        console.error('Error fetching repository permissions:', error);
+        setCanPush(false);
       }
     };
-    
-    fetchPullRequests();
-  }, [branches, loading, owner, repo, githubToken]);
+
+    fetchPermissions();
+  }, [user, provider]);
+
+  // Fetch pull requests once the first load is done
+  useEffect(() => {
+    if (loading) return;
+    syncPullRequests(false);
+  }, [loading, syncPullRequests]);
 
   //Fetch collaborators when component mounts
   useEffect(() => {
@@ -1595,26 +1497,8 @@ export default function DraggableCanvas({
       if (loading) return;
       
       try {
-        // Prepare headers for GitHub API
-        const headers: HeadersInit = {
-          'Accept': 'application/vnd.github+json',
-          'X-GitHub-Api-Version': '2022-11-28'
-        };
-        
-        if (githubToken) {
-          headers['Authorization'] = `Bearer ${githubToken}`;
-        }
-        
         // Fetch collaborators
-        const collaboratorsUrl = `https://api.github.com/repos/${owner}/${repo}/collaborators?per_page=10`;
-        const response = await fetch(collaboratorsUrl, { headers });
-        
-        if (!response.ok) {
-          console.error('Failed to fetch collaborators:', response.status);
-          return;
-        }
-        
-        const collaboratorsData: Collaborator[] = await response.json();
+        const collaboratorsData = await provider.listMembers();
         setCollaborators(collaboratorsData);
       } catch (error) {
         console.error('Error fetching collaborators:', error);
@@ -1622,49 +1506,144 @@ export default function DraggableCanvas({
     };
     
     fetchCollaborators();
-  }, [loading, owner, repo, githubToken]);
+  }, [loading, provider]);
+
+  // Fetch open issues (excluding pull requests). Background syncs skip the spinner.
+  const fetchIssues = useCallback(async (silent: boolean) => {
+    try {
+      if (!silent) setLoadingIssues(true);
+      
+      // Providers leave pull requests out of the issue list
+      setIssues(await provider.listIssues());
+    } catch (error) {
+      console.error('Error fetching issues:', error);
+    } finally {
+      if (!silent) setLoadingIssues(false);
+    }
+  }, [provider]);
 
   // Fetch issues when component mounts
   useEffect(() => {
-    const fetchIssues = async () => {
-      if (loading) return;
-      
-      try {
-        setLoadingIssues(true);
-        
-        // Prepare headers for GitHub API
-        const headers: HeadersInit = {
-          'Accept': 'application/vnd.github+json',
-          'X-GitHub-Api-Version': '2022-11-28'
-        };
-        
-        if (githubToken) {
-          headers['Authorization'] = `Bearer ${githubToken}`;
-        }
-        
-        // Fetch open issues (excluding pull requests)
-        const issuesUrl = `https://api.github.com/repos/${owner}/${repo}/issues?state=open&per_page=50`;
-        const response = await fetch(issuesUrl, { headers });
-        
-        if (!response.ok) {
-          console.error('Failed to fetch issues:', response.status);
-          return;
+    if (loading) return;
+    fetchIssues(false);
+  }, [loading, fetchIssues]);
+
+  // Background syncs run one at a time. Asking for one while another is running
+  // queues a single re-sync after it, so events that arrive mid-sync aren't lost.
+  const runBackgroundSync = useCallback(async (sync: () => Promise<void>) => {
+    if (syncInProgressRef.current) {
+      syncAgainRef.current = true;
+      return;
+    }
+    syncInProgressRef.current = true;
+    try {
+      await sync();
+      while (syncAgainRef.current) {
+        syncAgainRef.current = false;
+        await loadBranches('background');
+      }
+    } finally {
+      syncInProgressRef.current = false;
+    }
+  }, [loadBranches]);
+
+  // Re-sync branches shortly after a webhook event whose effect on the tree we can't apply locally
+  const scheduleSync = useCallback(() => {
+    clearTimeout(scheduledSyncRef.current);
+    scheduledSyncRef.current = setTimeout(
+      () => runBackgroundSync(() => loadBranches('background')),
+      EVENT_SYNC_DELAY_MS
+    );
+  }, [loadBranches, runBackgroundSync]);
+
+  useEffect(() => () => clearTimeout(scheduledSyncRef.current), []);
+
+  // Apply webhook events pushed from the server as soon as they arrive
+  const handleRepoEvent = useCallback((event: RepoEvent) => {
+    switch (event.type) {
+      case 'push': {
+        // Move the head right away; ancestry and ahead-by catch up with the next sync
+        setBranches(prevBranches =>
+          prevBranches.map(b =>
+            b.name === event.branch && b.commit.sha !== event.sha
+              ? { ...b, commit: { ...b.commit, sha: event.sha }, commits: undefined }
+              : b
+          )
+        );
+        scheduleSync();
+        break;
+      }
+      case 'branch-created':
+        // A new branch has no parent yet, so let the sync place it in the tree
+        scheduleSync();
+        break;
+      case 'branch-deleted': {
+        const removed = branchesRef.current.filter(b => b.name === event.branch);
+        if (removed.length === 0) break;
+
+        const nextBranches = branchesRef.current.filter(b => b.name !== event.branch);
+        const nextConnections = connectionsRef.current.filter(c => c.from !== event.branch && c.to !== event.branch);
+        animateChanges({ added: [], removed, changed: [] }, diffConnections(connectionsRef.current, nextConnections));
+        branchesRef.current = nextBranches;
+        connectionsRef.current = nextConnections;
+        setBranches(nextBranches);
+        setConnections(nextConnections);
+        setCardPhysics(prev => {
+          const next = { ...prev };
+          delete next[event.branch];
+          return next;
+        });
+        break;
+      }
+      case 'pull-request': {
+        const { pullRequest } = event;
+        const isOpen = event.action !== 'closed' && pullRequest.state === 'open';
+        const nextPullRequests = [
+          ...pullRequestsRef.current.filter(pr => pr.id !== pullRequest.id),
+          ...(isOpen ? [pullRequest] : [])
+        ];
+        const aheadBy: Record<number, number> = pullRequest.commitCount !== undefined ? { [pullRequest.id]: pullRequest.commitCount } : {};
+        const nextConnections = applyPullRequests(connectionsRef.current, branchesRef.current, nextPullRequests, aheadBy);
+        animateChanges(null, diffConnections(connectionsRef.current, nextConnections));
+        pullRequestsRef.current = nextPullRequests;
+        connectionsRef.current = nextConnections;
+        setPullRequests(nextPullRequests);
+        setConnections(nextConnections);
+        if (pullRequest.merged) {
+          setMergedPullRequests(prev => [pullRequest, ...prev.filter(pr => pr.id !== pullRequest.id)]);
         }
-        
-        const issuesData: Issue[] = await response.json();
-        
-        // Filter out pull requests (issues with pull_request property)
-        const actualIssues = issuesData.filter(issue => !issue.pull_request);
-        setIssues(actualIssues);
-      } catch (error) {
-        console.error('Error fetching issues:', error);
-      } finally {
-        setLoadingIssues(false);
+        break;
       }
-    };
-    
-    fetchIssues();
-  }, [loading, owner, repo, githubToken]);
+      case 'issue': {
+        const { issue } = event;
+        const isOpen = event.action !== 'deleted' && issue.state === 'open';
+        setIssues(prevIssues => [
+          ...(isOpen ? [issue] : []),
+          ...prevIssues.filter(i => i.id !== issue.id)
+        ]);
+        break;
+      }
+    }
+  }, [animateChanges, scheduleSync]);
+
+  const eventsConnected = useRepoEvents(owner, repo, handleRepoEvent, provider.supportsLiveEvents);
+
+  // Background sync: periodically re-fetch branches, PRs and issues and animate
+  // the differences in place. Skipped while the tab is hidden or a sync is running.
+  // With webhook events streaming in, this only backs them up.
+  useEffect(() => {
+    if (loading || error) return;
+
+    const interval = setInterval(() => {
+      if (document.hidden || syncInProgressRef.current) return;
+      runBackgroundSync(async () => {
+        await loadBranches('background');
+        await fetchIssues(true);
+      });
+    }, eventsConnected ? SYNC_INTERVAL_LIVE_MS : SYNC_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [loading, error, eventsConnected, loadBranches, fetchIssues, runBackgroundSync]);
 
   // Function to fetch commits for a specific branch
   const fetchCommitsForBranch = async (branchName: string) => {
@@ -1672,16 +1651,6 @@ export default function DraggableCanvas({
       // Add to loading state
       setLoadingCommits(prev => new Set(prev).add(branchName));
 
-      // Prepare headers for GitHub API
-      const headers: HeadersInit = {
-        'Accept': 'application/vnd.github+json',
-        'X-GitHub-Api-Version': '2022-11-28'
-      };
-      
-      if (githubToken) {
-        headers['Authorization'] = `Bearer ${githubToken}`;
-      }
-
       // Find the branch and its parent hierarchy
       const branch = branches.find(b => b.name === branchName);
       if (!branch) {
@@ -1697,21 +1666,15 @@ export default function DraggableCanvas({
         if (!currentBranch.name) break;
       }
 
-      // Fetch commits for the branch (increase limit to get more commits for filtering)
-      const commitsUrl = `https://api.github.com/repos/${owner}/${repo}/commits?sha=${branchName}&per_page=50`;
-      const response = await fetch(commitsUrl, { headers });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch commits: ${response.status}`);
-      }
-
-      const branchCommits = await response.json();
+      // Fetch commits for the branch (increase limit to get more commits for filtering).
+      // Listing by head SHA lets the persistent store serve repeat visits.
+      const branchCommits = await provider.listCommits(branch.commit.sha || branchName, 50);
       
       // If this is the default branch (no parents), show all commits
       if (parentBranches.length === 0) {
         // Sort commits by date (newest first)
-        const sortedCommits = branchCommits.sort((a: any, b: any) => 
-          new Date(b.commit.author.date).getTime() - new Date(a.commit.author.date).getTime()
+        const sortedCommits = branchCommits.sort((a, b) => 
+          new Date(b.author.date).getTime() - new Date(a.author.date).getTime()
         );
         
         // Update the branch with commits and preserve hasUniqueCommits flag
@@ -1726,33 +1689,19 @@ export default function DraggableCanvas({
       }
 
       // Fetch commits from all parent branches to exclude them
-      const parentCommitShas = new Set<string>();
+      const parentCommits: Commit[][] = [];
       
       for (const parentName of parentBranches) {
         try {
-          const parentCommitsUrl = `https://api.github.com/repos/${owner}/${repo}/commits?sha=${parentName}&per_page=100`;
-          const parentResponse = await fetch(parentCommitsUrl, { headers });
-          
-          if (parentResponse.ok) {
-            const parentCommits = await parentResponse.json();
-            parentCommits.forEach((commit: any) => {
-              parentCommitShas.add(commit.sha);
-            });
-          }
+          const parentSha = branches.find(b => b.name === parentName)?.commit.sha;
+          parentCommits.push(await provider.listCommits(parentSha || parentName, 100));
         } catch (error) {
           console.warn(`Error fetching commits for parent branch ${parentName}:`, error);
         }
       }
 
-      // Filter out commits that exist in parent branches
-      const uniqueCommits = branchCommits.filter((commit: any) => 
-        !parentCommitShas.has(commit.sha)
-      );
-
-      // Sort unique commits by date (newest first)
-      const sortedUniqueCommits = uniqueCommits.sort((a: any, b: any) => 
-        new Date(b.commit.author.date).getTime() - new Date(a.commit.author.date).getTime()
-      );
+      // Filter out commits that exist in parent branches, newest first (on the tree worker)
+      const uniqueCommits = await getTreeWorker().uniqueCommits(branchCommits, parentCommits);
       
       // Update the branch with unique commits and preserve hasUniqueCommits flag if already set
       setBranches(prevBranches => 
@@ -1760,7 +1709,7 @@ export default function DraggableCanvas({
           b.name === branchName 
             ? { 
                 ...b, 
-                commits: sortedUniqueCommits.slice(0, 10),
+                commits: uniqueCommits.slice(0, 10),
                 // Only update hasUniqueCommits if it wasn't already determined
                 aheadBy: b.aheadBy !== undefined ? b.aheadBy : (uniqueCommits.length > 0 ? uniqueCommits.length : 0)
               } 
@@ -1789,55 +1738,148 @@ export default function DraggableCanvas({
     }
   };
 
-  const handleStartDrag = (id: string, position: Position) => {
+  // A branch can hang off anything but itself and its own descendants, and the default branch stays the root
+  const canReparent = (child: string, parent: string): boolean => {
+    // Roots, the default branch included, never get a parent
+    if (child === parent || pinnedRoots(repoConfig, [child], defaultBranch).has(child)) return false;
+    const parentOf = new Map(branchesRef.current.map(branch => [branch.name, branch.parent]));
+    const seen = new Set<string>();
+    for (let current: string | undefined = parent; current && !seen.has(current); current = parentOf.get(current)) {
+      if (current === child) return false;
+      seen.add(current);
+    }
+    return true;
+  };
+
+  // Store (or clear, with null) a hand-set parent and re-run the tree with it
+  const reparentBranch = (child: string, parent: string | null) => {
+    setParentOverrides(setParentOverride(provider.repoKey, child, parent));
+    loadBranches('refresh');
+  };
+
+  // Move every card to its place in the layout; pins only hold in the force-directed layout, so they go too
+  const resetToTreeLayout = async (mode: LayoutMode) => {
+    const { positions: treePositions } = await getTreeWorker().calculateLayout(branches, mode);
+    stopMotion();
+    setCardPhysics(prev => {
+      const newPhysics = { ...prev };
+      Object.keys(newPhysics).forEach(branchName => {
+        const position = treePositions[branchName];
+        if (position) {
+          newPhysics[branchName] = {
+            ...newPhysics[branchName],
+            position,
+            velocity: { x: 0, y: 0 },
+            pinned: false
+          };
+        }
+      });
+      return newPhysics;
+    });
+  };
+
+  // Leaving Free Layout for a computed one; the next load starts from the tree again
+  const clearActiveLayout = () => {
+    setActiveLayout(provider.repoKey, null);
+    setActiveLayoutName(null);
+  };
+
+  const saveCurrentLayout = (name: string) => {
+    const layout: SavedLayout = {
+      name,
+      savedAt: new Date().toISOString(),
+      positions: motion.overlay(
+        Object.fromEntries(Object.entries(cardPhysics).map(([branch, physics]) => [branch, physics.position]))
+      ),
+      scale,
+      offset
+    };
+    setSavedLayouts(saveLayouts(provider.repoKey, [layout]));
+    setActiveLayout(provider.repoKey, name);
+    setActiveLayoutName(name);
+  };
+
+  // Saved layouts are arrangements made by hand, so they show in Free Layout
+  const applySavedLayout = (layout: SavedLayout) => {
+    const current = Object.fromEntries(Object.entries(cardPhysics).map(([branch, physics]) => [branch, physics.position]));
+    const positions = placeSavedLayout(layout, branches, motion.overlay(current));
+    setShowTreeView(false);
+    setScale(layout.scale);
+    setOffset(layout.offset);
+    stopMotion();
+    setCardPhysics(prev => Object.fromEntries(
+      Object.entries(prev).map(([branch, physics]) => [
+        branch,
+        { ...physics, position: positions[branch] || physics.position, velocity: { x: 0, y: 0 }, pinned: false }
+      ])
+    ));
+    setActiveLayout(provider.repoKey, layout.name);
+    setActiveLayoutName(layout.name);
+  };
+
+  const deleteSavedLayout = (name: string) => {
+    setSavedLayouts(deleteLayout(provider.repoKey, name));
+    if (name === activeLayoutName) setActiveLayoutName(null);
+  };
+
+  const unpinAll = () => {
+    setCardPhysics(prev => Object.fromEntries(
+      Object.entries(prev).map(([name, physics]) => [name, { ...physics, pinned: false }])
+    ));
+    forceAlphaRef.current = 1;
+  };
+
+  const handleStartDrag = (id: string, position: Position, reparent: boolean) => {
+    reparentDragRef.current = reparent;
+    if (reparent) {
+      setInspectedBranch(id);
+    }
     setDraggingBranch(id); // Set the dragging branch
+    draggingRef.current = id;
+    movingRef.current[id] = { position: { ...position }, velocity: { x: 0, y: 0 } };
     setCardPhysics(prev => ({
       ...prev,
       [id]: {
         ...prev[id],
         isDragging: true,
-        lastDragPosition: position,
         velocity: { x: 0, y: 0 },
-        originalPosition: prev[id]?.position // Store the original position
+        originalPosition: position, // Store the original position
+        returnTo: undefined
       }
     }));
   };
 
+  // The dragged card moves like any other moving card, outside React state
   const handleDrag = (id: string, position: Position) => {
-    setCardPhysics(prev => {
-      const card = prev[id];
-      const velocity = card.lastDragPosition ? {
-        x: position.x - card.lastDragPosition.x,
-        y: position.y - card.lastDragPosition.y
-      } : { x: 0, y: 0 };
-
-      // Check if we're dragging over another branch
-      let newDragTarget: string | null = null;
-      const dragThreshold = (COLLISION_RADIUS * 1.5) / scale; // Slightly larger threshold for drag detection
-      
-      Object.entries(prev).forEach(([branchId, physics]) => {
-        if (branchId !== id) { // Don't check against self
-          const distance = getDistance(position, physics.position);
-          if (distance < dragThreshold) {
-            newDragTarget = branchId;
-          }
-        }
-      });
-
-      // Always update drag target (including when it's null)
-      setDragTargetBranch(newDragTarget);
-      dragTargetRef.current = newDragTarget; // Update ref for immediate access
+    const last = movingRef.current[id]?.position || cardPhysicsRef.current[id]?.position;
+    movingRef.current[id] = {
+      position,
+      velocity: last ? { x: position.x - last.x, y: position.y - last.y } : { x: 0, y: 0 }
+    };
 
-      return {
-        ...prev,
-        [id]: {
-          ...card,
-          position,
-          velocity,
-          lastDragPosition: position
+    // Check if we're dragging over another branch (only users who can push may open PRs;
+    // re-parenting is local, so anyone may, onto any branch that isn't a descendant)
+    let newDragTarget: string | null = null;
+    const dragThreshold = (COLLISION_RADIUS * 1.5) / scale; // Slightly larger threshold for drag detection
+    const isTarget = (branchId: string) =>
+      reparentDragRef.current ? canReparent(id, branchId) : canPush && branchId !== id;
+
+    Object.entries(cardPhysicsRef.current).forEach(([branchId, physics]) => {
+      if (isTarget(branchId)) {
+        const distance = getDistance(position, motion.get(branchId) || physics.position);
+        if (distance < dragThreshold) {
+          newDragTarget = branchId;
         }
-      };
+      }
     });
+
+    // Only re-render when the target changes
+    if (newDragTarget !== dragTargetRef.current) setDragTargetBranch(newDragTarget);
+    dragTargetRef.current = newDragTarget; // Update ref for immediate access
+
+    // Neighbours make room for the dragged card in the force-directed layout
+    forceAlphaRef.current = Math.max(forceAlphaRef.current, 0.3);
+    startPhysics();
   };
 
   const handleEndDrag = (id: string) => {
@@ -1845,15 +1887,18 @@ export default function DraggableCanvas({
     const targetBranch = dragTargetRef.current;
     let bounceBack = false;
 
-    if (targetBranch) {
+    if (targetBranch && reparentDragRef.current) {
+      reparentBranch(id, targetBranch);
+      bounceBack = true;
+    } else if (targetBranch) {
       console.log(`Dropped branch "${id}" onto branch "${targetBranch}"`);
       // Get the position of the target branch for the PR container
-      const targetPhysics = cardPhysics[targetBranch];
-      if (targetPhysics) {
+      const targetPosition = motion.get(targetBranch) || cardPhysics[targetBranch]?.position;
+      if (targetPosition) {
         // Convert world position to screen position
         const screenPosition = {
-          x: targetPhysics.position.x * scale + offset.x,
-          y: targetPhysics.position.y * scale + offset.y
+          x: targetPosition.x * scale + offset.x,
+          y: targetPosition.y * scale + offset.y
         };
         setPRContainerPosition(screenPosition);
         setPRDetails({
@@ -1869,14 +1914,18 @@ export default function DraggableCanvas({
     }
 
     setDraggingBranch(null); // Clear dragging branch
+    draggingRef.current = null;
     setDragTargetBranch(null); // Clear drag target
     dragTargetRef.current = null; // Clear ref
+    reparentDragRef.current = false;
+    forceAlphaRef.current = Math.max(forceAlphaRef.current, 0.3);
     setCardPhysics(prev => {
       const card = prev[id];
       let newCard = {
         ...card,
         isDragging: false,
-        lastDragPosition: undefined
+        // A card dropped in the force-directed layout stays where it was put
+        pinned: card.pinned || (forceActiveRef.current && !bounceBack)
       };
       if (bounceBack && card.originalPosition) {
         newCard = {
@@ -1915,32 +1964,11 @@ export default function DraggableCanvas({
     try {
       console.log(`Checking if ${sourceBranch} is ahead of ${targetBranch}...`);
       
-      const headers: HeadersInit = {
-        'Accept': 'application/vnd.github+json',
-        'X-GitHub-Api-Version': '2022-11-28'
-      };
-      
-      if (githubToken) {
-        headers['Authorization'] = `Bearer ${githubToken}`;
-      }
-      
-      const compareUrl = `https://api.github.com/repos/${owner}/${repo}/compare/${targetBranch}...${sourceBranch}`;
-      console.log('Compare URL:', compareUrl);
-      
-      const response = await fetch(compareUrl, { headers });
-      
-      if (!response.ok) {
-        console.warn(`Failed to compare branches: ${response.status} - ${response.statusText}`);
-        const errorText = await response.text();
-        console.warn('Error response:', errorText);
-        return false;
-      }
-      
-      const compareData = await response.json();
+      const compareData = await provider.compare(targetBranch, sourceBranch);
       console.log('Compare data:', compareData);
       
-      const isAhead = compareData.ahead_by > 0;
-      console.log(`${sourceBranch} is ${isAhead ? 'ahead' : 'not ahead'} of ${targetBranch} (ahead_by: ${compareData.ahead_by}, behind_by: ${compareData.behind_by})`);
+      const isAhead = compareData.aheadBy > 0;
+      console.log(`${sourceBranch} is ${isAhead ? 'ahead' : 'not ahead'} of ${targetBranch} (ahead by: ${compareData.aheadBy}, behind by: ${compareData.behindBy})`);
       
       return isAhead;
     } catch (error) {
@@ -1998,16 +2026,6 @@ export default function DraggableCanvas({
       
       setIsValidatingBranches(false);
       
-      const headers: HeadersInit = {
-        'Accept': 'application/vnd.github+json',
-        'X-GitHub-Api-Version': '2022-11-28',
-        'Content-Type': 'application/json'
-      };
-      
-      if (githubToken) {
-        headers['Authorization'] = `Bearer ${githubToken}`;
-      }
-      
       const requestBody = {
         title: prDetails.title.trim(),
         body: prDetails.body.trim() || undefined, // Only send body if not empty
@@ -2018,20 +2036,16 @@ export default function DraggableCanvas({
       
       console.log('Creating pull request with data:', requestBody);
       
-      const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/pulls`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(requestBody)
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error('GitHub API error response:', errorData);
+      let prData: PullRequest;
+      try {
+        prData = await provider.createPull(requestBody);
+      } catch (apiError) {
+        console.error('API error response:', apiError);
         
         // Provide more specific error messages based on common validation failures
-        if (errorData.message === 'Validation Failed') {
-          if (errorData.errors && Array.isArray(errorData.errors)) {
-            const errorMessages = errorData.errors.map((err: any) => {
+        if (apiError instanceof ApiError && apiError.message === 'Validation Failed') {
+          if (apiError.errors && Array.isArray(apiError.errors)) {
+            const errorMessages = apiError.errors.map(err => {
               if (err.code === 'custom') {
                 return err.message;
               } else if (err.field === 'head') {
@@ -2048,12 +2062,10 @@ export default function DraggableCanvas({
           } else {
             throw new Error('Validation failed: Please check that the source branch has commits ahead of the target branch');
           }
-        } else {
-          throw new Error(errorData.message || `Failed to create PR: ${response.status}`);
         }
+        throw apiError;
       }
       
-      const prData = await response.json();
       console.log('Pull request created:', prData);
       
       // Close modal and refresh PR list
@@ -2066,10 +2078,8 @@ export default function DraggableCanvas({
       });
       
       // Refresh pull requests
-      const pullsUrl = `https://api.github.com/repos/${owner}/${repo}/pulls?state=open&per_page=100`;
-      const pullsResponse = await fetch(pullsUrl, { headers });
-      if (pullsResponse.ok) {
-        const pullRequestsData: PullRequest[] = await pullsResponse.json();
+      try {
+        const pullRequestsData = await provider.listPulls();
         setPullRequests(pullRequestsData);
         
         // Update connections with the new PR
@@ -2096,16 +2106,11 @@ export default function DraggableCanvas({
               commitCount = sourceBranch.commits.length;
             } else {
               // Fetch commit count from the PR API
-              const prCommitsUrl = `https://api.github.com/repos/${owner}/${repo}/pulls/${prData.number}/commits`;
-              const commitsResponse = await fetch(prCommitsUrl, { headers });
-              
-              if (commitsResponse.ok) {
-                const commitsData = await commitsResponse.json();
-                commitCount = Math.min(commitsData.length, 5); // Cap at 5 for performance
-              }
+              const commitsData = await provider.listPullCommits(prData.number);
+              commitCount = Math.min(commitsData.length, 5); // Cap at 5 for performance
             }
           } catch (error) {
-            console.warn(`Could not get commit count for new PR #${prData.number}`);
+            console.warn(`Could not get commit count for new PR #${prData.number}:`, error);
           }
           
           // Add new connection for the PR
@@ -2116,6 +2121,8 @@ export default function DraggableCanvas({
             commitCount
           }]);
         }
+      } catch (error) {
+        console.warn('Failed to refresh pull requests:', error);
       }
       
     } catch (error) {
@@ -2133,16 +2140,6 @@ export default function DraggableCanvas({
     setBranchCreationError(null);
     
     try {
-      const headers: HeadersInit = {
-        'Accept': 'application/vnd.github+json',
-        'X-GitHub-Api-Version': '2022-11-28',
-        'Content-Type': 'application/json'
-      };
-      
-      if (githubToken) {
-        headers['Authorization'] = `Bearer ${githubToken}`;
-      }
-      
       // Get the SHA of the source branch
       const sourceBranch = branches.find(b => b.name === newBranchDetails.sourceBranch);
       if (!sourceBranch) {
@@ -2150,21 +2147,7 @@ export default function DraggableCanvas({
       }
       
       // Create the reference (branch)
-      const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/git/refs`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          ref: `refs/heads/${newBranchDetails.branchName}`,
-          sha: sourceBranch.commit.sha
-        })
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || `Failed to create branch: ${response.status}`);
-      }
-      
-      const branchData = await response.json();
+      const branchData = await provider.createBranch(newBranchDetails.branchName, sourceBranch.commit.sha);
       console.log('Branch created:', branchData);
       
       // Create the new branch object
@@ -2247,12 +2230,6 @@ export default function DraggableCanvas({
         branchName: ''
       });
       
-      // Clear cache to ensure fresh data on next load
-      const cacheKey = `gitvis-branches-${owner}-${repo}`;
-      const cacheTimeKey = `${cacheKey}-time`;
-      localStorage.removeItem(cacheKey);
-      localStorage.removeItem(cacheTimeKey);
-      
     } catch (error) {
       console.error('Error creating branch:', error);
       setBranchCreationError(error instanceof Error ? error.message : 'Failed to create branch');
@@ -2342,27 +2319,124 @@ export default function DraggableCanvas({
     document.addEventListener('mouseup', handleMouseUp);
   }, [offset, scale]);
 
-  // Set the handler on window so DraggableNode can access it
+  // Set the handler on window so DraggableNode can access it (only users who can push may create branches)
   useEffect(() => {
+    if (!canPush) return;
     (window as any).onBranchCreationStart = handleBranchCreationStart;
     return () => {
       delete (window as any).onBranchCreationStart;
     };
-  }, [handleBranchCreationStart]);
+  }, [handleBranchCreationStart, canPush]);
+
+  const pinnedCount = Object.values(cardPhysics).filter(physics => physics.pinned).length;
+  const inspectedBranchData = inspectedBranch ? branches.find(branch => branch.name === inspectedBranch) : undefined;
+
+  // Branches shown on the canvas, and the connections between them
+  const branchesByName = new Map(branches.map(branch => [branch.name, branch]));
+  const isVisible = (name: string) => showMergedBranches || branchesByName.get(name)?.aheadBy !== 0;
+  const visibleBranches = branches.filter(branch => isVisible(branch.name));
+  const visibleConnections = connections.filter(connection => isVisible(connection.from) && isVisible(connection.to));
+  const connectionCommitCount = (connection: BranchConnection) =>
+    connection.pullRequest
+      ? Math.max(0, Math.min(5, connection.commitCount || 0))
+      : Math.max(0, Math.min(5, branchesByName.get(connection.from)?.aheadBy ?? 0));
+  const ruleRgb = (branch: Branch) => {
+    const color = findBranchRule(repoConfig, branch.name)?.color;
+    return color ? hexToRgb(color) : undefined;
+  };
+
+  // Cards move without re-rendering the canvas, so what's drawn is decided from
+  // where they last came to rest. The force-directed layout moves them all at
+  // once, so it skips clustering and culling.
+  const forceLayoutShown = showTreeView && layoutMode === 'force';
+
+  // Zoomed out, subtrees too small on screen to tell apart collapse into clusters.
+  // Not on the timeline, where every branch keeps its lane.
+  const clusters = timeline || forceLayoutShown ? [] : clusterSubtrees(
+    visibleBranches,
+    Object.fromEntries(Object.entries(cardPhysics).map(([name, physics]) => [name, physics.position])),
+    scale,
+    new Set([
+      ...Object.keys(cardPhysics).filter(name => cardPhysics[name].isDragging),
+      ...expandedCards,
+      ...(dragTargetBranch ? [dragTargetBranch] : [])
+    ])
+  );
+  const clusterOf = new Map<string, Cluster>();
+  clusters.forEach(cluster => cluster.members.forEach(member => clusterOf.set(member, cluster)));
+
+  // Only what's on screen is drawn; dragged, returning and expanded branches always are
+  const viewRect = viewportSize.width > 0 && !forceLayoutShown ? visibleWorldRect(viewportSize, scale, offset) : null;
+  const drawnBranches = visibleBranches.filter(branch => {
+    const physics = cardPhysics[branch.name];
+    if (!physics || clusterOf.has(branch.name)) return false;
+    return !viewRect ||
+      containsPoint(viewRect, physics.position) ||
+      physics.isDragging ||
+      Boolean(physics.returnTo) ||
+      expandedCards.has(branch.name);
+  });
+  const drawnClusters = clusters.filter(cluster => !viewRect || containsPoint(viewRect, cluster.center));
+  const drawnConnections = visibleConnections.flatMap(connection => {
+    const fromCluster = clusterOf.get(connection.from);
+    const toCluster = clusterOf.get(connection.to);
+    if (fromCluster && fromCluster === toCluster) return [];
+    const from = fromCluster?.center ?? cardPhysics[connection.from]?.position;
+    const to = toCluster?.center ?? cardPhysics[connection.to]?.position;
+    if (!from || !to || (viewRect && !overlapsSegment(viewRect, from, to))) return [];
+    // Cluster centers stay put; cards' ends follow them while they move
+    return [{ connection, from, to, fromId: fromCluster ? undefined : connection.from, toId: toCluster ? undefined : connection.to }];
+  });
+  const clusterRgb = (cluster: Cluster) => {
+    const root = branchesByName.get(cluster.root);
+    return (root && ruleRgb(root)) || depthRgb(root?.depth);
+  };
+
+  const useCanvasRenderer = visibleBranches.length > CANVAS_RENDERER_THRESHOLD;
+  const graphNodes: GraphNode[] = useCanvasRenderer
+    ? drawnBranches.map(branch => {
+      const physics = cardPhysics[branch.name];
+      return {
+        branch,
+        position: physics.position,
+        isDragging: physics.isDragging,
+        isPinned: Boolean(forceLayoutShown && physics.pinned),
+        ruleRgb: dragTargetBranch !== branch.name && branch.aheadBy !== 0 ? ruleRgb(branch) : undefined,
+      };
+    })
+    : [];
+  const graphEdges: GraphEdge[] = useCanvasRenderer && showTreeView && !timeline
+    ? drawnConnections.map(({ connection, from, to, fromId, toId }) => ({
+      key: connectionKey(connection),
+      from,
+      to,
+      fromId,
+      toId,
+      pullRequest: connection.pullRequest,
+      commitCount: connectionCommitCount(connection),
+    }))
+    : [];
 
   if (loading) {
     return (
       <div className="relative w-full h-screen bg-[#000d1a] flex items-center justify-center">
         <div className="flex flex-col items-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-400 mb-4"></div>
-          {loadingProgress.total > 0 && (
+          {loadingProgress && (
             <div className="text-center">
-              <p className="text-gray-400 mb-2">Loading branches...</p>
-              <p className="text-gray-500 text-sm">
-                {loadingProgress.current} / {loadingProgress.total} pages
-              </p>
+              <p className="text-gray-400 mb-2">{LOAD_STAGES[loadingProgress.stage].label}</p>
+              {loadingProgress.total > 0 && LOAD_STAGES[loadingProgress.stage].unit && (
+                <p className="text-gray-500 text-sm">
+                  {loadingProgress.stage === 'inference'
+                    ? `${loadingProgress.total} ${LOAD_STAGES.inference.unit}`
+                    : `${loadingProgress.current} / ${loadingProgress.total} ${LOAD_STAGES[loadingProgress.stage].unit}`}
+                </p>
+              )}
             </div>
           )}
+          <div className="mt-4">
+            <RateLimitIndicator scheduler={provider.scheduler} />
+          </div>
         </div>
       </div>
     );
@@ -2374,11 +2448,11 @@ export default function DraggableCanvas({
         <div className="bg-red-900/20 border border-red-700/50 rounded-lg p-6 max-w-md">
           <h3 className="text-lg font-medium text-red-300 mb-2">Error loading branches</h3>
           <p className="text-red-400 mb-4">{error}</p>
-          {error.includes('Rate limit') && (
+          {isRateLimited && provider.kind === 'github' && !host && (
             <div className="bg-blue-900/20 border border-blue-700/50 rounded-lg p-4">
               <h4 className="text-blue-300 font-medium mb-2">Need a GitHub Token?</h4>
               <p className="text-blue-400 text-sm mb-3">
-                To avoid rate limiting and get detailed branch relationships, you can provide a GitHub personal access token.
+                To avoid rate limiting and get detailed branch relationships, set a GitHub personal access token as <code className="font-mono">GITHUB_TOKEN</code> in the server environment.
               </p>
               <p className="text-gray-400 text-xs">
                 Create one at: <a href="https://github.com/settings/tokens" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">github.com/settings/tokens</a>
@@ -2413,6 +2487,12 @@ export default function DraggableCanvas({
       
       {/* Header */}
       <div className="absolute top-4 left-4 z-10 pointer-events-none">
+        <Link
+          href="/"
+          className="text-gray-500 hover:text-gray-300 text-xs transition-colors pointer-events-auto"
+        >
+          ← All repositories
+        </Link>
         <h1 className="text-2xl font-bold text-white">
           {owner}/{repo} Branches
         </h1>
@@ -2423,38 +2503,68 @@ export default function DraggableCanvas({
               {' '}• {pullRequests.length} open PR{pullRequests.length !== 1 ? 's' : ''}
             </span>
           )}
+          {eventsConnected && (
+            <span className="text-green-400" title="Receiving webhook events">
+              {' '}• Live
+            </span>
+          )}
           {' '}• Hold Space to navigate • Scroll to zoom
         </p>
       </div>
 
+      {/* Problems in the repository's branch model config; the valid parts still apply */}
+      {configIssues.errors.length > 0 && !configIssues.dismissed && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 max-w-lg bg-yellow-900/80 backdrop-blur-sm border border-yellow-700/50 rounded-lg px-4 py-3">
+          <div className="flex items-start justify-between gap-4">
+            <p className="text-yellow-200 text-sm font-medium">{CONFIG_PATH} has problems</p>
+            <button
+              onClick={() => setConfigIssues(prev => ({ ...prev, dismissed: true }))}
+              className="text-yellow-300 hover:text-white transition-colors"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <ul className="mt-1 text-yellow-100/90 text-xs list-disc list-inside space-y-0.5">
+            {configIssues.errors.map(message => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Zoom indicator */}
       <div className="absolute top-4 right-16 z-10 bg-gray-800/80 backdrop-blur-sm rounded-lg px-3 py-2 pointer-events-none">
         <p className="text-gray-300 text-sm font-mono">{Math.round(scale * 100)}%</p>
       </div>
 
-      {/* Collaborators and GitHub button */}
+      {/* Collaborators and repository button */}
       <div className="absolute top-4 right-32 z-10 flex items-center gap-3 pointer-events-auto">
+        <RateLimitIndicator scheduler={provider.scheduler} />
+        {provider.supportsSignIn && <AuthStatus />}
+
         {/* Collaborators */}
         {collaborators.length > 0 && (
           <div className="flex items-center -space-x-2">
             {collaborators.slice(0, 5).map((collaborator) => (
               <a
                 key={collaborator.id}
-                href={collaborator.html_url}
+                href={collaborator.url}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="relative group"
                 title={collaborator.login}
               >
                 <img
-                  src={collaborator.avatar_url}
+                  src={collaborator.avatarUrl}
                   alt={collaborator.login}
                   className="w-8 h-8 rounded-full border-2 border-gray-800 hover:border-blue-500 transition-colors hover:z-10"
                 />
                 {/* Tooltip */}
                 <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 bg-gray-900 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none">
                   {collaborator.login}
-                  {collaborator.permissions?.admin && (
+                  {collaborator.isAdmin && (
                     <span className="text-yellow-400 ml-1">Admin</span>
                   )}
                 </div>
@@ -2468,22 +2578,30 @@ export default function DraggableCanvas({
           </div>
         )}
         
-        {/* GitHub button */}
-        <a
-          href={`https://github.com/${owner}/${repo}`}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="bg-gray-800/80 backdrop-blur-sm p-2 rounded-lg hover:bg-gray-700/80 transition-colors"
-          title="View on GitHub"
-        >
-          <svg
-            className="w-5 h-5 text-gray-300"
-            fill="currentColor"
-            viewBox="0 0 24 24"
+        {/* Repository button, for hosts with a web UI */}
+        {provider.webUrl && (
+          <a
+            href={provider.webUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="bg-gray-800/80 backdrop-blur-sm p-2 rounded-lg hover:bg-gray-700/80 transition-colors"
+            title={host ? `View on ${host.name}` : 'View on GitHub'}
           >
-            <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z"/>
-          </svg>
-        </a>
+            {provider.kind === 'github' ? (
+              <svg
+                className="w-5 h-5 text-gray-300"
+                fill="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path d="M12 0c-6.626 0-12 5.373-12 12 0 5.302 3.438 9.8 8.207 11.387.599.111.793-.261.793-.577v-2.234c-3.338.726-4.033-1.416-4.033-1.416-.546-1.387-1.333-1.756-1.333-1.756-1.089-.745.083-.729.083-.729 1.205.084 1.839 1.237 1.839 1.237 1.07 1.834 2.807 1.304 3.492.997.107-.775.418-1.305.762-1.604-2.665-.305-5.467-1.334-5.467-5.931 0-1.311.469-2.381 1.236-3.221-.124-.303-.535-1.524.117-3.176 0 0 1.008-.322 3.301 1.23.957-.266 1.983-.399 3.003-.404 1.02.005 2.047.138 3.006.404 2.291-1.552 3.297-1.23 3.297-1.23.653 1.653.242 2.874.118 3.176.77.84 1.235 1.911 1.235 3.221 0 4.609-2.807 5.624-5.479 5.921.43.372.823 1.102.823 2.222v3.293c0 .319.192.694.801.576 4.765-1.589 8.199-6.086 8.199-11.386 0-6.627-5.373-12-12-12z"/>
+              </svg>
+            ) : (
+              <svg className="w-5 h-5 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+              </svg>
+            )}
+          </a>
+        )}
       </div>
 
       {/* Space indicator */}
@@ -2493,48 +2611,94 @@ export default function DraggableCanvas({
         </div>
       )}
       
+      {/* Timeline lanes replace the tree's connection lines */}
+      {timeline && (
+        <TimelineLanes
+          timeline={timeline}
+          positions={Object.fromEntries(Object.entries(cardPhysics).map(([name, physics]) => [name, physics.position]))}
+          motion={motion}
+          hidden={new Set(branches.filter(branch => !showMergedBranches && branch.aheadBy === 0).map(branch => branch.name))}
+          pullRequests={pullRequests}
+          scale={scale}
+          offset={offset}
+        />
+      )}
+
+      {/* Large graphs are drawn on one canvas; smaller ones keep a DOM node per branch */}
+      {useCanvasRenderer && (
+        <GraphCanvas
+          nodes={graphNodes}
+          edges={graphEdges}
+          clusters={drawnClusters.map(cluster => ({ cluster, rgb: clusterRgb(cluster) }))}
+          motion={motion}
+          scale={scale}
+          offset={offset}
+          isSpacePressed={isSpacePressed}
+          dragTarget={dragTargetBranch}
+          expanded={expandedCards}
+          loadingCommits={loadingCommits}
+          onStartDrag={handleStartDrag}
+          onDrag={handleDrag}
+          onEndDrag={handleEndDrag}
+          onDoubleClick={handleDoubleClick}
+          onClusterDoubleClick={zoomToCluster}
+          onBranchCreationStart={canPush ? handleBranchCreationStart : undefined}
+        />
+      )}
+
       {/* Connection Lines */}
-      {showTreeView && connections
-        .filter(connection => {
-          // Only show connections where both branches are visible
-          const fromBranch = branches.find(b => b.name === connection.from);
-          const toBranch = branches.find(b => b.name === connection.to);
-          return (showMergedBranches || fromBranch?.aheadBy !== 0) && 
-                 (showMergedBranches || toBranch?.aheadBy !== 0);
-        })
-        .map((connection, index) => {
-        const fromPhysics = cardPhysics[connection.from];
-        const toPhysics = cardPhysics[connection.to];
-        const fromBranch = branches.find(b => b.name === connection.from);
-        
-        if (!fromPhysics || !toPhysics) return null;
-        
-        return (
-          <ConnectionLine
-            key={`${connection.from}-${connection.to}-${index}`}
-            from={fromPhysics.position}
-            to={toPhysics.position}
-            scale={scale}
-            offset={offset}
-            pullRequest={connection.pullRequest}
-            commitCount={
-              connection.pullRequest
-                ? Math.max(0, Math.min(5, connection.commitCount || 0))
-                : Math.max(0, Math.min(5, fromBranch?.aheadBy ?? 0))
-            }
-          />
-        );
-      })}
+      {!useCanvasRenderer && showTreeView && !timeline && drawnConnections.map(({ connection, from, to, fromId, toId }) => (
+        <LiveConnectionLine
+          key={connectionKey(connection)}
+          motion={motion}
+          from={from}
+          to={to}
+          fromId={fromId}
+          toId={toId}
+          scale={scale}
+          offset={offset}
+          pullRequest={connection.pullRequest}
+          commitCount={connectionCommitCount(connection)}
+          className={enteringKeys.has(`connection:${connectionKey(connection)}`) ? 'sync-enter' : undefined}
+        />
+      ))}
+
+      {/* Connections removed by the last sync, fading out */}
+      {!useCanvasRenderer && !timeline && leavingConnections.map(({ connection, from, to }) => (
+        <ConnectionLine
+          key={`leaving-${connectionKey(connection)}`}
+          from={from}
+          to={to}
+          scale={scale}
+          offset={offset}
+          pullRequest={connection.pullRequest}
+          className="sync-leave"
+        />
+      ))}
       
       {/* Draggable Branch Cards */}
-      {branches
-        .filter(branch => showMergedBranches || branch.aheadBy !== 0) // Filter branches based on showMergedBranches state
-        .map((branch) => {
+      {/* Collapsed subtrees */}
+      {!useCanvasRenderer && drawnClusters.map(cluster => (
+        <ClusterBlob
+          key={`cluster-${cluster.root}`}
+          cluster={cluster}
+          rgb={clusterRgb(cluster)}
+          scale={scale}
+          offset={offset}
+          onDoubleClick={zoomToCluster}
+        />
+      ))}
+
+      {!useCanvasRenderer && drawnBranches.map((branch) => {
         const physics = cardPhysics[branch.name];
         if (!physics) return null;
 
         return (
-          <div key={branch.name} data-card="true">
+          <div
+            key={branch.name}
+            data-card="true"
+            className={enteringKeys.has(`branch:${branch.name}`) ? 'sync-enter' : undefined}
+          >
             <DraggableNode
               id={branch.name}
               branch={branch}
@@ -2547,6 +2711,9 @@ export default function DraggableCanvas({
               isExpanded={expandedCards.has(branch.name)}
               isLoadingCommits={loadingCommits.has(branch.name)}
               isDragTarget={dragTargetBranch === branch.name} // Use the drag target state
+              isPinned={forceLayoutShown && physics.pinned}
+              color={findBranchRule(repoConfig, branch.name)?.color}
+              motion={motion}
               onStartDrag={handleStartDrag}
               onDrag={handleDrag}
               onEndDrag={handleEndDrag}
@@ -2556,6 +2723,29 @@ export default function DraggableCanvas({
         );
       })}
 
+      {/* Branches deleted since the last sync, fading out where they were */}
+      {!useCanvasRenderer && leavingBranches.map(({ branch, position }) => (
+        <div key={`leaving-${branch.name}`} className="sync-leave pointer-events-none">
+          <DraggableNode
+            id={branch.name}
+            branch={branch}
+            position={position}
+            velocity={{ x: 0, y: 0 }}
+            isDragging={false}
+            scale={scale}
+            offset={offset}
+            isSpacePressed={isSpacePressed}
+            isExpanded={false}
+            isLoadingCommits={false}
+            isDragTarget={false}
+            color={findBranchRule(repoConfig, branch.name)?.color}
+            onStartDrag={() => {}}
+            onDrag={() => {}}
+            onEndDrag={() => {}}
+          />
+        </div>
+      ))}
+
       {/* Branch Creation Preview */}
       {isCreatingBranch && branchCreationStart && (
         <>
@@ -2627,9 +2817,49 @@ export default function DraggableCanvas({
 
       {/* Instructions */}
       <div className="absolute bottom-4 left-4 text-sm text-gray-500 pointer-events-none">
-        Drag cards to move them • Double-click to view commits • Right-click drag to create branch • Hold Space + drag to navigate • Scroll to zoom
+        Drag cards to move them • Double-click to view commits • {canPush ? 'Drop onto a branch to open a PR • Right-click drag to create branch • ' : ''}Alt-click to see why a branch has its parent • Alt-drag onto a branch to re-parent • Hold Space + drag to navigate • Scroll to zoom
       </div>
 
+      {/* Force-directed layout controls */}
+      {showTreeView && layoutMode === 'force' && (
+        <div className="absolute bottom-16 right-4 z-10 w-64 bg-gray-800/80 backdrop-blur-sm rounded-lg px-4 py-3 pointer-events-auto text-sm text-gray-300 space-y-2">
+          <label className="block">
+            <span className="flex justify-between text-xs text-gray-400">
+              Strength <span className="font-mono">{forceSettings.strength.toFixed(1)}</span>
+            </span>
+            <input
+              type="range"
+              {...STRENGTH_RANGE}
+              value={forceSettings.strength}
+              onChange={e => setForceSettings(prev => ({ ...prev, strength: parseFloat(e.target.value) }))}
+              className="w-full"
+            />
+          </label>
+          <label className="block">
+            <span className="flex justify-between text-xs text-gray-400">
+              Damping <span className="font-mono">{forceSettings.damping.toFixed(2)}</span>
+            </span>
+            <input
+              type="range"
+              {...DAMPING_RANGE}
+              value={forceSettings.damping}
+              onChange={e => setForceSettings(prev => ({ ...prev, damping: parseFloat(e.target.value) }))}
+              className="w-full"
+            />
+          </label>
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-gray-400">{pinnedCount} pinned • drag a card to pin it</span>
+            <button
+              onClick={unpinAll}
+              disabled={pinnedCount === 0}
+              className="text-gray-300 hover:text-white disabled:opacity-40 transition-colors"
+            >
+              Unpin all
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* View controls */}
       <div className="absolute bottom-4 right-4 z-10 flex gap-2">
         <button
@@ -2648,19 +2878,11 @@ export default function DraggableCanvas({
           {showMergedBranches ? 'Hide Branches w/o Unique Commits' : 'Show All Branches'}
         </button>
         <button
-          onClick={() => {
-            // Clear cache and refresh
-            const cacheKey = `gitvis-branches-${owner}-${repo}`;
-            const cacheTimeKey = `${cacheKey}-time`;
-            localStorage.removeItem(cacheKey);
-            localStorage.removeItem(cacheTimeKey);
-            
-            // Trigger re-fetch by updating a dummy state
-            window.location.reload();
-          }}
-          className="bg-gray-800/80 backdrop-blur-sm text-gray-300 px-4 py-2 rounded-lg text-sm hover:bg-gray-700/80 transition-colors pointer-events-auto flex items-center gap-2"
+          onClick={() => loadBranches('refresh')}
+          disabled={isRefreshing}
+          className="bg-gray-800/80 backdrop-blur-sm text-gray-300 px-4 py-2 rounded-lg text-sm hover:bg-gray-700/80 transition-colors pointer-events-auto flex items-center gap-2 disabled:opacity-50"
         >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <svg className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
           </svg>
           Refresh
@@ -2670,21 +2892,8 @@ export default function DraggableCanvas({
             setShowTreeView(!showTreeView);
             if (!showTreeView) {
               // Reset to tree layout
-              const treePositions = calculateTreeLayout(branches, 1200, 800, layoutAlignment);
-              setCardPhysics(prev => {
-                const newPhysics = { ...prev };
-                Object.keys(newPhysics).forEach(branchName => {
-                  const position = treePositions[branchName];
-                  if (position) {
-                    newPhysics[branchName] = {
-                      ...newPhysics[branchName],
-                      position,
-                      velocity: { x: 0, y: 0 }
-                    };
-                  }
-                });
-                return newPhysics;
-              });
+              resetToTreeLayout(layoutMode);
+              clearActiveLayout();
             }
           }}
           className="bg-gray-800/80 backdrop-blur-sm text-gray-300 px-4 py-2 rounded-lg text-sm hover:bg-gray-700/80 transition-colors pointer-events-auto flex items-center gap-2"
@@ -2707,29 +2916,34 @@ export default function DraggableCanvas({
         >
           Reset View
         </button>
+        <button
+          onClick={() => setShowLayoutManager(!showLayoutManager)}
+          className="bg-gray-800/80 backdrop-blur-sm text-gray-300 px-4 py-2 rounded-lg text-sm hover:bg-gray-700/80 transition-colors pointer-events-auto"
+          title="Saved layouts"
+        >
+          {activeLayoutName ? `Layout: ${activeLayoutName}` : 'Layouts'}
+        </button>
+        <button
+          onClick={() => setShowStorageSettings(!showStorageSettings)}
+          className="bg-gray-800/80 backdrop-blur-sm text-gray-300 px-3 py-2 rounded-lg text-sm hover:bg-gray-700/80 transition-colors pointer-events-auto"
+          title="Cached data"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" />
+          </svg>
+        </button>
         {/* Layout alignment dropdown */}
         <select
-          value={layoutAlignment}
+          value={layoutMode}
           onChange={e => {
-            const value = e.target.value as 'horizontal' | 'vertical' | 'radial';
-            setLayoutAlignment(value);
+            const value = e.target.value as LayoutMode;
+            setLayoutMode(value);
             if (showTreeView) {
-              // Reset to new layout
-              const treePositions = calculateTreeLayout(branches, 1200, 800, value);
-              setCardPhysics(prev => {
-                const newPhysics = { ...prev };
-                Object.keys(newPhysics).forEach(branchName => {
-                  const position = treePositions[branchName];
-                  if (position) {
-                    newPhysics[branchName] = {
-                      ...newPhysics[branchName],
-                      position,
-                      velocity: { x: 0, y: 0 }
-                    };
-                  }
-                });
-                return newPhysics;
-              });
+              clearActiveLayout();
+            }
+            // The force-directed layout sets off from wherever the cards are
+            if (showTreeView && value !== 'force') {
+              resetToTreeLayout(value);
             }
           }}
           className="bg-gray-800/80 backdrop-blur-sm text-gray-300 px-3 py-2 rounded-lg text-sm hover:bg-gray-700/80 transition-colors pointer-events-auto mr-2"
@@ -2741,6 +2955,35 @@ export default function DraggableCanvas({
         </select>
       </div>
 
+      {/* Storage settings */}
+      {showLayoutManager && (
+        <LayoutManager
+          repoKey={provider.repoKey}
+          layouts={savedLayouts}
+          active={activeLayoutName}
+          onSave={saveCurrentLayout}
+          onApply={applySavedLayout}
+          onDelete={deleteSavedLayout}
+          onImport={layouts => setSavedLayouts(saveLayouts(provider.repoKey, layouts))}
+          onClose={() => setShowLayoutManager(false)}
+        />
+      )}
+
+      {showStorageSettings && (
+        <StorageSettings provider={provider} onClose={() => setShowStorageSettings(false)} />
+      )}
+
+      {inspectedBranchData && (
+        <ParentInspector
+          branch={inspectedBranchData}
+          parentOptions={branches.map(branch => branch.name).filter(name => canReparent(inspectedBranchData.name, name))}
+          override={parentOverrides[inspectedBranchData.name]}
+          pinned={inspectedBranchData.name !== defaultBranch && !inspectedBranchData.parentage}
+          onSetParent={(parent) => reparentBranch(inspectedBranchData.name, parent)}
+          onClose={() => setInspectedBranch(null)}
+        />
+      )}
+
       {/* PR Creation Container - positioned at target branch */}
       {showPRContainer && (
         <div 
@@ -3088,7 +3331,7 @@ export default function DraggableCanvas({
                     pullRequests.map((pr) => (
                       <a
                         key={pr.id}
-                        href={pr.html_url}
+                        href={pr.url}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="block p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 hover:bg-gray-700/50 hover:border-blue-500/50 transition-all duration-200 group"
@@ -3103,7 +3346,7 @@ export default function DraggableCanvas({
                                 Draft
                               </span>
                             )}
-                            {pr.mergeable_state === 'blocked' && (
+                            {pr.blocked && (
                               <span className="px-1.5 py-0.5 bg-red-600 text-white text-xs rounded">
                                 Blocked
                               </span>
@@ -3111,11 +3354,11 @@ export default function DraggableCanvas({
                           </div>
                           <div className="flex items-center gap-1 text-xs text-gray-500">
                             <img 
-                              src={pr.user.avatar_url} 
-                              alt={pr.user.login}
+                              src={pr.author.avatarUrl} 
+                              alt={pr.author.login}
                               className="w-4 h-4 rounded-full"
                             />
-                            <span>{pr.user.login}</span>
+                            <span>{pr.author.login}</span>
                           </div>
                         </div>
                         <h4 className="text-sm text-white font-medium mb-2 line-clamp-2">
@@ -3124,7 +3367,7 @@ export default function DraggableCanvas({
                         <div className="flex items-center justify-between text-xs text-gray-400">
                           <div className="flex items-center gap-3">
                             <span>{pr.head.ref} → {pr.base.ref}</span>
-                            <span>{formatDate(pr.created_at)}</span>
+                            <span>{formatDate(pr.createdAt)}</span>
                           </div>
                           <div className="flex items-center gap-1">
                             <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -3155,7 +3398,7 @@ export default function DraggableCanvas({
                     issues.map((issue) => (
                       <a
                         key={issue.id}
-                        href={issue.html_url}
+                        href={issue.url}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="block p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 hover:bg-gray-700/50 hover:border-orange-500/50 transition-all duration-200 group"
@@ -3189,11 +3432,11 @@ export default function DraggableCanvas({
                           </div>
                           <div className="flex items-center gap-1 text-xs text-gray-500">
                             <img 
-                              src={issue.user.avatar_url} 
-                              alt={issue.user.login}
+                              src={issue.author.avatarUrl} 
+                              alt={issue.author.login}
                               className="w-4 h-4 rounded-full"
                             />
-                            <span>{issue.user.login}</span>
+                            <span>{issue.author.login}</span>
                           </div>
                         </div>
                         <h4 className="text-sm text-white font-medium mb-2 line-clamp-2">
@@ -3208,7 +3451,7 @@ export default function DraggableCanvas({
                                   {issue.assignees.slice(0, 2).map((assignee, index) => (
                                     <img
                                       key={index}
-                                      src={assignee.avatar_url}
+                                      src={assignee.avatarUrl}
                                       alt={assignee.login}
                                       className="w-3 h-3 rounded-full border border-gray-700"
                                       title={assignee.login}
@@ -3220,7 +3463,7 @@ export default function DraggableCanvas({
                                 </div>
                               </div>
                             )}
-                            <span>{formatDate(issue.created_at)}</span>
+                            <span>{formatDate(issue.createdAt)}</span>
                           </div>
                           <div className="flex items-center gap-1">
                             <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,638 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef } from 'react';
+import { Branch, PullRequest } from '../lib/types';
+import { MotionStore } from '../lib/motion';
+import { Cluster } from '../lib/viewport';
+import {
+  COMMIT_NODE_RADIUS,
+  EDGE_RGB,
+  MIN_SCALE_FOR_COMMIT_TEXT,
+  MIN_SCALE_FOR_TEXT,
+  NODE_RADIUS,
+  NODE_RGB,
+  clusterRadius,
+  depthRgb,
+  edgeDetail,
+  textOpacityAt
+} from './graphStyle';
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+export interface GraphNode {
+  branch: Branch;
+  position: Position;
+  isDragging: boolean;
+  isPinned: boolean;
+  ruleRgb?: string; // A branch rule's color, as "r, g, b"
+}
+
+export interface GraphEdge {
+  key: string;
+  from: Position;
+  to: Position;
+  fromId?: string; // The cards at the ends, whose live positions win while they move
+  toId?: string;
+  pullRequest?: PullRequest;
+  commitCount: number; // One pulse per commit, at most 5
+}
+
+// A subtree collapsed while zoomed out
+export interface GraphCluster {
+  cluster: Cluster;
+  rgb: string; // The root branch's color
+}
+
+interface GraphCanvasProps {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  clusters: GraphCluster[];
+  motion: MotionStore; // Live positions of moving cards, drawn without re-rendering
+  scale: number;
+  offset: Position;
+  isSpacePressed: boolean;
+  dragTarget: string | null;
+  expanded: Set<string>;
+  loadingCommits: Set<string>;
+  onStartDrag: (id: string, position: Position, reparent: boolean) => void;
+  onDrag: (id: string, position: Position) => void;
+  onEndDrag: (id: string) => void;
+  onDoubleClick: (id: string) => void;
+  onClusterDoubleClick: (cluster: Cluster) => void;
+  // Right-drag from a node; missing when branches can't be created
+  onBranchCreationStart?: (id: string, worldPosition: Position, screenPosition: Position) => void;
+}
+
+const LABEL_BACKGROUND = 'rgba(17, 24, 39, 0.9)';
+const LABEL_BORDER = 'rgba(55, 65, 81, 0.5)';
+const MAX_SPRITES = 300;
+const MAX_PULSES = 5;
+
+// Pre-rendered glowing nodes, keyed by color, state and size: blurring every node every frame is what makes big graphs slow
+const sprites = new Map<string, HTMLCanvasElement>();
+
+const nodeSprite = (rgb: string, glowAlpha: number, glow: number, radius: number, dim: boolean, dpr: number) => {
+  const key = `${rgb}|${glowAlpha}|${glow}|${radius.toFixed(1)}|${dim}|${dpr}`;
+  const cached = sprites.get(key);
+  if (cached) return cached;
+  if (sprites.size >= MAX_SPRITES) sprites.clear();
+
+  const half = radius + glow * 2;
+  const sprite = document.createElement('canvas');
+  sprite.width = sprite.height = Math.ceil(half * 2 * dpr);
+  const ctx = sprite.getContext('2d')!;
+  ctx.scale(dpr, dpr);
+  const center = half;
+  const glowColor = `rgba(${rgb}, ${glowAlpha})`;
+
+  // Two soft shadows, like the DOM node's box-shadow
+  ctx.fillStyle = `rgb(${rgb})`;
+  [glow * 2, glow].forEach(blur => {
+    ctx.shadowColor = glowColor;
+    ctx.shadowBlur = blur;
+    ctx.beginPath();
+    ctx.arc(center, center, radius, 0, Math.PI * 2);
+    ctx.fill();
+  });
+  ctx.shadowBlur = 0;
+
+  // Body lit from the top left
+  const highlight = center - radius * 0.4;
+  const body = ctx.createRadialGradient(highlight, highlight, 0, highlight, highlight, radius * 1.6);
+  body.addColorStop(0, `rgba(255, 255, 255, ${dim ? 0.2 : 0.4})`);
+  body.addColorStop(1, `rgb(${rgb})`);
+  ctx.fillStyle = body;
+  ctx.beginPath();
+  ctx.arc(center, center, radius, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Inner glow
+  const inner = ctx.createRadialGradient(center, center, 0, center, center, Math.max(radius - 1, 0.5));
+  inner.addColorStop(0, glowColor);
+  inner.addColorStop(1, `rgba(${rgb}, 0)`);
+  ctx.fillStyle = inner;
+  ctx.fill();
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+  ctx.lineWidth = 1;
+  ctx.stroke();
+
+  sprites.set(key, sprite);
+  return sprite;
+};
+
+// Measured label widths, least recently used first. Labels change with every
+// sync and repository, so the oldest are dropped past the cap.
+const MAX_TEXT_WIDTHS = 2000;
+const textWidths = new Map<string, number>();
+const measure = (ctx: CanvasRenderingContext2D, text: string) => {
+  const key = `${ctx.font}|${text}`;
+  let width = textWidths.get(key);
+  if (width === undefined) {
+    width = ctx.measureText(text).width;
+    if (textWidths.size >= MAX_TEXT_WIDTHS) textWidths.delete(textWidths.keys().next().value!);
+  } else {
+    textWidths.delete(key);
+  }
+  textWidths.set(key, width);
+  return width;
+};
+
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, radius);
+};
+
+interface LabelLine {
+  text: string;
+  font: string;
+  color: string;
+  height: number;
+}
+
+// A label box centered under (x, top), like the DOM node's floating label
+const drawLabel = (
+  ctx: CanvasRenderingContext2D,
+  lines: LabelLine[],
+  x: number,
+  top: number,
+  padding: { x: number; y: number },
+  radius: number
+) => {
+  const width = Math.max(...lines.map(line => {
+    ctx.font = line.font;
+    return measure(ctx, line.text);
+  })) + padding.x * 2;
+  const height = lines.reduce((sum, line) => sum + line.height, 0) + padding.y * 2;
+
+  roundedRect(ctx, x - width / 2, top, width, height, radius);
+  ctx.fillStyle = LABEL_BACKGROUND;
+  ctx.fill();
+  ctx.strokeStyle = LABEL_BORDER;
+  ctx.lineWidth = 1;
+  ctx.stroke();
+
+  let y = top + padding.y;
+  lines.forEach(line => {
+    ctx.font = line.font;
+    ctx.fillStyle = line.color;
+    ctx.fillText(line.text, x - width / 2 + padding.x, y + line.height / 2);
+    y += line.height;
+  });
+};
+
+// Piecewise-linear keyframes over t in [0, 1], like SVG's evenly spaced values
+const keyframes = (values: number[], t: number) => {
+  const position = t * (values.length - 1);
+  const index = Math.min(Math.floor(position), values.length - 2);
+  return values[index] + (values[index + 1] - values[index]) * (position - index);
+};
+
+const edgeRgb = (pullRequest?: PullRequest) => {
+  if (!pullRequest) return EDGE_RGB.branch;
+  if (pullRequest.draft) return EDGE_RGB.draft;
+  if (pullRequest.blocked) return EDGE_RGB.blocked;
+  return EDGE_RGB.pullRequest;
+};
+
+const drawEdge = (ctx: CanvasRenderingContext2D, edge: GraphEdge, scale: number, offset: Position, seconds: number) => {
+  const from = { x: edge.from.x * scale + offset.x, y: edge.from.y * scale + offset.y };
+  const to = { x: edge.to.x * scale + offset.x, y: edge.to.y * scale + offset.y };
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const nodeRadius = NODE_RADIUS * scale;
+  const start = { x: from.x + Math.cos(angle) * nodeRadius, y: from.y + Math.sin(angle) * nodeRadius };
+  const end = { x: to.x - Math.cos(angle) * nodeRadius, y: to.y - Math.sin(angle) * nodeRadius };
+  const rgb = edgeRgb(edge.pullRequest);
+  const glowIntensity = edge.pullRequest ? 0.8 : 0.5;
+  const detail = edgeDetail(Math.hypot(to.x - from.x, to.y - from.y), scale);
+
+  const line = () => {
+    ctx.beginPath();
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(end.x, end.y);
+  };
+
+  // Glow: a wide faint stroke under a narrower one stands in for the SVG blur filter
+  if (detail.glow) {
+    ctx.lineCap = 'butt';
+    line();
+    ctx.strokeStyle = `rgba(${rgb}, ${glowIntensity * 0.12})`;
+    ctx.lineWidth = edge.pullRequest ? 16 : 12;
+    ctx.stroke();
+    ctx.strokeStyle = `rgba(${rgb}, ${glowIntensity * 0.3})`;
+    ctx.lineWidth = edge.pullRequest ? 8 : 6;
+    ctx.stroke();
+  }
+
+  // Main line: faded ends, or for pull requests a pulse between the ends and the middle every 2s
+  const gradient = ctx.createLinearGradient(start.x, start.y, end.x, end.y);
+  if (edge.pullRequest && detail.pulses) {
+    const phase = keyframes([0, 1, 0], (seconds % 2) / 2);
+    gradient.addColorStop(0, `rgba(${rgb}, ${0.8 * phase})`);
+    gradient.addColorStop(0.5, `rgba(${rgb}, ${0.8 * (1 - phase)})`);
+    gradient.addColorStop(1, `rgba(${rgb}, ${0.8 * phase})`);
+  } else {
+    gradient.addColorStop(0, `rgba(${rgb}, 0)`);
+    gradient.addColorStop(0.1, `rgba(${rgb}, ${glowIntensity})`);
+    gradient.addColorStop(0.9, `rgba(${rgb}, ${glowIntensity})`);
+    gradient.addColorStop(1, `rgba(${rgb}, 0)`);
+  }
+  ctx.globalAlpha = 0.8;
+  ctx.lineCap = 'round';
+  line();
+  ctx.strokeStyle = gradient;
+  ctx.lineWidth = edge.pullRequest ? 2 : 1.5;
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+
+  // One pulse per commit travelling child -> parent every 3s, staggered evenly
+  const pulses = detail.pulses ? Math.min(edge.commitCount, MAX_PULSES) : 0;
+  for (let index = 0; index < pulses; index++) {
+    const elapsed = seconds - index * (3 / pulses);
+    if (elapsed < 0) continue;
+    const t = (elapsed % 3) / 3;
+    const opacity = keyframes([0, 1, 1, 0], t);
+    const radius = keyframes([2, 4, 4, 2], t);
+    const x = start.x + (end.x - start.x) * t;
+    const y = start.y + (end.y - start.y) * t;
+    ctx.fillStyle = `rgba(${rgb}, ${0.25 * opacity})`;
+    ctx.beginPath();
+    ctx.arc(x, y, radius * 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = `rgba(${rgb}, ${0.8 * opacity})`;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  const middle = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  if (edge.pullRequest && detail.pullRequestBadge) {
+    roundedRect(ctx, middle.x - 40, middle.y - 12, 80, 24, 12);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fill();
+    ctx.strokeStyle = `rgba(${rgb}, 0.4)`;
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.font = '11px monospace';
+    ctx.fillStyle = `rgb(${rgb})`;
+    ctx.fillText(`PR #${edge.pullRequest.number}`, middle.x, middle.y + 1);
+  } else if (!edge.pullRequest && edge.commitCount > 0 && detail.commitCount) {
+    ctx.globalAlpha = 0.6;
+    ctx.font = '10px monospace';
+    ctx.fillStyle = `rgba(${rgb}, 0.8)`;
+    ctx.fillText(`${edge.commitCount} commit${edge.commitCount > 1 ? 's' : ''}`, middle.x, middle.y - 10);
+    ctx.globalAlpha = 1;
+  }
+  ctx.textAlign = 'left';
+
+  // Whether anything on this edge is moving
+  return detail.pulses && (Boolean(edge.pullRequest) || pulses > 0);
+};
+
+const drawCluster = (ctx: CanvasRenderingContext2D, { cluster, rgb }: GraphCluster, scale: number, offset: Position, dpr: number) => {
+  const x = cluster.center.x * scale + offset.x;
+  const y = cluster.center.y * scale + offset.y;
+  const sprite = nodeSprite(rgb, 0.6, 20, clusterRadius(cluster.members.length), false, dpr);
+  const spriteSize = sprite.width / dpr;
+  ctx.drawImage(sprite, x - spriteSize / 2, y - spriteSize / 2, spriteSize, spriteSize);
+  ctx.font = '600 11px sans-serif';
+  ctx.fillStyle = 'rgb(255, 255, 255)';
+  ctx.textAlign = 'center';
+  ctx.fillText(String(cluster.members.length), x, y);
+  ctx.textAlign = 'left';
+};
+
+// Same colors as the DOM node: drag target, then not ahead, then the rule's color, then depth
+const nodeRgb = (node: GraphNode, isDragTarget: boolean) => {
+  if (isDragTarget) return NODE_RGB.dragTarget;
+  if (node.branch.aheadBy === 0) return NODE_RGB.notAhead;
+  return node.ruleRgb || depthRgb(node.branch.depth);
+};
+
+// Commits of an expanded branch sit on a circle around it, starting at the top
+const commitOffset = (index: number, total: number) => {
+  const angle = (2 * Math.PI * index) / total - Math.PI / 2;
+  return { x: Math.cos(angle) * 60, y: Math.sin(angle) * 60 };
+};
+
+const drawNode = (
+  ctx: CanvasRenderingContext2D,
+  node: GraphNode,
+  props: GraphCanvasProps,
+  seconds: number,
+  dpr: number
+) => {
+  const { scale, offset, dragTarget, expanded, loadingCommits } = props;
+  const { branch } = node;
+  const x = node.position.x * scale + offset.x;
+  const y = node.position.y * scale + offset.y;
+  const isDragTarget = dragTarget === branch.name;
+  const notAhead = branch.aheadBy === 0;
+  const radius = NODE_RADIUS * scale;
+  const drawnRadius = radius * (isDragTarget ? 1.5 : node.isDragging ? 1.3 : 1);
+  const glow = isDragTarget ? 40 : node.isDragging ? 30 : 20;
+  const glowAlpha = isDragTarget ? 0.9 : notAhead ? 0.6 : 0.8;
+
+  const sprite = nodeSprite(nodeRgb(node, isDragTarget), glowAlpha, glow, drawnRadius, notAhead, dpr);
+  const spriteSize = sprite.width / dpr;
+  ctx.globalAlpha = notAhead ? 0.4 : 1;
+  ctx.drawImage(sprite, x - spriteSize / 2, y - spriteSize / 2, spriteSize, spriteSize);
+  ctx.globalAlpha = 1;
+
+  if (node.isPinned) {
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(x, y, drawnRadius + 2, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  // Protected badge, fixed size at the top right
+  if (branch.protected) {
+    const badge = { x: x + radius - 4, y: y - radius + 4 };
+    ctx.shadowColor = 'rgba(250, 204, 21, 0.8)';
+    ctx.shadowBlur = 10;
+    ctx.fillStyle = 'rgb(234, 179, 8)';
+    ctx.beginPath();
+    ctx.arc(badge.x, badge.y, 6, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = 'rgb(113, 63, 18)';
+    ctx.fillRect(badge.x - 2.5, badge.y - 1, 5, 4);
+    ctx.strokeStyle = 'rgb(113, 63, 18)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(badge.x, badge.y - 1, 1.8, Math.PI, 0);
+    ctx.stroke();
+  }
+
+  if (loadingCommits.has(branch.name)) {
+    const spin = (seconds * 2 * Math.PI) % (2 * Math.PI);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(x, y, 6, spin, spin + Math.PI / 2);
+    ctx.stroke();
+  }
+
+  const textOpacity = textOpacityAt(scale, MIN_SCALE_FOR_TEXT);
+  const commits = expanded.has(branch.name) && !loadingCommits.has(branch.name) ? branch.commits || [] : [];
+  if (commits.length > 0 && textOpacity > 0.3) {
+    const shown = commits.slice(0, 8);
+    const commitTextOpacity = textOpacityAt(scale, MIN_SCALE_FOR_COMMIT_TEXT);
+    const commitRadius = COMMIT_NODE_RADIUS * scale;
+    shown.forEach((commit, index) => {
+      const position = commitOffset(index, shown.length);
+      const cx = x + position.x * scale;
+      const cy = y + position.y * scale;
+      const fill = ctx.createRadialGradient(cx - commitRadius * 0.4, cy - commitRadius * 0.4, 0, cx, cy, commitRadius * 1.4);
+      fill.addColorStop(0, 'rgba(255, 255, 255, 0.2)');
+      fill.addColorStop(1, 'rgba(156, 163, 175, 0.8)');
+      ctx.shadowColor = 'rgba(156, 163, 175, 0.5)';
+      ctx.shadowBlur = 8;
+      ctx.fillStyle = fill;
+      ctx.beginPath();
+      ctx.arc(cx, cy, commitRadius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.shadowBlur = 0;
+
+      if (commitTextOpacity > 0) {
+        ctx.globalAlpha = commitTextOpacity;
+        let message = commit.message.split('\n')[0];
+        ctx.font = '12px sans-serif';
+        while (message.length > 1 && measure(ctx, message) > 150) message = `${message.slice(0, -2)}…`;
+        drawLabel(ctx, [
+          { text: message, font: '12px sans-serif', color: 'rgb(209, 213, 219)', height: 16 },
+          {
+            text: `${commit.sha.substring(0, 7)} • ${commit.author.name.split(' ')[0]}`,
+            font: '12px monospace',
+            color: 'rgb(107, 114, 128)',
+            height: 16
+          },
+        ], cx, cy + commitRadius + 4, { x: 6, y: 2 }, 4);
+        ctx.globalAlpha = 1;
+      }
+    });
+  }
+};
+
+const drawNodeLabel = (ctx: CanvasRenderingContext2D, node: GraphNode, props: GraphCanvasProps) => {
+  const { scale, offset, expanded } = props;
+  const { branch } = node;
+  const textOpacity = textOpacityAt(scale, MIN_SCALE_FOR_TEXT);
+  if (textOpacity === 0) return;
+
+  const lines: LabelLine[] = [
+    { text: branch.name, font: '500 14px sans-serif', color: 'rgb(255, 255, 255)', height: 20 },
+    { text: branch.commit.sha.substring(0, 7), font: '12px monospace', color: 'rgb(156, 163, 175)', height: 16 },
+  ];
+  // Show additional info at higher zoom levels
+  if (scale > 1.5) {
+    if (branch.aheadBy === 0) {
+      lines.push({ text: 'No unique commits', font: '12px sans-serif', color: 'rgb(107, 114, 128)', height: 18 });
+    }
+    if (branch.children && branch.children.length > 0) {
+      lines.push({ text: `${branch.children.length} branches`, font: '12px sans-serif', color: 'rgb(96, 165, 250)', height: 18 });
+    }
+    if (expanded.has(branch.name) && branch.commits) {
+      lines.push({ text: `${branch.commits.length} commits`, font: '12px sans-serif', color: 'rgb(74, 222, 128)', height: 18 });
+    }
+  }
+
+  const radius = NODE_RADIUS * scale;
+  ctx.globalAlpha = textOpacity;
+  drawLabel(
+    ctx,
+    lines,
+    node.position.x * scale + offset.x,
+    node.position.y * scale + offset.y + radius + 4,
+    { x: 8, y: 4 },
+    6
+  );
+  ctx.globalAlpha = 1;
+};
+
+// All branches and connections on one <canvas>, for graphs too big for a DOM
+// element per node and an SVG per connection. Looks like DraggableNode and
+// ConnectionLine, and hit-tests the mouse to drag, double-click and right-drag nodes.
+export default function GraphCanvas(props: GraphCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const propsRef = useRef(props);
+  const frameRef = useRef<number | null>(null);
+
+  const draw = useCallback(() => {
+    frameRef.current = null;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const current = propsRef.current;
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.textBaseline = 'middle';
+
+    const seconds = performance.now() / 1000;
+    let animated = current.loadingCommits.size > 0;
+    // Moving cards are drawn where they are now
+    const { motion } = current;
+    const live = (id: string | undefined, resting: Position) => (id !== undefined && motion.get(id)) || resting;
+    const nodes = current.nodes.map(node => ({ ...node, position: live(node.branch.name, node.position) }));
+    const edges = current.edges.map(edge => ({ ...edge, from: live(edge.fromId, edge.from), to: live(edge.toId, edge.to) }));
+
+    edges.forEach(edge => {
+      if (drawEdge(ctx, edge, current.scale, current.offset, seconds)) animated = true;
+    });
+    current.clusters.forEach(cluster => drawCluster(ctx, cluster, current.scale, current.offset, dpr));
+    // Dragged nodes on top
+    const ordered = [...nodes.filter(node => !node.isDragging), ...nodes.filter(node => node.isDragging)];
+    ordered.forEach(node => drawNode(ctx, node, current, seconds, dpr));
+    ordered.forEach(node => drawNodeLabel(ctx, node, current));
+
+    // Pulses, pull request gradients and spinners keep animating
+    if (animated) frameRef.current = requestAnimationFrame(draw);
+  }, []);
+
+  const requestDraw = useCallback(() => {
+    if (frameRef.current === null) frameRef.current = requestAnimationFrame(draw);
+  }, [draw]);
+
+  // Redraw whenever anything shown changes
+  useEffect(() => {
+    propsRef.current = props;
+    requestDraw();
+  });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(requestDraw);
+    observer.observe(canvas);
+    return () => {
+      observer.disconnect();
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    };
+  }, [requestDraw]);
+
+  // Moving cards redraw the canvas without going through React
+  const { motion } = props;
+  useEffect(() => motion.subscribe(requestDraw), [motion, requestDraw]);
+
+  // Topmost node under a point on screen
+  const hitTest = (clientX: number, clientY: number): GraphNode | null => {
+    const { nodes, scale, offset, motion } = propsRef.current;
+    const radius = Math.max(NODE_RADIUS * scale, 6);
+    for (let index = nodes.length - 1; index >= 0; index--) {
+      const node = nodes[index];
+      const position = motion.get(node.branch.name) || node.position;
+      const dx = clientX - (position.x * scale + offset.x);
+      const dy = clientY - (position.y * scale + offset.y);
+      if (dx * dx + dy * dy <= radius * radius) return { ...node, position };
+    }
+    return null;
+  };
+
+  const clusterAt = (clientX: number, clientY: number): Cluster | null => {
+    const { clusters, scale, offset } = propsRef.current;
+    const hit = clusters.find(({ cluster }) => {
+      const radius = clusterRadius(cluster.members.length);
+      const dx = clientX - (cluster.center.x * scale + offset.x);
+      const dy = clientY - (cluster.center.y * scale + offset.y);
+      return dx * dx + dy * dy <= radius * radius;
+    });
+    return hit ? hit.cluster : null;
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { isSpacePressed, scale, offset } = propsRef.current;
+    // Space, or the background, pans the canvas
+    if (isSpacePressed) return;
+    const node = hitTest(e.clientX, e.clientY);
+    if (!node) return;
+    e.stopPropagation();
+    const id = node.branch.name;
+
+    // Right click - start branch creation
+    if (e.button === 2) {
+      e.preventDefault();
+      propsRef.current.onBranchCreationStart?.(
+        id,
+        { x: (e.clientX - offset.x) / scale, y: (e.clientY - offset.y) / scale },
+        { x: e.clientX, y: e.clientY }
+      );
+      return;
+    }
+    if (e.button !== 0) return;
+
+    // Left click - drag, keeping the point that was grabbed under the cursor
+    const grab = {
+      x: e.clientX - (node.position.x * scale + offset.x),
+      y: e.clientY - (node.position.y * scale + offset.y)
+    };
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+      const { scale: currentScale, offset: currentOffset } = propsRef.current;
+      propsRef.current.onDrag(id, {
+        x: (moveEvent.clientX - grab.x - currentOffset.x) / currentScale,
+        y: (moveEvent.clientY - grab.y - currentOffset.y) / currentScale
+      });
+    };
+    const handleMouseUp = () => {
+      propsRef.current.onEndDrag(id);
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    propsRef.current.onStartDrag(id, node.position, e.altKey);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const node = hitTest(e.clientX, e.clientY);
+    const cluster = node ? null : clusterAt(e.clientX, e.clientY);
+    if (!node && !cluster) return;
+    e.stopPropagation();
+    if (node) propsRef.current.onDoubleClick(node.branch.name);
+    else if (cluster) propsRef.current.onClusterDoubleClick(cluster);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const { isSpacePressed, nodes } = propsRef.current;
+    canvas.style.cursor = nodes.some(node => node.isDragging)
+      ? 'move'
+      : isSpacePressed ? 'grab'
+      : hitTest(e.clientX, e.clientY) ? 'pointer'
+      : clusterAt(e.clientX, e.clientY) ? 'zoom-in' : '';
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width: '100%',
+        height: '100%',
+        zIndex: 1
+      }}
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onDoubleClick={handleDoubleClick}
+      onContextMenu={e => e.preventDefault()}
+    />
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { SavedLayout, exportLayouts, parseLayoutsFile } from '../lib/savedLayouts';
+
+interface LayoutManagerProps {
+  repoKey: string;
+  layouts: SavedLayout[];
+  active: string | null;
+  onSave: (name: string) => void;
+  onApply: (layout: SavedLayout) => void;
+  onDelete: (name: string) => void;
+  onImport: (layouts: SavedLayout[]) => void;
+  onClose: () => void;
+}
+
+const formatSavedAt = (savedAt: string) => {
+  const date = new Date(savedAt);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+export default function LayoutManager({
+  repoKey,
+  layouts,
+  active,
+  onSave,
+  onApply,
+  onDelete,
+  onImport,
+  onClose
+}: LayoutManagerProps) {
+  const [name, setName] = useState(active || '');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) onSave(name.trim());
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportLayouts(repoKey, layouts)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `gitvis-layouts-${repoKey.replace(/[^A-Za-z0-9_.-]+/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { layouts: imported, errors } = parseLayoutsFile(await file.text());
+    setImportErrors(imported.length === 0 && errors.length === 0 ? ['The file has no layouts'] : errors);
+    if (imported.length > 0) onImport(imported);
+  };
+
+  return (
+    <div className="absolute top-16 right-4 z-50 w-80 bg-gray-900/95 backdrop-blur-md rounded-xl border border-gray-700/50 p-4 shadow-2xl">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">Saved layouts</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Save the current arrangement; an existing name is overwritten */}
+      <form onSubmit={handleSave} className="flex gap-2 mb-4">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Layout name"
+          className="flex-1 min-w-0 px-3 py-2 text-sm text-white bg-gray-800 rounded-lg border border-gray-700 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="px-3 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-500 transition-colors disabled:opacity-50"
+        >
+          {layouts.some(layout => layout.name === name.trim()) ? 'Update' : 'Save'}
+        </button>
+      </form>
+
+      {layouts.length > 0 ? (
+        <ul className="mb-4 max-h-64 overflow-y-auto space-y-1">
+          {layouts.map(layout => (
+            <li
+              key={layout.name}
+              className={`flex items-center gap-2 px-2 py-1.5 rounded-lg ${
+                layout.name === active ? 'bg-blue-600/20 border border-blue-500/40' : 'hover:bg-gray-800'
+              }`}
+            >
+              <button onClick={() => onApply(layout)} className="flex-1 min-w-0 text-left" title="Switch to this layout">
+                <span className="block text-sm text-gray-200 truncate">{layout.name}</span>
+                <span className="block text-xs text-gray-500">
+                  {Object.keys(layout.positions).length} branches · {formatSavedAt(layout.savedAt)}
+                </span>
+              </button>
+              <button
+                onClick={() => onDelete(layout.name)}
+                className="text-gray-500 hover:text-red-400 transition-colors"
+                title="Delete layout"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-400 mb-4">
+          Arrange the branches in Free Layout, then save the arrangement here.
+        </p>
+      )}
+
+      {importErrors.length > 0 && (
+        <ul className="mb-3 text-xs text-red-400 space-y-0.5">
+          {importErrors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      {/* Actions */}
+      <div className="flex gap-2">
+        <button
+          onClick={handleExport}
+          disabled={layouts.length === 0}
+          className="flex-1 px-3 py-2 text-sm text-gray-300 bg-gray-800 rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+        >
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 px-3 py-2 text-sm text-gray-300 bg-gray-800 rounded-lg hover:bg-gray-700 transition-colors"
+        >
+          Import
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+    </div>
+  );
+}
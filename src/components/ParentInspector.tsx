@@ -0,0 +1,138 @@
+'use client';
+
+import React from 'react';
+import { Branch, ParentReason, Parentage } from '../lib/types';
+
+interface ParentInspectorProps {
+  branch: Branch;
+  // Branches the parent can be changed to (not the branch itself or its descendants)
+  parentOptions: string[];
+  override?: string;
+  // Pinned as a root by the repository's .gitvis.json
+  pinned: boolean;
+  onSetParent: (parent: string | null) => void;
+  onClose: () => void;
+}
+
+const shortSha = (sha: string | null) => (sha ? sha.substring(0, 7) : '—');
+
+const explain = (parentage: Parentage): string => {
+  const reasons: Record<ParentReason, string> = {
+    override: 'You set this parent by hand.',
+    rule: `The ${parentage.pattern} rule in .gitvis.json puts it under ${parentage.parent}.`,
+    saved: 'Kept from an earlier load so the tree holds still.',
+    'same-tip': `Points at the same commit as ${parentage.parent}.`,
+    merged: `The tip is already in ${parentage.parent}'s history, so it was merged there.`,
+    'fork-point': `Its own commits leave ${parentage.parent}'s history at ${shortSha(parentage.forkPoint)}.`,
+    default: 'No other branch shares its loaded history, so it hangs off the default branch.',
+    pattern: `History couldn't be loaded; the name matches the ${parentage.pattern} pattern.`,
+  };
+  return reasons[parentage.reason];
+};
+
+const Numbers = ({ parentage }: { parentage: Parentage }) => (
+  <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+    <dt className="text-gray-500">Ahead / behind</dt>
+    <dd className="text-gray-300 font-mono">
+      {parentage.reason === 'pattern' ? '—' : `${parentage.aheadBy} / ${parentage.behindBy}`}
+    </dd>
+    <dt className="text-gray-500">Fork point</dt>
+    <dd className="text-gray-300 font-mono">{shortSha(parentage.forkPoint)}</dd>
+    <dt className="text-gray-500">Merge base</dt>
+    <dd className="text-gray-300 font-mono">{shortSha(parentage.mergeBase)}</dd>
+  </dl>
+);
+
+// "Why this parent": how the tree placed a branch, and a way to overrule it
+export default function ParentInspector({ branch, parentOptions, override, pinned, onSetParent, onClose }: ParentInspectorProps) {
+  const { parentage } = branch;
+  const inferred = parentage?.inferred;
+
+  return (
+    <div className="absolute top-24 left-4 z-50 w-80 bg-gray-900/95 backdrop-blur-md rounded-xl border border-gray-700/50 p-4 shadow-2xl">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-white truncate">{branch.name}</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {parentage ? (
+        <>
+          <p className="text-sm text-gray-300 mb-1">
+            Parent: <span className="text-white font-medium">{parentage.parent}</span>
+          </p>
+          <p className="text-xs text-gray-400 mb-3">{explain(parentage)}</p>
+          <Numbers parentage={parentage} />
+
+          {parentage.truncated && parentage.reason !== 'pattern' && (
+            <p className="mt-2 text-xs text-yellow-400">The loaded history ran out before this branch met another one.</p>
+          )}
+
+          {parentage.candidates && parentage.candidates.length > 1 && (
+            <table className="w-full text-xs mt-3">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left font-normal pb-1">Also contains the fork point</th>
+                  <th className="text-right font-normal pb-1" title="The fork point is one of the branch's own commits">Own</th>
+                  <th className="text-right font-normal pb-1" title="Commits from the branch's tip back to the fork point">Distance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {parentage.candidates.map((candidate, index) => (
+                  <tr key={candidate.name} className={index === 0 ? 'text-white' : 'text-gray-400'}>
+                    <td className="truncate max-w-[10rem]">{candidate.name}</td>
+                    <td className="text-right">{candidate.onChain ? 'yes' : 'no'}</td>
+                    <td className="text-right font-mono">{candidate.distance}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {inferred && (
+            <div className="mt-3 pt-3 border-t border-gray-700/50">
+              <p className="text-xs text-gray-400 mb-2">
+                The commit graph alone picks <span className="text-gray-200">{inferred.parent}</span>. {explain(inferred)}
+              </p>
+              <Numbers parentage={inferred} />
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-gray-400">
+          {pinned ? '.gitvis.json pins it as a root, so it has no parent.' : 'This is the default branch, so it has no parent.'}
+        </p>
+      )}
+
+      {parentage && (
+        <div className="mt-4 pt-3 border-t border-gray-700/50 flex items-center gap-2">
+          <select
+            value={override ?? ''}
+            onChange={(e) => onSetParent(e.target.value || null)}
+            className="flex-1 min-w-0 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-sm text-white"
+          >
+            <option value="">Inferred parent</option>
+            {parentOptions.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          {override && (
+            <button
+              onClick={() => onSetParent(null)}
+              className="px-2 py-1 text-xs text-gray-300 hover:text-white bg-gray-800 rounded transition-colors"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
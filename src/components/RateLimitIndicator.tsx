@@ -0,0 +1,59 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { RequestScheduler, SchedulerState, githubScheduler } from '../lib/github/scheduler';
+
+// Live view of a request scheduler, the shared GitHub one unless told otherwise
+export const useSchedulerState = (scheduler: RequestScheduler = githubScheduler): SchedulerState => {
+  const [state, setState] = useState<SchedulerState>(scheduler.getState());
+
+  useEffect(() => {
+    setState(scheduler.getState());
+    return scheduler.subscribe(setState);
+  }, [scheduler]);
+
+  return state;
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+interface RateLimitIndicatorProps {
+  scheduler?: RequestScheduler;
+}
+
+export default function RateLimitIndicator({ scheduler }: RateLimitIndicatorProps) {
+  const { budgets, pausedUntil } = useSchedulerState(scheduler);
+  const core = budgets.core;
+  const graphql = budgets.graphql;
+
+  if (pausedUntil) {
+    return (
+      <div
+        className="bg-yellow-900/40 border border-yellow-700/50 backdrop-blur-sm rounded-lg px-3 py-2 text-yellow-300 text-xs"
+        title="Rate limit is low; requests resume automatically"
+      >
+        Rate limited · resuming at {formatTime(pausedUntil)}
+      </div>
+    );
+  }
+
+  if (!core && !graphql) return null;
+
+  const describe = (label: string, budget: typeof core) => {
+    if (!budget) return null;
+    const ratio = budget.limit > 0 ? budget.remaining / budget.limit : 0;
+    const color = ratio < 0.1 ? 'text-red-400' : ratio < 0.3 ? 'text-yellow-400' : 'text-gray-300';
+    return (
+      <span className={color} title={`${label}: resets at ${formatTime(budget.resetAt)}`}>
+        {label} {budget.remaining}/{budget.limit}
+      </span>
+    );
+  };
+
+  return (
+    <div className="flex items-center gap-2 bg-gray-800/80 backdrop-blur-sm rounded-lg px-3 py-2 text-xs font-mono">
+      {describe('REST', core)}
+      {describe('GraphQL', graphql)}
+    </div>
+  );
+}
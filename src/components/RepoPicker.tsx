@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { RecentRepo, getRecentRepos, parseRepoInput, removeRecentRepo, repoPath } from '../lib/recentRepos';
+import { searchRepositories } from '../lib/github/client';
+import { RateLimitError } from '../lib/providers/errors';
+import { HostInfo } from '../lib/providers/types';
+import { RepoSearchResult } from '../lib/github/types';
+
+export default function RepoPicker() {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<RepoSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [recentRepos, setRecentRepos] = useState<RecentRepo[]>([]);
+  const [hosts, setHosts] = useState<HostInfo[]>([]);
+  const [localRepos, setLocalRepos] = useState<string[]>([]);
+
+  // Recent repos live in localStorage, so load them after mount
+  useEffect(() => {
+    setRecentRepos(getRecentRepos());
+  }, []);
+
+  // Self-hosted instances the server knows about, so their URLs can be pasted in
+  useEffect(() => {
+    fetch('/api/hosts')
+      .then(response => (response.ok ? response.json() : []))
+      .then(setHosts)
+      .catch(error => console.warn('Failed to load configured hosts:', error));
+  }, []);
+
+  // Clones on the server's disk, listed in GITVIS_LOCAL_REPOS
+  useEffect(() => {
+    fetch('/api/local')
+      .then(response => (response.ok ? response.json() : []))
+      .then(setLocalRepos)
+      .catch(error => console.warn('Failed to load local repositories:', error));
+  }, []);
+
+  // Search GitHub repositories as the user types (debounced)
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) {
+      setResults([]);
+      setSearchError(null);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        setSearching(true);
+        setSearchError(null);
+
+        setResults(await searchRepositories(trimmed));
+      } catch (error) {
+        setSearchError(error instanceof RateLimitError ? 'Rate limit exceeded' : error instanceof Error ? error.message : 'Search failed');
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const openRepo = (owner: string, repo: string, host?: string) => {
+    router.push(repoPath({ owner, repo, host }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseRepoInput(query, hosts);
+    if (parsed) {
+      openRepo(parsed.owner, parsed.repo, parsed.host);
+    } else if (results.length > 0) {
+      openRepo(results[0].owner.login, results[0].name);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-xl">
+      {/* Search box */}
+      <form onSubmit={handleSubmit} className="relative">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="w-full px-4 py-3 bg-gray-800/50 border border-gray-700/50 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-500/50 focus:ring-1 focus:ring-blue-500/50 transition-colors"
+          placeholder="owner/repo, a repository URL, or search"
+          autoFocus
+        />
+        {searching && (
+          <div className="absolute right-3 top-1/2 -translate-y-1/2">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-400"></div>
+          </div>
+        )}
+      </form>
+
+      {searchError && (
+        <p className="mt-2 text-xs text-red-400">{searchError}</p>
+      )}
+
+      {/* Search results */}
+      {results.length > 0 && (
+        <div className="mt-3 bg-gray-900/95 backdrop-blur-md rounded-xl border border-gray-700/50 divide-y divide-gray-700/50 overflow-hidden">
+          {results.map(result => (
+            <button
+              key={result.id}
+              onClick={() => openRepo(result.owner.login, result.name)}
+              className="w-full flex items-start gap-3 p-3 text-left hover:bg-gray-800/50 transition-colors"
+            >
+              <img
+                src={result.owner.avatar_url}
+                alt={result.owner.login}
+                className="w-6 h-6 rounded-full mt-0.5"
+              />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-white font-medium truncate">{result.full_name}</p>
+                {result.description && (
+                  <p className="text-xs text-gray-400 line-clamp-2">{result.description}</p>
+                )}
+              </div>
+              <span className="text-xs text-gray-500 whitespace-nowrap">★ {result.stargazers_count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Local repositories */}
+      {localRepos.length > 0 && (
+        <div className="mt-8">
+          <h2 className="text-sm font-medium text-gray-400 mb-2">Local repositories</h2>
+          <div className="space-y-2">
+            {localRepos.map(name => (
+              <button
+                key={name}
+                onClick={() => openRepo('local', name, 'local')}
+                className="w-full p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 hover:bg-gray-700/50 hover:border-blue-500/50 transition-all duration-200 text-left text-sm text-blue-400 hover:text-blue-300 font-mono"
+              >
+                {name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Recent repositories */}
+      {recentRepos.length > 0 && (
+        <div className="mt-8">
+          <h2 className="text-sm font-medium text-gray-400 mb-2">Recent repositories</h2>
+          <div className="space-y-2">
+            {recentRepos.map(recent => (
+              <div
+                key={repoPath(recent)}
+                className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 hover:bg-gray-700/50 hover:border-blue-500/50 transition-all duration-200 group"
+              >
+                <button
+                  onClick={() => openRepo(recent.owner, recent.repo, recent.host)}
+                  className="flex-1 text-left text-sm text-blue-400 group-hover:text-blue-300 font-mono"
+                >
+                  {recent.host && <span className="text-gray-500">{recent.host}:</span>}
+                  {recent.host === 'local' ? recent.repo : `${recent.owner}/${recent.repo}`}
+                </button>
+                <button
+                  onClick={() => setRecentRepos(removeRecentRepo(recent.owner, recent.repo, recent.host))}
+                  className="text-gray-500 hover:text-white transition-colors"
+                  title="Remove from recent"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
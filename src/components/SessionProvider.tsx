@@ -0,0 +1,60 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+
+export interface SessionUser {
+  login: string;
+  avatarUrl: string;
+  scopes: string[];
+}
+
+interface SessionContextValue {
+  user: SessionUser | null;
+  loading: boolean;
+  signOut: () => Promise<void>;
+}
+
+const SessionContext = createContext<SessionContextValue>({
+  user: null,
+  loading: true,
+  signOut: async () => {}
+});
+
+export const useSession = () => useContext(SessionContext);
+
+export default function SessionProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session');
+        if (response.ok) {
+          const data = await response.json();
+          setUser(data.user);
+        }
+      } catch (error) {
+        console.error('Error fetching session:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSession();
+  }, []);
+
+  const signOut = useCallback(async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      setUser(null);
+    }
+  }, []);
+
+  return (
+    <SessionContext.Provider value={{ user, loading, signOut }}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
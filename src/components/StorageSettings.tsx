@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { StorageStats, clearAllStorage, clearRepoStorage, getStorageStats } from '../lib/store/persistentCache';
+import { StoreName } from '../lib/store/db';
+import { RepoProvider } from '../lib/providers/types';
+
+interface StorageSettingsProps {
+  provider: RepoProvider;
+  onClose: () => void;
+}
+
+const STORE_LABELS: Record<StoreName, string> = {
+  commits: 'Commit lists',
+  compares: 'Compares',
+  lists: 'Pull requests & issues',
+  http: 'HTTP responses',
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function StorageSettings({ provider, onClose }: StorageSettingsProps) {
+  const [stats, setStats] = useState<StorageStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [clearing, setClearing] = useState(false);
+
+  const refreshStats = useCallback(async () => {
+    try {
+      setError(null);
+      setStats(await getStorageStats(provider));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'IndexedDB is not available');
+    }
+  }, [provider]);
+
+  useEffect(() => {
+    refreshStats();
+  }, [refreshStats]);
+
+  const handleClear = async (clear: () => Promise<void>) => {
+    try {
+      setClearing(true);
+      await clear();
+      await refreshStats();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to clear storage');
+    } finally {
+      setClearing(false);
+    }
+  };
+
+  return (
+    <div className="absolute bottom-16 right-4 z-50 w-80 bg-gray-900/95 backdrop-blur-md rounded-xl border border-gray-700/50 p-4 shadow-2xl">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">Cached data</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {error && (
+        <p className="mb-3 text-xs text-red-400">{error}</p>
+      )}
+
+      {stats ? (
+        <>
+          <table className="w-full text-sm mb-3">
+            <thead>
+              <tr className="text-gray-500 text-xs">
+                <th className="text-left font-normal pb-1"></th>
+                <th className="text-right font-normal pb-1">This repo</th>
+                <th className="text-right font-normal pb-1">All</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(STORE_LABELS) as StoreName[]).map(name => (
+                <tr key={name} className="text-gray-300">
+                  <td className="py-0.5">{STORE_LABELS[name]}</td>
+                  <td className="text-right font-mono">{stats.repo[name]}</td>
+                  <td className="text-right font-mono text-gray-400">{stats.total[name]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {stats.usageBytes !== null && (
+            <p className="text-xs text-gray-500 mb-4">
+              Using {formatBytes(stats.usageBytes)}
+              {stats.quotaBytes !== null && ` of ${formatBytes(stats.quotaBytes)}`} in this browser
+            </p>
+          )}
+        </>
+      ) : !error && (
+        <p className="text-sm text-gray-400 mb-4">Loading...</p>
+      )}
+
+      {/* Actions */}
+      <div className="flex gap-2">
+        <button
+          onClick={() => handleClear(() => clearRepoStorage(provider))}
+          disabled={clearing}
+          className="flex-1 px-3 py-2 text-sm text-gray-300 bg-gray-800 rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+        >
+          Clear {provider.repo}
+        </button>
+        <button
+          onClick={() => handleClear(clearAllStorage)}
+          disabled={clearing}
+          className="flex-1 px-3 py-2 text-sm text-white bg-red-600 rounded-lg hover:bg-red-500 transition-colors disabled:opacity-50"
+        >
+          Clear everything
+        </button>
+      </div>
+    </div>
+  );
+}
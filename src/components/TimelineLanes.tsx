@@ -0,0 +1,157 @@
+'use client';
+
+import React from 'react';
+import { PullRequest } from '../lib/types';
+import { MotionStore } from '../lib/motion';
+import { TimelineLayout, timelineX } from '../lib/timelineLayout';
+import { useLivePositions } from '../lib/useMotion';
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+interface TimelineLanesProps {
+  timeline: TimelineLayout;
+  // Where each branch's card is now; lanes end at the card, so they follow it when it's dragged
+  positions: Record<string, Position>;
+  motion: MotionStore; // Cards being dragged or springing back
+  // Branches hidden from the canvas, whose lanes are left out too
+  hidden: Set<string>;
+  pullRequests: PullRequest[];
+  scale: number;
+  offset: Position;
+}
+
+// The timeline's axis, one lane per branch from its fork to its card, a
+// connector where each branch leaves its parent's lane, one where a merged
+// branch lands on its target's lane, and a marker for each pull request where
+// it was opened, with a dashed line to the lane it targets.
+const TimelineLanes: React.FC<TimelineLanesProps> = ({ timeline, positions: resting, motion, hidden, pullRequests, scale, offset }) => {
+  const positions = useLivePositions(motion, resting);
+  const screenX = (x: number) => x * scale + offset.x;
+  const screenY = (y: number) => y * scale + offset.y;
+  const laneY = (branch: string) => (hidden.has(branch) ? undefined : positions[branch]?.y);
+
+  return (
+    <svg
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width: '100%',
+        height: '100%',
+        pointerEvents: 'none',
+        zIndex: 1
+      }}
+    >
+      {timeline.ticks.map(tick => (
+        <g key={tick.x}>
+          <line
+            x1={screenX(tick.x)}
+            y1={0}
+            x2={screenX(tick.x)}
+            y2="100%"
+            stroke="rgba(75, 85, 99, 0.35)"
+            strokeDasharray="2 6"
+          />
+          <text x={screenX(tick.x) + 4} y="100%" dy={-72} fill="rgba(156, 163, 175, 0.8)" fontSize={11}>
+            {tick.label}
+          </text>
+        </g>
+      ))}
+
+      {timeline.lanes.map(lane => {
+        const y = laneY(lane.branch);
+        if (y === undefined) return null;
+        const parentY = lane.parent ? laneY(lane.parent) : undefined;
+        const targetY = lane.mergedInto ? laneY(lane.mergedInto) : undefined;
+        const endX = screenX(positions[lane.branch].x);
+        return (
+          <g key={lane.branch}>
+            {parentY !== undefined && (
+              <>
+                <line
+                  x1={screenX(lane.startX)}
+                  y1={screenY(parentY)}
+                  x2={screenX(lane.startX)}
+                  y2={screenY(y)}
+                  stroke="rgba(99, 102, 241, 0.5)"
+                  strokeWidth={Math.max(1, 2 * scale)}
+                />
+                <circle cx={screenX(lane.startX)} cy={screenY(parentY)} r={Math.max(2, 4 * scale)} fill="rgb(99, 102, 241)" />
+              </>
+            )}
+            <line
+              x1={screenX(lane.startX)}
+              y1={screenY(y)}
+              x2={endX}
+              y2={screenY(y)}
+              stroke="rgba(99, 102, 241, 0.8)"
+              strokeWidth={Math.max(2, 6 * scale)}
+              strokeLinecap="round"
+            />
+            {targetY !== undefined && (
+              <>
+                <line
+                  x1={endX}
+                  y1={screenY(y)}
+                  x2={endX}
+                  y2={screenY(targetY)}
+                  stroke="rgba(168, 85, 247, 0.6)"
+                  strokeWidth={Math.max(1, 2 * scale)}
+                />
+                <circle
+                  cx={endX}
+                  cy={screenY(targetY)}
+                  r={Math.max(3, 5 * scale)}
+                  fill="rgb(168, 85, 247)"
+                  stroke="rgb(17, 24, 39)"
+                  strokeWidth={2}
+                  style={{ pointerEvents: 'auto' }}
+                >
+                  <title>{`${lane.branch} merged into ${lane.mergedInto}`}</title>
+                </circle>
+              </>
+            )}
+          </g>
+        );
+      })}
+
+      {pullRequests.map(pullRequest => {
+        const headY = laneY(pullRequest.head.ref);
+        const baseY = laneY(pullRequest.base.ref);
+        if (headY === undefined || baseY === undefined) return null;
+        const x = screenX(timelineX(timeline.axis, pullRequest.createdAt));
+        const color = pullRequest.draft ? '156, 163, 175' : pullRequest.blocked ? '239, 68, 68' : '34, 197, 94';
+        return (
+          <g key={pullRequest.id}>
+            <line
+              x1={x}
+              y1={screenY(headY)}
+              x2={x}
+              y2={screenY(baseY)}
+              stroke={`rgba(${color}, 0.7)`}
+              strokeWidth={Math.max(1, 2 * scale)}
+              strokeDasharray="6 4"
+            />
+            <circle cx={x} cy={screenY(baseY)} r={Math.max(2, 4 * scale)} fill={`rgb(${color})`} />
+            <circle
+              cx={x}
+              cy={screenY(headY)}
+              r={Math.max(4, 7 * scale)}
+              fill={`rgb(${color})`}
+              stroke="rgb(17, 24, 39)"
+              strokeWidth={2}
+              style={{ pointerEvents: 'auto' }}
+            >
+              <title>{`#${pullRequest.number} ${pullRequest.title} → ${pullRequest.base.ref}`}</title>
+            </circle>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default TimelineLanes;
@@ -0,0 +1,56 @@
+// How branches and connections look, shared by the DOM and canvas renderers
+
+export const NODE_RADIUS = 8; // Base radius for nodes - much smaller for tiny glowing balls
+export const COMMIT_NODE_RADIUS = 4; // Base radius for commit nodes - also smaller
+export const MIN_SCALE_FOR_TEXT = 0.8; // Minimum scale to show text - adjusted for smaller nodes
+export const MAX_SCALE_FOR_FULL_TEXT = 2; // Scale at which text is fully visible
+export const MIN_SCALE_FOR_COMMIT_TEXT = 1.5; // Minimum scale to show commit text - adjusted
+
+// "r, g, b" strings for building rgba() colors
+export const NODE_RGB = {
+  root: '74, 222, 128',
+  child: '96, 165, 250',
+  nested: '196, 181, 253',
+  notAhead: '156, 163, 175',
+  dragTarget: '251, 146, 60',
+};
+
+// Roots, their children, and everything deeper
+export const depthRgb = (depth?: number): string =>
+  depth === 0 ? NODE_RGB.root : depth === 1 ? NODE_RGB.child : NODE_RGB.nested;
+
+export const EDGE_RGB = {
+  branch: '99, 102, 241',
+  pullRequest: '34, 197, 94',
+  draft: '156, 163, 175',
+  blocked: '239, 68, 68',
+};
+
+// "#f59e0b" -> "245, 158, 11", for building rgba() colors
+export const hexToRgb = (hex: string): string => {
+  const digits = hex.replace('#', '');
+  const full = digits.length === 3 ? digits.split('').map(digit => digit + digit).join('') : digits;
+  return [0, 2, 4].map(index => parseInt(full.substring(index, index + 2), 16)).join(', ');
+};
+
+// Labels fade in between `minScale` and MAX_SCALE_FOR_FULL_TEXT
+export const textOpacityAt = (scale: number, minScale: number): number =>
+  scale < minScale ? 0 :
+  scale > MAX_SCALE_FOR_FULL_TEXT ? 1 :
+  (scale - minScale) / (MAX_SCALE_FOR_FULL_TEXT - minScale);
+
+// Level of detail: decorations on a connection appear once it's long enough on screen to hold them
+export const MIN_SCALE_FOR_GLOW = 0.4; // Below this the blurred glow under connections is left out
+export const MIN_EDGE_LENGTH_FOR_PULSES = 40;
+export const MIN_EDGE_LENGTH_FOR_COMMIT_COUNT = 64;
+export const MIN_EDGE_LENGTH_FOR_PR_BADGE = 96; // The badge is 80px wide
+
+export const edgeDetail = (length: number, scale: number) => ({
+  glow: scale >= MIN_SCALE_FOR_GLOW,
+  pulses: length >= MIN_EDGE_LENGTH_FOR_PULSES,
+  commitCount: length >= MIN_EDGE_LENGTH_FOR_COMMIT_COUNT,
+  pullRequestBadge: length >= MIN_EDGE_LENGTH_FOR_PR_BADGE,
+});
+
+// Screen radius of a collapsed subtree's blob; grows with the branches in it
+export const clusterRadius = (count: number): number => Math.min(10 + 3 * Math.sqrt(count), 32);
@@ -0,0 +1,216 @@
+import { Branch, BranchConnection, BranchTree, Commit, ParentHints } from './types';
+import { BranchHistories, RepoProvider } from './providers/types';
+import { CommitGraph, createCommitGraph, inferBranchParents, loadCommitGraph } from './commitGraph';
+import { DEFAULT_BRANCH_RULES, matchesPattern, pinnedRoots, withoutIgnored } from './repoConfig';
+
+// Set parent, depth and children on each branch from a child -> parent map and
+// return the child -> parent connections. Branches without a known parent hang
+// off the default branch; roots (the default branch and pinned ones) have none.
+export const linkBranchTree = (
+  branches: Branch[],
+  defaultBranch: string,
+  branchRelationships: Map<string, string>,
+  roots: Set<string> = new Set([defaultBranch])
+): BranchConnection[] => {
+  const branchMap = new Map(branches.map(branch => [branch.name, branch]));
+  const connections: BranchConnection[] = [];
+
+  branches.forEach(branch => {
+    if (roots.has(branch.name)) {
+      branch.depth = 0;
+      return;
+    }
+    
+    const parent = branchRelationships.get(branch.name) || defaultBranch;
+    branch.parent = parent;
+    
+    // Calculate depth
+    let depth = 1;
+    let currentParent: string | undefined = parent;
+    const visited = new Set<string>(); // Prevent infinite loops
+    
+    while (currentParent && !roots.has(currentParent) && !visited.has(currentParent)) {
+      visited.add(currentParent);
+      depth++;
+      currentParent = branchRelationships.get(currentParent);
+    }
+    branch.depth = Math.min(depth, 5); // Cap depth at 5 for visualization
+    
+    // Get commit count for this connection (will be calculated later when commits are fetched)
+    connections.push({ 
+      from: branch.name,  // Changed: from child
+      to: parent,         // Changed: to parent
+      commitCount: 0 // Will be updated when commits are fetched
+    });
+    
+    // Update parent's children
+    const parentBranch = branchMap.get(parent);
+    if (parentBranch) {
+      parentBranch.children = parentBranch.children || [];
+      parentBranch.children.push(branch.name);
+    }
+  });
+
+  return connections;
+};
+
+// Date each branch's tip and fork point from the commit dates a load saw
+export const setBranchDates = (branches: Branch[], commitDates: Map<string, string>) => {
+  branches.forEach(branch => {
+    branch.lastCommitDate = commitDates.get(branch.commit.sha);
+    const forkPoint = branch.parentage?.forkPoint ?? branch.parentage?.mergeBase;
+    branch.forkDate = forkPoint ? commitDates.get(forkPoint) : undefined;
+  });
+};
+
+// Infer each branch's parent from the commit graph, then link the tree and date it
+const placeInGraph = (
+  graph: CommitGraph,
+  branchMap: Map<string, Branch>,
+  defaultBranch: string,
+  hints: ParentHints,
+  roots: Set<string>,
+  commitDates: Map<string, string>,
+  aheadOfDefault: Record<string, number> = {}
+): BranchConnection[] => {
+  const branches = Array.from(branchMap.values());
+  const parentage = inferBranchParents(graph, branches, defaultBranch, hints);
+
+  const branchRelationships = new Map<string, string>(); // child -> parent
+  parentage.forEach((placement, name) => {
+    const branch = branchMap.get(name)!;
+    branchRelationships.set(name, placement.parent);
+    branch.parentage = placement;
+    // A compare against the default branch is exact; the graph only knows the loaded history
+    branch.aheadBy = placement.parent === defaultBranch && name in aheadOfDefault
+      ? aheadOfDefault[name]
+      : placement.aheadBy;
+  });
+
+  const connections = linkBranchTree(branches, defaultBranch, branchRelationships, roots);
+  setBranchDates(branches, commitDates);
+  return connections;
+};
+
+// The tree for history a bulk loader already fetched (GitHub's GraphQL
+// loader), placed the same way calculateBranchTree places it over REST
+export const buildBranchTree = (
+  { branches, defaultBranch, commits, aheadOfDefault }: BranchHistories,
+  hints: ParentHints = {}
+): BranchTree => {
+  const branchMap = new Map<string, Branch>(branches.map(branch => [branch.name, { ...branch, children: [] }]));
+
+  // Roots are always considered ahead
+  const roots = pinnedRoots(hints.config, Array.from(branchMap.keys()), defaultBranch);
+  roots.forEach(name => {
+    branchMap.get(name)!.aheadBy = 1;
+  });
+
+  const commitDates = new Map<string, string>();
+  commits.forEach(commit => {
+    if (commit.date) commitDates.set(commit.sha, commit.date);
+  });
+  const connections = placeInGraph(
+    createCommitGraph(commits),
+    branchMap,
+    defaultBranch,
+    hints,
+    roots,
+    commitDates,
+    aheadOfDefault
+  );
+  return { branches: Array.from(branchMap.values()), connections };
+};
+
+// Commits on a branch that none of its ancestors have, newest first
+export const uniqueCommits = (commits: Commit[], ancestorCommits: Commit[][]): Commit[] => {
+  const excluded = new Set(ancestorCommits.flatMap(list => list.map(commit => commit.sha)));
+  return commits
+    .filter(commit => !excluded.has(commit.sha))
+    .sort((a, b) => new Date(b.author.date).getTime() - new Date(a.author.date).getTime());
+};
+
+// Place branches by building their commit graph: each branch's parent is the
+// branch its own history forks from (see commitGraph.ts). The config in
+// `hints` drops ignored branches, pins roots and applies its branch rules.
+export const calculateBranchTree = async (
+  branches: Branch[],
+  provider: Pick<RepoProvider, 'listCommits'>,
+  defaultBranch: string,
+  hints: ParentHints = {}
+): Promise<BranchTree> => {
+  const branchMap = new Map<string, Branch>();
+  let connections: BranchConnection[] = [];
+  
+  // Initialize branch map
+  withoutIgnored(hints.config, branches, defaultBranch).forEach(branch => {
+    branchMap.set(branch.name, { ...branch, children: [] });
+  });
+
+  // Roots are always considered ahead
+  const roots = pinnedRoots(hints.config, Array.from(branchMap.keys()), defaultBranch);
+  roots.forEach(name => {
+    branchMap.get(name)!.aheadBy = 1;
+  });
+
+  const updatedBranches = Array.from(branchMap.values());
+
+  try {
+    // Commit dates are kept on the side for the timeline layout
+    const commitDates = new Map<string, string>();
+    const graph = await loadCommitGraph(updatedBranches, {
+      listCommits: async (sha, perPage) => {
+        const commits = await provider.listCommits(sha, perPage);
+        commits.forEach(commit => commitDates.set(commit.sha, commit.author.date));
+        return commits;
+      },
+    }, defaultBranch);
+    connections = placeInGraph(graph, branchMap, defaultBranch, hints, roots, commitDates);
+  } catch (error) {
+    console.error('Error analyzing branch relationships:', error);
+    
+    // Fallback: the branch rules (git-flow names without a config) pick the
+    // parent from the name alone
+    const rules = hints.config?.branches.length ? hints.config.branches : DEFAULT_BRANCH_RULES;
+    const branchRelationships = new Map<string, string>(); // child -> parent
+
+    updatedBranches.forEach(branch => {
+      if (roots.has(branch.name)) return;
+      
+      let parent = defaultBranch;
+      let pattern: string | undefined;
+      
+      const rule = rules.find(candidate => matchesPattern(candidate.pattern, branch.name));
+      const ruleParent = rule?.parent &&
+        updatedBranches.find(other => other.name !== branch.name && matchesPattern(rule.parent!, other.name));
+      if (ruleParent) {
+        parent = ruleParent.name;
+        pattern = rule.pattern;
+      }
+
+      // Overrides don't need any history
+      const override = hints.overrides?.[branch.name];
+      if (override && override !== branch.name && branchMap.has(override)) {
+        parent = override;
+      }
+      
+      branchRelationships.set(branch.name, parent);
+      branch.aheadBy = 1; // Default to 1 in fallback
+      branch.parentage = {
+        parent,
+        reason: parent === override ? 'override' : pattern ? 'pattern' : 'default',
+        forkPoint: null,
+        mergeBase: null,
+        aheadBy: 0,
+        behindBy: 0,
+        merged: false,
+        truncated: true,
+        pattern,
+      };
+    });
+
+    connections = linkBranchTree(updatedBranches, defaultBranch, branchRelationships, roots);
+  }
+
+  return { branches: updatedBranches, connections };
+};
@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ancestry,
+  createCommitGraph,
+  firstParentChain,
+  inferBranchParents,
+  loadCommitGraph,
+  mergeBase,
+} from './commitGraph';
+import { BranchHead, Commit } from './types';
+
+// Histories are written child first: { sha: parents }
+const graphOf = (history: Record<string, string[]>) =>
+  createCommitGraph(Object.entries(history).map(([sha, parents]) => ({ sha, parents })));
+
+const branch = (name: string, sha: string): BranchHead => ({
+  name,
+  commit: { sha, url: '' },
+  protected: false,
+});
+
+const commit = (sha: string, parents: string[]): Commit => ({
+  sha,
+  message: sha,
+  author: { name: 'someone', date: '2024-01-01T00:00:00Z' },
+  parents,
+});
+
+describe('firstParentChain', () => {
+  it('follows first parents from the tip', () => {
+    const graph = graphOf({ m: ['c', 'f'], c: ['b'], f: ['b'], b: ['a'], a: [] });
+    expect(firstParentChain(graph, 'm')).toEqual(['m', 'c', 'b', 'a']);
+  });
+
+  it('stops where the loaded history ends', () => {
+    const graph = graphOf({ c: ['b'], b: ['a'] });
+    expect(firstParentChain(graph, 'c')).toEqual(['c', 'b']);
+  });
+
+  it('is empty for an unknown tip', () => {
+    expect(firstParentChain(graphOf({ a: [] }), 'z')).toEqual([]);
+  });
+});
+
+describe('mergeBase', () => {
+  const baseOf = (graph: ReturnType<typeof graphOf>, left: string, right: string) =>
+    mergeBase(graph, ancestry(graph, left), ancestry(graph, right));
+
+  it('finds where two branches forked', () => {
+    const graph = graphOf({ d: ['c'], c: ['b'], f2: ['f1'], f1: ['b'], b: ['a'], a: [] });
+    expect(baseOf(graph, 'd', 'f2')).toBe('b');
+  });
+
+  it('is the older tip when one branch contains the other', () => {
+    const graph = graphOf({ c: ['b'], b: ['a'], a: [] });
+    expect(baseOf(graph, 'c', 'b')).toBe('b');
+    expect(baseOf(graph, 'b', 'c')).toBe('b');
+  });
+
+  it('moves forward after a merge', () => {
+    const graph = graphOf({ m: ['c', 'f1'], c: ['b'], f2: ['f1'], f1: ['b'], b: ['a'], a: [] });
+    expect(baseOf(graph, 'm', 'f2')).toBe('f1');
+  });
+
+  it('picks one best ancestor of a criss-cross merge', () => {
+    const graph = graphOf({
+      x: ['l', 'r'], y: ['r', 'l'], l: ['a'], r: ['a'], a: [],
+    });
+    // Both l and r are best; they tie on distance so the sha decides
+    expect(baseOf(graph, 'x', 'y')).toBe('l');
+  });
+
+  it('is null without a common ancestor', () => {
+    const graph = graphOf({ a: [], b: [] });
+    expect(baseOf(graph, 'a', 'b')).toBeNull();
+  });
+});
+
+describe('inferBranchParents', () => {
+  it('hangs a fast-forward branch off the tip it grew from', () => {
+    const graph = graphOf({ f2: ['f1'], f1: ['c'], c: ['b'], b: ['a'], a: [] });
+    const parents = inferBranchParents(graph, [branch('main', 'c'), branch('feature', 'f2')], 'main');
+
+    expect(parents.get('feature')).toMatchObject({
+      parent: 'main',
+      reason: 'fork-point',
+      forkPoint: 'c',
+      mergeBase: 'c',
+      aheadBy: 2,
+      behindBy: 0,
+      merged: false,
+    });
+    expect(parents.has('main')).toBe(false);
+  });
+
+  it('marks a branch merged into its parent', () => {
+    const graph = graphOf({ m: ['c', 'f2'], c: ['b'], f2: ['f1'], f1: ['b'], b: ['a'], a: [] });
+    const parents = inferBranchParents(graph, [branch('main', 'm'), branch('feature', 'f2')], 'main');
+
+    expect(parents.get('feature')).toMatchObject({
+      parent: 'main',
+      reason: 'merged',
+      forkPoint: 'f2',
+      aheadBy: 0,
+      merged: true,
+    });
+  });
+
+  it('places diverged branches at their fork points', () => {
+    const graph = graphOf({
+      d: ['c'], c: ['b'], b: ['a'], a: [],
+      f2: ['f1'], f1: ['b'],
+      s1: ['f1'],
+    });
+    const parents = inferBranchParents(
+      graph,
+      [branch('main', 'd'), branch('feature', 'f2'), branch('sub', 's1')],
+      'main'
+    );
+
+    expect(parents.get('feature')).toMatchObject({
+      parent: 'main',
+      reason: 'fork-point',
+      forkPoint: 'b',
+      aheadBy: 2,
+      behindBy: 2,
+    });
+    expect(parents.get('sub')).toMatchObject({
+      parent: 'feature',
+      reason: 'fork-point',
+      forkPoint: 'f1',
+      aheadBy: 1,
+      behindBy: 1,
+    });
+  });
+
+  it('falls back to the default branch when the history runs out', () => {
+    const graph = graphOf({ f1: ['x'], d: ['c'] });
+    const parents = inferBranchParents(graph, [branch('main', 'd'), branch('feature', 'f1')], 'main');
+
+    expect(parents.get('feature')).toMatchObject({ parent: 'main', reason: 'default', truncated: true });
+  });
+
+  it('gives the same answer whatever order branches come in', () => {
+    const graph = graphOf({ d: ['c'], c: ['b'], b: ['a'], a: [], f1: ['b'], g1: ['b'] });
+    const branches = [branch('main', 'd'), branch('feature', 'f1'), branch('other', 'g1')];
+    expect(inferBranchParents(graph, [...branches].reverse(), 'main'))
+      .toEqual(inferBranchParents(graph, branches, 'main'));
+  });
+});
+
+describe('loadCommitGraph', () => {
+  // A linear history of `length` commits named prefix0 (oldest) .. prefixN, starting from `from`
+  const line = (prefix: string, length: number, from: string | null) => {
+    const commits: Commit[] = [];
+    let parent = from;
+    for (let i = 0; i < length; i++) {
+      commits.push(commit(`${prefix}${i}`, parent ? [parent] : []));
+      parent = `${prefix}${i}`;
+    }
+    return commits;
+  };
+
+  // Serves `depth` commits along first parents, the way the providers page through history
+  const providerFor = (commits: Commit[]) => {
+    const bySha = new Map(commits.map(c => [c.sha, c]));
+    const calls: string[] = [];
+    return {
+      calls,
+      listCommits: async (sha: string, perPage = 100) => {
+        calls.push(sha);
+        const page: Commit[] = [];
+        for (let current = bySha.get(sha); current && page.length < perPage; current = bySha.get(current.parents?.[0] ?? '')) {
+          page.push(current);
+        }
+        return page;
+      },
+    };
+  };
+
+  it('fetches one page per branch when the branches already meet', async () => {
+    const main = line('m', 5, null);
+    const feature = line('f', 2, 'm2');
+    const provider = providerFor([...main, ...feature]);
+
+    const graph = await loadCommitGraph([branch('main', 'm4'), branch('feature', 'f1')], provider, 'main', 5);
+
+    expect(provider.calls).toEqual(['m4', 'f1']);
+    expect(firstParentChain(graph, 'f1')).toEqual(['f1', 'f0', 'm2', 'm1', 'm0']);
+  });
+
+  it('extends a branch and the default branch until they meet', async () => {
+    const main = line('m', 10, null);
+    const feature = line('f', 4, 'm3');
+    const provider = providerFor([...main, ...feature]);
+
+    const graph = await loadCommitGraph([branch('main', 'm9'), branch('feature', 'f3')], provider, 'main', 3);
+
+    // Round one loads m9..m7 and f3..f1, round two f0..m2 and m6..m4, and they meet at m3
+    expect(provider.calls).toEqual(['m9', 'f3', 'f0', 'm6']);
+    const parents = inferBranchParents(graph, [branch('main', 'm9'), branch('feature', 'f3')], 'main');
+    expect(parents.get('feature')).toMatchObject({ parent: 'main', forkPoint: 'm3', truncated: false });
+  });
+
+  it('gives up after a fixed number of rounds', async () => {
+    const main = line('m', 40, null);
+    const feature = line('f', 30, 'm0');
+    const provider = providerFor([...main, ...feature]);
+
+    await loadCommitGraph([branch('main', 'm39'), branch('feature', 'f29')], provider, 'main', 2);
+
+    // The first round plus three extensions of both branches
+    expect(provider.calls).toHaveLength(8);
+  });
+
+  it('stops when a branch reaches the root commit', async () => {
+    const provider = providerFor([...line('m', 3, null), ...line('o', 2, null)]);
+
+    await loadCommitGraph([branch('main', 'm2'), branch('orphan', 'o1')], provider, 'main', 5);
+
+    expect(provider.calls).toEqual(['m2', 'o1']);
+  });
+});
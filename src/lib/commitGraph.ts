@@ -0,0 +1,319 @@
+import { BranchHead, Commit, ParentCandidate, ParentHints, ParentReason, Parentage } from './types';
+import { RepoProvider } from './providers/types';
+import { findBranchRule, matchesPattern, pinnedRoots } from './repoConfig';
+
+// Commits fetched per request when filling in the graph, and how many times a
+// branch's history is extended before giving up on finding where it forked
+export const HISTORY_DEPTH = 100;
+const MAX_HISTORY_ROUNDS = 4;
+
+// An in-memory commit DAG: sha -> parent shas. Commits whose parents were never
+// fetched are the edge of the known history.
+export type CommitGraph = Map<string, string[]>;
+
+export const createCommitGraph = (commits: Array<Pick<Commit, 'sha' | 'parents'>> = []): CommitGraph => {
+  const graph: CommitGraph = new Map();
+  addCommits(graph, commits);
+  return graph;
+};
+
+export const addCommits = (graph: CommitGraph, commits: Array<Pick<Commit, 'sha' | 'parents'>>) => {
+  commits.forEach(commit => graph.set(commit.sha, commit.parents || []));
+};
+
+// Every loaded commit reachable from a tip, with its shortest distance from the tip
+export const ancestry = (graph: CommitGraph, tip: string): Map<string, number> => {
+  const distances = new Map<string, number>();
+  if (!graph.has(tip)) return distances;
+
+  distances.set(tip, 0);
+  const queue = [tip];
+  for (let i = 0; i < queue.length; i++) {
+    const sha = queue[i];
+    const distance = distances.get(sha)!;
+    (graph.get(sha) || []).forEach(parent => {
+      if (graph.has(parent) && !distances.has(parent)) {
+        distances.set(parent, distance + 1);
+        queue.push(parent);
+      }
+    });
+  }
+  return distances;
+};
+
+// The tip followed by each commit's first parent: the commits made on the branch itself
+export const firstParentChain = (graph: CommitGraph, tip: string): string[] => {
+  const chain: string[] = [];
+  const seen = new Set<string>();
+  let sha: string | undefined = tip;
+  while (sha && graph.has(sha) && !seen.has(sha)) {
+    seen.add(sha);
+    chain.push(sha);
+    sha = graph.get(sha)![0];
+  }
+  return chain;
+};
+
+// Best common ancestors of two tips: common ancestors that aren't ancestors of
+// another common ancestor. Several only happen with criss-cross merges; the one
+// closest to `head` (then `base`, then by sha) is returned.
+export const mergeBase = (
+  graph: CommitGraph,
+  base: Map<string, number>,
+  head: Map<string, number>
+): string | null => {
+  const common = Array.from(head.keys()).filter(sha => base.has(sha));
+  if (common.length === 0) return null;
+
+  // Anything reachable from a common ancestor's parents is stale
+  const stale = new Set<string>();
+  const queue = common.flatMap(sha => graph.get(sha) || []);
+  for (let i = 0; i < queue.length; i++) {
+    const sha = queue[i];
+    if (stale.has(sha) || !graph.has(sha)) continue;
+    stale.add(sha);
+    queue.push(...graph.get(sha)!);
+  }
+
+  const best = common.filter(sha => !stale.has(sha));
+  best.sort((a, b) =>
+    head.get(a)! - head.get(b)! || base.get(a)! - base.get(b)! || a.localeCompare(b)
+  );
+  return best[0] ?? null;
+};
+
+interface BranchHistory {
+  name: string;
+  tip: string;
+  ancestors: Map<string, number>;
+  chain: string[];
+  chainIndex: Map<string, number>;
+}
+
+const countMissing = (from: Map<string, number>, other: Map<string, number>) => {
+  let count = 0;
+  from.forEach((_, sha) => {
+    if (!other.has(sha)) count++;
+  });
+  return count;
+};
+
+// Among branches containing a commit, prefer the one the commit was made on,
+// then the one whose tip is closest to it, then the default branch, then by name
+const rankCandidates = (sha: string, candidates: BranchHistory[], defaultBranch: string): ParentCandidate[] =>
+  candidates
+    .map(candidate => ({
+      name: candidate.name,
+      onChain: candidate.chainIndex.has(sha),
+      distance: candidate.chainIndex.get(sha) ?? candidate.ancestors.get(sha)!,
+    }))
+    .sort((a, b) =>
+      Number(b.onChain) - Number(a.onChain) ||
+      a.distance - b.distance ||
+      Number(b.name === defaultBranch) - Number(a.name === defaultBranch) ||
+      a.name.localeCompare(b.name)
+    );
+
+// Assign every branch but the roots (the default branch and any the config
+// pins) a parent from the commit graph, unless an override, branch rule or
+// saved relationship names one. Deterministic for a given graph, branch list
+// and set of hints.
+export const inferBranchParents = (
+  graph: CommitGraph,
+  branches: BranchHead[],
+  defaultBranch: string,
+  { overrides = {}, saved = {}, config }: ParentHints = {}
+): Map<string, Parentage> => {
+  const sorted = [...branches].sort((a, b) => a.name.localeCompare(b.name));
+  const histories = new Map<string, BranchHistory>(sorted.map(branch => {
+    const chain = firstParentChain(graph, branch.commit.sha);
+    return [branch.name, {
+      name: branch.name,
+      tip: branch.commit.sha,
+      ancestors: ancestry(graph, branch.commit.sha),
+      chain,
+      chainIndex: new Map(chain.map((sha, index) => [sha, index])),
+    }];
+  }));
+  const root = histories.get(defaultBranch);
+  const roots = pinnedRoots(config, sorted.map(branch => branch.name), defaultBranch);
+
+  // Branches whose tip is already in the default branch don't act as parents
+  const mergedIntoDefault = new Set(
+    sorted
+      .filter(branch => branch.name !== defaultBranch && root?.ancestors.has(branch.commit.sha))
+      .map(branch => branch.name)
+  );
+
+  const describe = (
+    history: BranchHistory,
+    parentName: string,
+    reason: ParentReason,
+    forkPoint: string | null,
+    merged = false
+  ): Parentage => {
+    const parent = histories.get(parentName);
+    const parentAncestors = parent?.ancestors || new Map<string, number>();
+    return {
+      parent: parentName,
+      reason,
+      forkPoint: forkPoint ?? history.chain.find(sha => parentAncestors.has(sha)) ?? null,
+      mergeBase: mergeBase(graph, parentAncestors, history.ancestors),
+      aheadBy: countMissing(history.ancestors, parentAncestors),
+      behindBy: countMissing(parentAncestors, history.ancestors),
+      merged,
+      truncated: false,
+    };
+  };
+
+  // With `allowed`, only those branches can be the parent, and null comes back when none of them fits
+  const infer = (history: BranchHistory, allowed?: Set<string>): Parentage | null => {
+    const isAllowed = (other: BranchHistory) => !allowed || allowed.has(other.name);
+
+    // Identical tips: the later name hangs off the earlier one (the default branch counts as earliest)
+    const twin = root && root.name !== history.name && root.tip === history.tip && isAllowed(root)
+      ? root
+      : Array.from(histories.values()).find(other =>
+        other.tip === history.tip && other.name < history.name && isAllowed(other)
+      );
+    if (twin) {
+      return describe(history, twin.name, 'same-tip', history.tip, mergedIntoDefault.has(history.name));
+    }
+
+    const candidates = Array.from(histories.values()).filter(other =>
+      other.name !== history.name &&
+      isAllowed(other) &&
+      (other.name === defaultBranch || !mergedIntoDefault.has(other.name)) &&
+      // A branch whose own commits run through this tip grew out of this branch, so it's a child.
+      // The default branch never has a parent, so it can't be one.
+      (other.name === defaultBranch || !other.chainIndex.has(history.tip))
+    );
+
+    // Tip reachable from another branch (through a merge, or already behind the default branch)
+    const mergedInto = candidates.filter(other => other.ancestors.has(history.tip));
+    if (mergedInto.length > 0) {
+      const parent = mergedInto.find(other => other.name === defaultBranch) || mergedInto[0];
+      return describe(history, parent.name, 'merged', history.tip, true);
+    }
+
+    // Walk the branch's own commits back to the first one another branch also has.
+    // When the commit is on both branches' own chains they forked from each other
+    // there, and the one with fewer commits since (then the earlier name) is the parent.
+    // The default branch has no parent, so it can always be the parent.
+    for (const [index, sha] of history.chain.entries()) {
+      const containing = candidates.filter(other => {
+        if (!other.ancestors.has(sha)) return false;
+        const otherIndex = other.chainIndex.get(sha);
+        return other.name === defaultBranch || otherIndex === undefined || otherIndex < index ||
+          (otherIndex === index && other.name < history.name);
+      });
+      if (containing.length > 0) {
+        const ranked = rankCandidates(sha, containing, defaultBranch);
+        return { ...describe(history, ranked[0].name, 'fork-point', sha), candidates: ranked };
+      }
+    }
+
+    return allowed ? null : { ...describe(history, defaultBranch, 'default', null), truncated: true };
+  };
+
+  // A rule's parent pattern can match several branches; the commit graph picks
+  // among them, and when it can't, the default branch (then the first by name) does
+  const placeByRule = (history: BranchHistory): Parentage | null => {
+    const rule = findBranchRule(config, history.name);
+    if (!rule?.parent) return null;
+
+    const allowed = sorted
+      .map(branch => branch.name)
+      .filter(name => name !== history.name && matchesPattern(rule.parent!, name));
+    if (allowed.length === 0) return null;
+
+    const placed = infer(history, new Set(allowed))
+      ?? describe(history, allowed.includes(defaultBranch) ? defaultBranch : allowed[0], 'rule', null);
+    return { ...placed, reason: 'rule', pattern: rule.pattern };
+  };
+
+  const choose = (history: BranchHistory): Parentage => {
+    const inferred = infer(history)!; // Unrestricted, it always finds a parent
+    const override = overrides[history.name];
+    if (override && override !== history.name && histories.has(override)) {
+      return { ...describe(history, override, 'override', null), inferred };
+    }
+
+    const ruled = placeByRule(history);
+    if (ruled) {
+      return ruled.parent === inferred.parent ? ruled : { ...ruled, inferred };
+    }
+
+    const remembered = saved[history.name];
+    if (!remembered || remembered === history.name || remembered === inferred.parent || !histories.has(remembered)) {
+      return inferred;
+    }
+    return { ...describe(history, remembered, 'saved', null), inferred };
+  };
+
+  const parentage = new Map<string, Parentage>();
+  sorted.forEach(branch => {
+    if (!roots.has(branch.name)) {
+      parentage.set(branch.name, choose(histories.get(branch.name)!));
+    }
+  });
+
+  // Hinted relationships can loop; break any cycle by re-hanging the branch on the default branch
+  sorted.forEach(branch => {
+    const seen = new Set<string>([branch.name]);
+    let current = parentage.get(branch.name)?.parent;
+    while (current && !roots.has(current)) {
+      if (seen.has(current)) {
+        parentage.set(branch.name, describe(histories.get(branch.name)!, defaultBranch, 'default', null));
+        return;
+      }
+      seen.add(current);
+      current = parentage.get(current)?.parent;
+    }
+  });
+
+  return parentage;
+};
+
+// Fetch enough history to place every branch: HISTORY_DEPTH commits from each
+// tip, then more for any branch whose own commits haven't run into another
+// branch's history yet (and for the default branch alongside them, so the two can meet)
+export const loadCommitGraph = async (
+  branches: BranchHead[],
+  provider: Pick<RepoProvider, 'listCommits'>,
+  defaultBranch: string,
+  depth = HISTORY_DEPTH
+): Promise<CommitGraph> => {
+  const graph = createCommitGraph();
+  const fetchHistory = async (from: string) => addCommits(graph, await provider.listCommits(from, depth));
+
+  await Promise.all(branches.map(branch => fetchHistory(branch.commit.sha)));
+
+  for (let round = 1; round < MAX_HISTORY_ROUNDS; round++) {
+    // How many branch tips reach each loaded commit
+    const reachedBy = new Map<string, number>();
+    branches.forEach(branch => ancestry(graph, branch.commit.sha).forEach((_, sha) => {
+      reachedBy.set(sha, (reachedBy.get(sha) || 0) + 1);
+    }));
+
+    // The first parent past the end of a chain, unless the chain stops at the root commit
+    const nextCommit = (branch: BranchHead) => {
+      const chain = firstParentChain(graph, branch.commit.sha);
+      const next = graph.get(chain[chain.length - 1])?.[0];
+      return next && !graph.has(next) ? next : null;
+    };
+
+    const unplaced = branches.filter(branch =>
+      branch.name !== defaultBranch &&
+      !firstParentChain(graph, branch.commit.sha).some(sha => (reachedBy.get(sha) || 0) > 1)
+    );
+    const extend = [...unplaced, ...branches.filter(branch => unplaced.length > 0 && branch.name === defaultBranch)]
+      .map(nextCommit)
+      .filter((sha): sha is string => sha !== null);
+    if (extend.length === 0) break;
+
+    await Promise.all(Array.from(new Set(extend)).map(fetchHistory));
+  }
+
+  return graph;
+};
@@ -0,0 +1,63 @@
+import { Issue, PullRequest } from './types';
+import { GitHubIssue, GitHubPullRequest } from './github/types';
+import { toIssue, toPullRequest } from './github/mappers';
+
+// Repository events pushed to the canvas over server-sent events. Webhook
+// deliveries are mapped into the internal model so the browser never sees raw payloads.
+export type RepoEvent =
+  | { type: 'push'; repo: string; branch: string; sha: string }
+  | { type: 'branch-created'; repo: string; branch: string }
+  | { type: 'branch-deleted'; repo: string; branch: string }
+  | { type: 'pull-request'; repo: string; action: string; pullRequest: PullRequest }
+  | { type: 'issue'; repo: string; action: string; issue: Issue };
+
+// Events the webhook route understands; everything else is acknowledged and dropped
+export const SUPPORTED_WEBHOOK_EVENTS = ['push', 'create', 'delete', 'pull_request', 'issues'];
+
+const BRANCH_REF_PREFIX = 'refs/heads/';
+
+// Lowercased owner/repo, used to route events to the canvases watching that repo
+export const repoChannel = (fullName: string) => fullName.toLowerCase();
+
+interface WebhookPayload {
+  action?: string;
+  ref?: string;
+  ref_type?: string;
+  after?: string;
+  deleted?: boolean;
+  created?: boolean;
+  repository?: { full_name: string };
+  pull_request?: GitHubPullRequest;
+  issue?: GitHubIssue;
+}
+
+// Turn a webhook delivery into the event the canvas cares about, or null if it doesn't
+export const toRepoEvent = (eventName: string, payload: WebhookPayload): RepoEvent | null => {
+  const repo = payload.repository?.full_name;
+  if (!repo) return null;
+
+  switch (eventName) {
+    case 'push': {
+      if (!payload.ref?.startsWith(BRANCH_REF_PREFIX)) return null;
+      const branch = payload.ref.slice(BRANCH_REF_PREFIX.length);
+      if (payload.deleted) return { type: 'branch-deleted', repo, branch };
+      if (payload.created) return { type: 'branch-created', repo, branch };
+      return payload.after ? { type: 'push', repo, branch, sha: payload.after } : null;
+    }
+    case 'create':
+      return payload.ref_type === 'branch' && payload.ref ? { type: 'branch-created', repo, branch: payload.ref } : null;
+    case 'delete':
+      return payload.ref_type === 'branch' && payload.ref ? { type: 'branch-deleted', repo, branch: payload.ref } : null;
+    case 'pull_request':
+      return payload.pull_request && payload.action
+        ? { type: 'pull-request', repo, action: payload.action, pullRequest: toPullRequest(payload.pull_request) }
+        : null;
+    case 'issues':
+      // Pull requests are issues too on GitHub; they arrive as pull_request events instead
+      return payload.issue && payload.action && !payload.issue.pull_request
+        ? { type: 'issue', repo, action: payload.action, issue: toIssue(payload.issue) }
+        : null;
+    default:
+      return null;
+  }
+};
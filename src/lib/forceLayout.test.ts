@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { ALPHA_DECAY, ALPHA_MIN, DEFAULT_FORCE_SETTINGS, ForceBody, stepForces } from './forceLayout';
+
+const body = (x: number, y: number): ForceBody => ({ position: { x, y }, velocity: { x: 0, y: 0 } });
+
+// A small graph with some nodes packed together, so every force has something to do
+const graph = () => ({
+  bodies: {
+    main: body(0, 0),
+    a: body(10, 0),
+    b: body(0, 10),
+    c: body(400, 300),
+    d: body(-200, 50),
+  },
+  edges: [{ from: 'a', to: 'main' }, { from: 'b', to: 'main' }, { from: 'c', to: 'a' }],
+});
+
+const finite = (bodies: Record<string, ForceBody>) =>
+  Object.values(bodies).every(({ position, velocity }) =>
+    [position.x, position.y, velocity.x, velocity.y].every(Number.isFinite)
+  );
+
+describe('stepForces', () => {
+  it('moves free bodies and cools alpha', () => {
+    const { bodies, edges } = graph();
+
+    const alpha = stepForces(bodies, edges, () => false, DEFAULT_FORCE_SETTINGS, 1, 40);
+
+    expect(alpha).toBe(ALPHA_DECAY);
+    expect(bodies.a.position).not.toEqual({ x: 10, y: 0 });
+  });
+
+  it('never moves fixed bodies', () => {
+    const { bodies, edges } = graph();
+
+    for (let alpha = 1; alpha >= ALPHA_MIN;) {
+      alpha = stepForces(bodies, edges, id => id === 'main' || id === 'c', DEFAULT_FORCE_SETTINGS, alpha, 40);
+    }
+
+    expect(bodies.main).toEqual(body(0, 0));
+    expect(bodies.c).toEqual(body(400, 300));
+    expect(Math.hypot(bodies.a.position.x, bodies.a.position.y)).toBeGreaterThanOrEqual(80 - 1e-9);
+  });
+
+  it('stops once alpha is below the minimum', () => {
+    const { bodies, edges } = graph();
+    let alpha = 1;
+    let frames = 0;
+    while (alpha >= ALPHA_MIN) {
+      alpha = stepForces(bodies, edges, () => false, DEFAULT_FORCE_SETTINGS, alpha, 40);
+      frames++;
+    }
+    const settled = JSON.parse(JSON.stringify(bodies));
+
+    expect(frames).toBe(Math.ceil(Math.log(ALPHA_MIN) / Math.log(ALPHA_DECAY)));
+    expect(stepForces(bodies, edges, () => false, DEFAULT_FORCE_SETTINGS, alpha, 40)).toBe(alpha);
+    expect(bodies).toEqual(settled);
+  });
+
+  it('separates bodies at the same position without going NaN', () => {
+    const bodies = { a: body(50, 50), b: body(50, 50), c: body(50, 50) };
+
+    stepForces(bodies, [{ from: 'a', to: 'b' }], () => false, DEFAULT_FORCE_SETTINGS, 1, 40);
+
+    expect(finite(bodies)).toBe(true);
+    expect(Math.hypot(bodies.a.position.x - bodies.b.position.x, bodies.a.position.y - bodies.b.position.y))
+      .toBeGreaterThan(0);
+  });
+
+  it('gives the same result for the same input', () => {
+    const first = graph();
+    const second = graph();
+
+    let alpha = 1;
+    for (let frame = 0; frame < 50; frame++) {
+      stepForces(first.bodies, first.edges, () => false, DEFAULT_FORCE_SETTINGS, alpha, 40);
+      alpha = stepForces(second.bodies, second.edges, () => false, DEFAULT_FORCE_SETTINGS, alpha, 40);
+    }
+
+    expect(first.bodies).toEqual(second.bodies);
+    expect(finite(first.bodies)).toBe(true);
+  });
+});
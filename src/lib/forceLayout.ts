@@ -0,0 +1,142 @@
+// Force-directed layout, one animation frame at a time: nodes repel each
+// other, connections pull their ends together like springs, a weak pull keeps
+// the graph around its center, and overlapping nodes are pushed apart. Forces
+// are scaled by `alpha`, which cools every frame so the graph settles.
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface ForceBody {
+  position: Point;
+  velocity: Point;
+}
+
+export interface ForceSettings {
+  strength: number; // Scales repulsion and springs together
+  damping: number;  // Velocity kept from one frame to the next
+}
+
+export const DEFAULT_FORCE_SETTINGS: ForceSettings = { strength: 1, damping: 0.85 };
+export const STRENGTH_RANGE = { min: 0.2, max: 3, step: 0.1 };
+export const DAMPING_RANGE = { min: 0.5, max: 0.98, step: 0.01 };
+
+// alpha starts at 1 when the layout is disturbed and decays until it drops below ALPHA_MIN
+export const ALPHA_DECAY = 0.98;
+export const ALPHA_MIN = 0.01;
+
+const REPULSION = 8000;
+const SPRING = 0.04;
+const SPRING_LENGTH = 140;
+const GRAVITY = 0.005;
+const MAX_SPEED = 40;
+
+// Advance the simulation one frame, moving bodies in place, and return the
+// cooled alpha. Fixed bodies (being dragged, or pinned) still push and pull the
+// others but never move themselves. Once alpha is below ALPHA_MIN nothing moves.
+export const stepForces = (
+  bodies: Record<string, ForceBody>,
+  edges: Array<{ from: string; to: string }>,
+  isFixed: (id: string) => boolean,
+  { strength, damping }: ForceSettings,
+  alpha: number,
+  collisionRadius: number
+): number => {
+  const ids = Object.keys(bodies);
+  if (ids.length === 0 || alpha < ALPHA_MIN) return alpha;
+  const forces = new Map(ids.map(id => [id, { x: 0, y: 0 }]));
+
+  // Pairwise repulsion, falling off with the square of the distance
+  for (let i = 0; i < ids.length; i++) {
+    const a = bodies[ids[i]].position;
+    for (let j = i + 1; j < ids.length; j++) {
+      const b = bodies[ids[j]].position;
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const distanceSquared = Math.max(dx * dx + dy * dy, 1);
+      const distance = Math.sqrt(distanceSquared);
+      const force = (REPULSION * strength * alpha) / distanceSquared;
+      const fx = (dx / distance) * force;
+      const fy = (dy / distance) * force;
+      forces.get(ids[i])!.x -= fx;
+      forces.get(ids[i])!.y -= fy;
+      forces.get(ids[j])!.x += fx;
+      forces.get(ids[j])!.y += fy;
+    }
+  }
+
+  // Springs toward their rest length along each connection
+  edges.forEach(({ from, to }) => {
+    const a = bodies[from];
+    const b = bodies[to];
+    if (!a || !b || from === to) return;
+    const dx = b.position.x - a.position.x;
+    const dy = b.position.y - a.position.y;
+    const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+    const force = SPRING * strength * alpha * (distance - SPRING_LENGTH);
+    const fx = (dx / distance) * force;
+    const fy = (dy / distance) * force;
+    forces.get(from)!.x += fx;
+    forces.get(from)!.y += fy;
+    forces.get(to)!.x -= fx;
+    forces.get(to)!.y -= fy;
+  });
+
+  // Keeps disconnected parts from drifting off
+  const center = ids.reduce(
+    (sum, id) => ({ x: sum.x + bodies[id].position.x / ids.length, y: sum.y + bodies[id].position.y / ids.length }),
+    { x: 0, y: 0 }
+  );
+
+  ids.forEach(id => {
+    const body = bodies[id];
+    if (isFixed(id)) return;
+    const force = forces.get(id)!;
+    force.x += (center.x - body.position.x) * GRAVITY * alpha;
+    force.y += (center.y - body.position.y) * GRAVITY * alpha;
+
+    body.velocity.x = (body.velocity.x + force.x) * damping;
+    body.velocity.y = (body.velocity.y + force.y) * damping;
+    const speed = Math.sqrt(body.velocity.x ** 2 + body.velocity.y ** 2);
+    if (speed > MAX_SPEED) {
+      body.velocity.x *= MAX_SPEED / speed;
+      body.velocity.y *= MAX_SPEED / speed;
+    }
+    body.position.x += body.velocity.x;
+    body.position.y += body.velocity.y;
+  });
+
+  // Resolve overlaps directly; a fixed body makes the other one take the whole correction
+  const minDistance = collisionRadius * 2;
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const fixedA = isFixed(ids[i]);
+      const fixedB = isFixed(ids[j]);
+      if (fixedA && fixedB) continue;
+
+      const a = bodies[ids[i]].position;
+      const b = bodies[ids[j]].position;
+      let dx = b.x - a.x;
+      let dy = b.y - a.y;
+      let distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance >= minDistance) continue;
+      if (distance === 0) {
+        // Stacked exactly: separate along a direction that differs per pair
+        dx = Math.cos(i + j);
+        dy = Math.sin(i + j);
+        distance = 1;
+      }
+
+      const overlap = minDistance - distance;
+      const shareA = fixedA ? 0 : fixedB ? 1 : 0.5;
+      const shareB = 1 - shareA;
+      a.x -= (dx / distance) * overlap * shareA;
+      a.y -= (dy / distance) * overlap * shareA;
+      b.x += (dx / distance) * overlap * shareB;
+      b.y += (dy / distance) * overlap * shareB;
+    }
+  }
+
+  return alpha * ALPHA_DECAY;
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { toBranchHead, toCommit, toIssue, toMember, toPullRequest, toRepository } from './mappers';
+import { GiteaBranch, GiteaCommit, GiteaIssue, GiteaPullRequest, GiteaRepository } from './types';
+import { HostInfo } from '../providers/types';
+import repository from './fixtures/repository.json';
+import branches from './fixtures/branches.json';
+import commits from './fixtures/commits.json';
+import pulls from './fixtures/pulls.json';
+import issues from './fixtures/issues.json';
+
+const HOST: HostInfo = {
+  id: 'gitea-test',
+  kind: 'gitea',
+  name: 'Gitea',
+  webUrl: 'https://git.example.com',
+  allowWrites: true,
+};
+
+const [checkout, tokens, savedCards] = pulls as GiteaPullRequest[];
+
+describe('toRepository', () => {
+  it('maps the repository and takes push rights from its permissions', () => {
+    expect(toRepository(repository as GiteaRepository, true)).toEqual({
+      name: 'web',
+      fullName: 'acme/web',
+      webUrl: 'https://git.example.com/acme/web',
+      defaultBranch: 'main',
+      canPush: true,
+    });
+  });
+
+  it('never allows pushing when the host is read-only or permissions are missing', () => {
+    expect(toRepository(repository as GiteaRepository, false).canPush).toBe(false);
+    expect(toRepository({ ...repository, permissions: undefined } as GiteaRepository, true).canPush).toBe(false);
+  });
+});
+
+describe('toBranchHead', () => {
+  it('maps the name, head commit and protection', () => {
+    const [feature, main] = (branches as GiteaBranch[]).map(toBranchHead);
+    expect(feature).toEqual({
+      name: 'feature/checkout',
+      commit: {
+        sha: '9d1c5e7b2a4f6e8d0c3b5a7f9e1d3c5b7a9f0e2d',
+        url: 'https://git.example.com/acme/web/commit/9d1c5e7b2a4f6e8d0c3b5a7f9e1d3c5b7a9f0e2d',
+      },
+      protected: false,
+    });
+    expect(main.protected).toBe(true);
+  });
+});
+
+describe('toCommit', () => {
+  it('maps the message, author and parents', () => {
+    expect(toCommit((commits as GiteaCommit[])[0])).toEqual({
+      sha: '9d1c5e7b2a4f6e8d0c3b5a7f9e1d3c5b7a9f0e2d',
+      message: 'Validate the card form before submitting\n',
+      author: { name: 'Priya Raman', date: '2024-05-02T15:38:51+02:00' },
+      parents: ['4b7e2f9a1c3d5e7f9b0a2c4e6d8f0a1b3c5e7d9f'],
+    });
+    expect(toCommit((commits as GiteaCommit[])[1]).parents).toEqual([]);
+  });
+
+  it('leaves parents unknown when the server leaves them out', () => {
+    expect(toCommit({ ...(commits as GiteaCommit[])[1], parents: null }).parents).toBeUndefined();
+  });
+});
+
+describe('toPullRequest', () => {
+  it('maps an open pull request', () => {
+    expect(toPullRequest(checkout)).toEqual({
+      id: 1204,
+      number: 42,
+      title: 'WIP: Checkout page',
+      state: 'open',
+      url: 'https://git.example.com/acme/web/pulls/42',
+      createdAt: '2024-04-30T08:30:12Z',
+      updatedAt: '2024-05-02T13:39:02Z',
+      author: { login: 'priya', avatarUrl: 'https://git.example.com/avatars/311' },
+      head: { ref: 'feature/checkout', sha: '9d1c5e7b2a4f6e8d0c3b5a7f9e1d3c5b7a9f0e2d' },
+      base: { ref: 'main', sha: 'e3a8c1f5d7b9e2a4c6f8d0b2e4a6c8f0d2b4e6a8' },
+      draft: true,
+      merged: false,
+      mergedAt: undefined,
+      blocked: false,
+    });
+  });
+
+  it('reads drafts from the title prefix only when there is no draft flag', () => {
+    expect(toPullRequest(checkout).draft).toBe(true);
+    expect(toPullRequest(savedCards).draft).toBe(false);
+    expect(toPullRequest({ ...checkout, title: '[WIP] Checkout page' }).draft).toBe(true);
+    expect(toPullRequest({ ...checkout, title: 'draft: Checkout page' }).draft).toBe(true);
+    expect(toPullRequest({ ...checkout, title: 'Checkout page (WIP:)' }).draft).toBe(false);
+  });
+
+  it('dates merged pull requests and leaves the rest undated', () => {
+    expect(toPullRequest(tokens)).toMatchObject({ state: 'closed', merged: true, mergedAt: '2024-04-30T07:12:09Z' });
+    expect(toPullRequest(checkout).mergedAt).toBeUndefined();
+    expect(toPullRequest({ ...checkout, merged_at: undefined }).mergedAt).toBeUndefined();
+  });
+
+  it('shows deleted users as ghost', () => {
+    expect(toPullRequest(savedCards).author).toEqual({ login: 'ghost', avatarUrl: '' });
+  });
+});
+
+describe('toIssue', () => {
+  it('maps the issue and strips the # from label colors', () => {
+    expect(toIssue((issues as GiteaIssue[])[0])).toEqual({
+      id: 2210,
+      number: 44,
+      title: 'Card form accepts expired cards',
+      state: 'open',
+      url: 'https://git.example.com/acme/web/issues/44',
+      createdAt: '2024-05-01T16:20:00Z',
+      updatedAt: '2024-05-02T08:45:10Z',
+      author: { login: 'sam', avatarUrl: 'https://git.example.com/avatars/318' },
+      assignees: [],
+      labels: [{ name: 'bug', color: 'ee0701' }, { name: 'checkout', color: '1d76db' }],
+      comments: 3,
+    });
+  });
+});
+
+describe('toMember', () => {
+  it('links to the profile, or builds the link on older versions', () => {
+    const user = { id: 318, login: 'sam', avatar_url: '' };
+    expect(toMember(HOST)({ ...user, html_url: 'https://git.example.com/sam' }).url).toBe('https://git.example.com/sam');
+    expect(toMember(HOST)(user)).toEqual({ id: 318, login: 'sam', avatarUrl: '', url: 'https://git.example.com/sam', isAdmin: false });
+  });
+});
@@ -0,0 +1,77 @@
+import { GiteaBranch, GiteaCommit, GiteaIssue, GiteaPullRequest, GiteaRepository, GiteaUser } from './types';
+import { HostInfo } from '../providers/types';
+import { BranchHead, Commit, Issue, Member, PullRequest, Repository } from '../types';
+
+// Gitea/Forgejo REST (v1) JSON -> gitvis' internal model
+
+// Older Gitea versions have no draft flag and use a title prefix instead
+const DRAFT_TITLE_PREFIX = /^\s*(\[WIP\]|WIP:|Draft:)/i;
+
+const toPerson = (user: GiteaUser | null) => ({
+  login: user?.login || 'ghost',
+  avatarUrl: user?.avatar_url || '',
+});
+
+export const toRepository = (repository: GiteaRepository, allowWrites: boolean): Repository => ({
+  name: repository.name,
+  fullName: repository.full_name,
+  webUrl: repository.html_url,
+  defaultBranch: repository.default_branch || 'main',
+  canPush: allowWrites && Boolean(repository.permissions?.push),
+});
+
+export const toBranchHead = (branch: GiteaBranch): BranchHead => ({
+  name: branch.name,
+  commit: { sha: branch.commit.id, url: branch.commit.url },
+  protected: branch.protected,
+});
+
+export const toCommit = (commit: GiteaCommit): Commit => ({
+  sha: commit.sha,
+  message: commit.commit.message,
+  author: {
+    name: commit.commit.author.name,
+    date: commit.commit.author.date,
+  },
+  parents: commit.parents?.map(parent => parent.sha),
+});
+
+export const toPullRequest = (pullRequest: GiteaPullRequest): PullRequest => ({
+  id: pullRequest.id,
+  number: pullRequest.number,
+  title: pullRequest.title,
+  state: pullRequest.state,
+  url: pullRequest.html_url,
+  createdAt: pullRequest.created_at,
+  updatedAt: pullRequest.updated_at,
+  author: toPerson(pullRequest.user),
+  head: { ref: pullRequest.head.ref, sha: pullRequest.head.sha },
+  base: { ref: pullRequest.base.ref, sha: pullRequest.base.sha },
+  draft: pullRequest.draft ?? DRAFT_TITLE_PREFIX.test(pullRequest.title),
+  merged: pullRequest.merged,
+  mergedAt: pullRequest.merged_at ?? undefined,
+  // Gitea doesn't report why a pull request can't be merged
+  blocked: false,
+});
+
+export const toIssue = (issue: GiteaIssue): Issue => ({
+  id: issue.id,
+  number: issue.number,
+  title: issue.title,
+  state: issue.state,
+  url: issue.html_url,
+  createdAt: issue.created_at,
+  updatedAt: issue.updated_at,
+  author: toPerson(issue.user),
+  assignees: (issue.assignees || []).map(toPerson),
+  labels: issue.labels.map(label => ({ name: label.name, color: label.color.replace(/^#/, '') })),
+  comments: issue.comments,
+});
+
+// Collaborator permissions take a request per user, so admins aren't marked
+export const toMember = (host: HostInfo) => (user: GiteaUser): Member => ({
+  id: user.id,
+  ...toPerson(user),
+  url: user.html_url || `${host.webUrl}/${user.login}`,
+  isAdmin: false,
+});
@@ -0,0 +1,94 @@
+// Shapes of the Gitea/Forgejo REST API (v1) responses gitvis consumes. They
+// follow GitHub's closely but not exactly, so they get their own types.
+
+export interface GiteaUser {
+  id: number;
+  login: string;
+  avatar_url: string;
+  html_url?: string; // Missing on older Gitea versions
+}
+
+export interface GiteaRepository {
+  name: string;
+  full_name: string;
+  html_url: string;
+  default_branch: string;
+  permissions?: {
+    admin: boolean;
+    push: boolean;
+    pull: boolean;
+  };
+}
+
+export interface GiteaBranch {
+  name: string;
+  commit: {
+    id: string;
+    url: string;
+  };
+  protected: boolean;
+}
+
+export interface GiteaCommit {
+  sha: string;
+  commit: {
+    message: string;
+    author: {
+      name: string;
+      date: string;
+    };
+  };
+  parents?: Array<{
+    sha: string;
+  }> | null;
+}
+
+export interface GiteaCompare {
+  total_commits: number;
+  commits: GiteaCommit[];
+}
+
+export interface GiteaContent {
+  type: string;
+  content: string | null;
+  encoding: string | null;
+}
+
+export interface GiteaPullRequest {
+  id: number;
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  user: GiteaUser;
+  head: {
+    ref: string;
+    sha: string;
+  };
+  base: {
+    ref: string;
+    sha: string;
+  };
+  draft?: boolean; // Only on newer versions; older ones mark drafts with a "WIP:" title prefix
+  merged: boolean;
+  merged_at?: string | null;
+}
+
+export interface GiteaIssue {
+  id: number;
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  user: GiteaUser;
+  assignees: GiteaUser[] | null;
+  labels: Array<{
+    name: string;
+    color: string;
+  }>;
+  comments: number;
+}
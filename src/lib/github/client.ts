@@ -0,0 +1,173 @@
+import {
+  GitHubBranch,
+  GitHubCollaborator,
+  GitHubCommit,
+  GitHubCompare,
+  GitHubContent,
+  GitHubIssue,
+  GitHubPullRequest,
+  GitHubRef,
+  GitHubRepository,
+  RepoSearchResult,
+} from './types';
+import { CreatePullParams } from '../types';
+import { getHostScheduler, githubScheduler } from './scheduler';
+import { ApiError, ApiFieldError, RateLimitError } from '../providers/errors';
+import { HttpClient, createHttpClient } from '../providers/http';
+import { HostInfo } from '../providers/types';
+
+// All GitHub calls go through our server-side proxy, which attaches the token
+export const GITHUB_API_BASE = '/api/github';
+
+// Turn a failed response into an ApiError, or a RateLimitError when GitHub is throttling us
+const toApiError = async (response: Response): Promise<ApiError> => {
+  let body: { message?: string; errors?: ApiFieldError[] } = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Non-JSON error body, fall back to the status code
+  }
+
+  const remaining = response.headers.get('x-ratelimit-remaining');
+  const isRateLimited = response.status === 429 ||
+    (response.status === 403 && (remaining === '0' || /rate limit/i.test(body.message || '')));
+
+  if (isRateLimited) {
+    const reset = response.headers.get('x-ratelimit-reset');
+    return new RateLimitError(
+      body.message || 'Rate limit exceeded',
+      response.status,
+      reset ? new Date(parseInt(reset, 10) * 1000) : null
+    );
+  }
+
+  return new ApiError(
+    body.message || `GitHub API error: ${response.status}`,
+    response.status,
+    body.errors
+  );
+};
+
+// github.com goes through /api/github; an Enterprise Server through its own host proxy,
+// with its own rate limit and cache keys
+const createRestClient = (host?: HostInfo): HttpClient =>
+  createHttpClient({
+    baseUrl: host ? `/api/hosts/${host.id}` : GITHUB_API_BASE,
+    headers: {
+      'Accept': 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28'
+    },
+    scheduler: host ? getHostScheduler(host.id) : githubScheduler,
+    toError: toApiError,
+    cacheNamespace: host ? `${host.id}:` : '',
+  });
+
+const githubDotCom = createRestClient();
+
+interface GraphQLResponse<T> {
+  data?: T;
+  errors?: Array<{ type?: string; message: string }>;
+}
+
+// Run a GraphQL query. GitHub reports query errors with a 200 status, so those are normalized here too.
+const graphql = async <T>(
+  { request }: HttpClient,
+  query: string,
+  variables: Record<string, unknown>
+): Promise<T> => {
+  const { data: body } = await request<GraphQLResponse<T>>('/graphql', {
+    method: 'POST',
+    body: JSON.stringify({ query, variables })
+  });
+
+  if (body.errors && body.errors.length > 0) {
+    const [firstError] = body.errors;
+    if (firstError.type === 'RATE_LIMITED') {
+      throw new RateLimitError(firstError.message, 200, null);
+    }
+    throw new ApiError(firstError.message, 200);
+  }
+
+  if (!body.data) {
+    throw new ApiError('GraphQL response contained no data', 200);
+  }
+
+  return body.data;
+};
+
+export interface GitHubClient {
+  owner: string;
+  repo: string;
+  getRepository: () => Promise<GitHubRepository>;
+  listBranches: (onProgress?: (loaded: number, total: number) => void) => Promise<GitHubBranch[]>;
+  listProtectedBranches: () => Promise<GitHubBranch[]>;
+  compare: (base: string, head: string) => Promise<GitHubCompare>;
+  getContent: (path: string) => Promise<GitHubContent>;
+  listCommits: (sha: string, perPage?: number) => Promise<GitHubCommit[]>;
+  listPulls: () => Promise<GitHubPullRequest[]>;
+  listClosedPulls: (perPage?: number) => Promise<GitHubPullRequest[]>;
+  listPullCommits: (pullNumber: number) => Promise<GitHubCommit[]>;
+  listIssues: (perPage?: number) => Promise<GitHubIssue[]>;
+  listCollaborators: (perPage?: number) => Promise<GitHubCollaborator[]>;
+  createPull: (params: CreatePullParams) => Promise<GitHubPullRequest>;
+  createRef: (ref: string, sha: string) => Promise<GitHubRef>;
+  graphql: <T>(query: string, variables?: Record<string, unknown>) => Promise<T>;
+}
+
+export const createGitHubClient = (owner: string, repo: string, host?: HostInfo): GitHubClient => {
+  const rest = host ? createRestClient(host) : githubDotCom;
+  const { request, paginate } = rest;
+  const repoPath = `/repos/${owner}/${repo}`;
+
+  return {
+    owner,
+    repo,
+
+    getRepository: async () => (await request<GitHubRepository>(repoPath)).data,
+
+    listBranches: (onProgress) => paginate<GitHubBranch>(`${repoPath}/branches`, onProgress),
+
+    listProtectedBranches: () => paginate<GitHubBranch>(`${repoPath}/branches?protected=true`),
+
+    compare: async (base, head) =>
+      (await request<GitHubCompare>(`${repoPath}/compare/${base}...${head}`)).data,
+
+    // Without a ref the contents API reads the default branch
+    getContent: async (path) =>
+      (await request<GitHubContent>(`${repoPath}/contents/${path.split('/').map(encodeURIComponent).join('/')}`)).data,
+
+    listCommits: async (sha, perPage = 50) =>
+      (await request<GitHubCommit[]>(`${repoPath}/commits?sha=${encodeURIComponent(sha)}&per_page=${perPage}`)).data,
+
+    listPulls: () => paginate<GitHubPullRequest>(`${repoPath}/pulls?state=open`),
+
+    listClosedPulls: async (perPage = 50) =>
+      (await request<GitHubPullRequest[]>(
+        `${repoPath}/pulls?state=closed&sort=updated&direction=desc&per_page=${perPage}`
+      )).data,
+
+    listPullCommits: async (pullNumber) =>
+      (await request<GitHubCommit[]>(`${repoPath}/pulls/${pullNumber}/commits`)).data,
+
+    listIssues: async (perPage = 50) =>
+      (await request<GitHubIssue[]>(`${repoPath}/issues?state=open&per_page=${perPage}`)).data,
+
+    listCollaborators: async (perPage = 10) =>
+      (await request<GitHubCollaborator[]>(`${repoPath}/collaborators?per_page=${perPage}`)).data,
+
+    createPull: async (params) =>
+      (await request<GitHubPullRequest>(`${repoPath}/pulls`, { method: 'POST', body: JSON.stringify(params) })).data,
+
+    createRef: async (ref, sha) =>
+      (await request<GitHubRef>(`${repoPath}/git/refs`, { method: 'POST', body: JSON.stringify({ ref, sha }) })).data,
+
+    graphql: (query, variables = {}) => graphql(rest, query, { owner, repo, ...variables }),
+  };
+};
+
+export const searchRepositories = async (query: string, perPage = 8): Promise<RepoSearchResult[]> => {
+  const { data } = await githubDotCom.request<{ items: RepoSearchResult[] }>(
+    `/search/repositories?q=${encodeURIComponent(query)}&per_page=${perPage}`
+  );
+  return data.items || [];
+};
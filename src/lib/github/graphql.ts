@@ -0,0 +1,222 @@
+import { GitHubClient } from './client';
+import { GitHubBranch } from './types';
+import { BranchHead, ParentHints, PullRequest } from '../types';
+import { BranchGraph, BuildBranchTree } from '../providers/types';
+import { buildBranchTree } from '../branchTree';
+import { withoutIgnored } from '../repoConfig';
+
+// Refs per query and commits of history fetched for each ref. Parent inference
+// only looks this far back, which covers the branches people actually work on.
+const REFS_PER_PAGE = 50;
+const HISTORY_DEPTH = 100;
+const PULLS_PER_PAGE = 50;
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface RefNode {
+  name: string;
+  target: {
+    oid: string;
+    url: string;
+    history?: { nodes: Array<{ oid: string; authoredDate: string; parents: { nodes: Array<{ oid: string }> } }> };
+  } | null;
+  // Comparison of this branch (base) against the default branch (head)
+  compare: { aheadBy: number; behindBy: number } | null;
+}
+
+interface PullRequestNode {
+  databaseId: number;
+  number: number;
+  title: string;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  isDraft: boolean;
+  merged: boolean;
+  author: { login: string; avatarUrl: string } | null;
+  headRefName: string;
+  headRefOid: string;
+  baseRefName: string;
+  baseRefOid: string;
+  commits: { totalCount: number };
+}
+
+const DEFAULT_BRANCH_QUERY = `
+  query DefaultBranch($owner: String!, $repo: String!) {
+    repository(owner: $owner, name: $repo) {
+      defaultBranchRef { name }
+    }
+  }
+`;
+
+const BRANCHES_QUERY = `
+  query Branches($owner: String!, $repo: String!, $cursor: String, $defaultBranch: String!) {
+    repository(owner: $owner, name: $repo) {
+      refs(refPrefix: "refs/heads/", first: ${REFS_PER_PAGE}, after: $cursor) {
+        totalCount
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          name
+          target {
+            ... on Commit {
+              oid
+              url
+              history(first: ${HISTORY_DEPTH}) { nodes { oid authoredDate parents(first: 2) { nodes { oid } } } }
+            }
+          }
+          compare(headRef: $defaultBranch) { aheadBy behindBy }
+        }
+      }
+    }
+  }
+`;
+
+const PULL_REQUESTS_QUERY = `
+  query PullRequests($owner: String!, $repo: String!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequests(states: OPEN, first: ${PULLS_PER_PAGE}, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          databaseId
+          number
+          title
+          url
+          createdAt
+          updatedAt
+          isDraft
+          merged
+          author { login avatarUrl }
+          headRefName
+          headRefOid
+          baseRefName
+          baseRefOid
+          commits { totalCount }
+        }
+      }
+    }
+  }
+`;
+
+// Map a GraphQL pull request onto the internal model
+const toPullRequest = (node: PullRequestNode): PullRequest => ({
+  id: node.databaseId,
+  number: node.number,
+  title: node.title,
+  state: 'open',
+  url: node.url,
+  createdAt: node.createdAt,
+  updatedAt: node.updatedAt,
+  author: {
+    login: node.author?.login || 'ghost',
+    avatarUrl: node.author?.avatarUrl || ''
+  },
+  head: { ref: node.headRefName, sha: node.headRefOid },
+  base: { ref: node.baseRefName, sha: node.baseRefOid },
+  draft: node.isDraft,
+  merged: node.merged,
+  // Branch protection state isn't in this query; REST-loaded PRs carry it
+  blocked: false,
+  commitCount: node.commits.totalCount
+});
+
+const fetchRefs = async (
+  client: GitHubClient,
+  defaultBranch: string,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<RefNode[]> => {
+  const refs: RefNode[] = [];
+  let cursor: string | null = null;
+  let page = 0;
+
+  do {
+    const data: { repository: { refs: { totalCount: number; pageInfo: PageInfo; nodes: RefNode[] } } } =
+      await client.graphql(BRANCHES_QUERY, { cursor, defaultBranch });
+    const { totalCount, pageInfo, nodes } = data.repository.refs;
+
+    refs.push(...nodes);
+    page++;
+    onProgress?.(page, Math.max(1, Math.ceil(totalCount / REFS_PER_PAGE)));
+    cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+  } while (cursor);
+
+  return refs;
+};
+
+const fetchPullRequests = async (client: GitHubClient): Promise<PullRequestNode[]> => {
+  const pulls: PullRequestNode[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const data: { repository: { pullRequests: { pageInfo: PageInfo; nodes: PullRequestNode[] } } } =
+      await client.graphql(PULL_REQUESTS_QUERY, { cursor });
+    const { pageInfo, nodes } = data.repository.pullRequests;
+
+    pulls.push(...nodes);
+    cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+  } while (cursor);
+
+  return pulls;
+};
+
+// Load branches, their ancestry and open pull requests in a handful of batched
+// GraphQL queries, then infer the same tree calculateBranchTree builds over REST
+// (with `buildTree`, which may run elsewhere). The commit graph is built from
+// each branch's recent history, parents included.
+// Octopus merges only keep their first two parents, which is all placement needs.
+export const loadBranchGraph = async (
+  client: GitHubClient,
+  hints: ParentHints = {},
+  onProgress?: (loaded: number, total: number) => void,
+  buildTree: BuildBranchTree = async (histories, treeHints) => buildBranchTree(histories, treeHints)
+): Promise<BranchGraph> => {
+  const { repository } = await client.graphql<{ repository: { defaultBranchRef: { name: string } | null } }>(
+    DEFAULT_BRANCH_QUERY
+  );
+  const defaultBranch = repository.defaultBranchRef?.name || 'main';
+
+  const [refs, pullNodes, protectedBranches] = await Promise.all([
+    fetchRefs(client, defaultBranch, onProgress),
+    fetchPullRequests(client),
+    client.listProtectedBranches().catch(() => [] as GitHubBranch[])
+  ]);
+  const protectedNames = new Set(protectedBranches.map(branch => branch.name));
+
+  const commitRefs = withoutIgnored(hints.config, refs.filter(ref => ref.target?.oid), defaultBranch);
+  const rawBranches: BranchHead[] = commitRefs.map(ref => ({
+    name: ref.name,
+    commit: { sha: ref.target!.oid, url: ref.target!.url },
+    protected: protectedNames.has(ref.name)
+  }));
+
+  const { branches, connections } = await buildTree({
+    branches: rawBranches,
+    defaultBranch,
+    commits: commitRefs.flatMap(ref =>
+      (ref.target!.history?.nodes || []).map(node => ({
+        sha: node.oid,
+        parents: node.parents.nodes.map(parent => parent.oid),
+        date: node.authoredDate,
+      }))
+    ),
+    // behindBy on branch...default is how far the branch is ahead of the default branch
+    aheadOfDefault: Object.fromEntries(
+      commitRefs.filter(ref => ref.compare).map(ref => [ref.name, ref.compare!.behindBy])
+    ),
+  }, hints);
+
+  const pullRequestAheadBy: Record<number, number> = {};
+  pullNodes.forEach(node => {
+    pullRequestAheadBy[node.databaseId] = node.commits.totalCount;
+  });
+
+  return {
+    defaultBranch,
+    branches,
+    connections,
+    pullRequests: pullNodes.map(toPullRequest),
+    pullRequestAheadBy
+  };
+};
@@ -0,0 +1,111 @@
+// Cache of GET responses keyed by API path, stored with their validators so
+// they can be revalidated with conditional requests. GitHub doesn't count 304s
+// against the rate limit, so unchanged data is free to re-check.
+
+import { idbClear, idbGet, idbPut, isIndexedDbAvailable } from '../store/db';
+
+export interface CachedResponse {
+  etag: string | null;
+  lastModified: string | null;
+  link: string | null;
+  data: unknown;
+  storedAt: number;
+}
+
+// Where cached responses live
+export interface HttpCacheStore {
+  get: (key: string) => Promise<CachedResponse | null>;
+  set: (key: string, entry: CachedResponse) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const LOCAL_STORAGE_PREFIX = 'gitvis-http:';
+
+export const createLocalStorageStore = (): HttpCacheStore => {
+  const keys = () =>
+    Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index))
+      .filter((key): key is string => key !== null && key.startsWith(LOCAL_STORAGE_PREFIX));
+
+  const clear = async () => {
+    keys().forEach(key => localStorage.removeItem(key));
+  };
+
+  return {
+    get: async (key) => {
+      try {
+        const stored = localStorage.getItem(LOCAL_STORAGE_PREFIX + key);
+        return stored ? JSON.parse(stored) : null;
+      } catch (e) {
+        console.warn('Failed to read cached response:', e);
+        return null;
+      }
+    },
+
+    set: async (key, entry) => {
+      const value = JSON.stringify(entry);
+      try {
+        localStorage.setItem(LOCAL_STORAGE_PREFIX + key, value);
+      } catch {
+        // Out of quota: start over rather than leave a half-useful cache
+        await clear();
+        try {
+          localStorage.setItem(LOCAL_STORAGE_PREFIX + key, value);
+        } catch (e) {
+          console.warn('Response too large to cache:', e);
+        }
+      }
+    },
+
+    clear,
+  };
+};
+
+// Default store in the browser: no practical size cap, unlike localStorage
+export const createIndexedDbStore = (): HttpCacheStore => ({
+  get: async (key) => {
+    try {
+      return (await idbGet<CachedResponse>('http', key)) ?? null;
+    } catch (e) {
+      console.warn('Failed to read cached response:', e);
+      return null;
+    }
+  },
+
+  set: async (key, entry) => {
+    try {
+      await idbPut('http', key, entry);
+    } catch (e) {
+      console.warn('Failed to cache response:', e);
+    }
+  },
+
+  clear: () => idbClear('http'),
+});
+
+// No-op store for server rendering, where there's nothing to persist to
+const memorylessStore: HttpCacheStore = {
+  get: async () => null,
+  set: async () => {},
+  clear: async () => {},
+};
+
+let activeStore: HttpCacheStore | null = null;
+
+export const getHttpCacheStore = (): HttpCacheStore => {
+  if (typeof window === 'undefined') return memorylessStore;
+  if (!activeStore) {
+    if (isIndexedDbAvailable()) {
+      activeStore = createIndexedDbStore();
+      // Responses cached in localStorage by earlier versions only take up quota now
+      createLocalStorageStore().clear();
+    } else {
+      activeStore = createLocalStorageStore();
+    }
+  }
+  return activeStore;
+};
+
+// Swap the backing store, e.g. for a larger one than localStorage
+export const setHttpCacheStore = (store: HttpCacheStore) => {
+  activeStore = store;
+};
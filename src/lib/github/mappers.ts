@@ -0,0 +1,81 @@
+import {
+  GitHubCollaborator,
+  GitHubCommit,
+  GitHubCompare,
+  GitHubIssue,
+  GitHubPullRequest,
+  GitHubRepository,
+} from './types';
+import { Commit, Comparison, Issue, Member, PullRequest, Repository } from '../types';
+
+// GitHub REST JSON -> gitvis' internal model. Shared by the browser provider
+// and the webhook route, which sees the same shapes in event payloads.
+
+export const toRepository = (repository: GitHubRepository): Repository => ({
+  name: repository.name,
+  fullName: repository.full_name,
+  webUrl: repository.html_url,
+  defaultBranch: repository.default_branch || 'main',
+  canPush: Boolean(repository.permissions?.push),
+});
+
+export const toCommit = (commit: GitHubCommit): Commit => ({
+  sha: commit.sha,
+  message: commit.commit.message,
+  author: {
+    name: commit.commit.author.name,
+    date: commit.commit.author.date,
+  },
+  parents: commit.parents?.map(parent => parent.sha),
+});
+
+export const toComparison = (compare: GitHubCompare): Comparison => ({
+  aheadBy: compare.ahead_by,
+  behindBy: compare.behind_by,
+});
+
+export const toPullRequest = (pullRequest: GitHubPullRequest): PullRequest => ({
+  id: pullRequest.id,
+  number: pullRequest.number,
+  title: pullRequest.title,
+  state: pullRequest.state === 'open' ? 'open' : 'closed',
+  url: pullRequest.html_url,
+  createdAt: pullRequest.created_at,
+  updatedAt: pullRequest.updated_at,
+  author: {
+    login: pullRequest.user.login,
+    avatarUrl: pullRequest.user.avatar_url,
+  },
+  head: { ref: pullRequest.head.ref, sha: pullRequest.head.sha },
+  base: { ref: pullRequest.base.ref, sha: pullRequest.base.sha },
+  draft: pullRequest.draft,
+  merged: Boolean(pullRequest.merged || pullRequest.merged_at),
+  mergedAt: pullRequest.merged_at ?? undefined,
+  blocked: pullRequest.mergeable_state === 'blocked',
+  commitCount: pullRequest.commits,
+});
+
+export const toIssue = (issue: GitHubIssue): Issue => ({
+  id: issue.id,
+  number: issue.number,
+  title: issue.title,
+  state: issue.state === 'open' ? 'open' : 'closed',
+  url: issue.html_url,
+  createdAt: issue.created_at,
+  updatedAt: issue.updated_at,
+  author: {
+    login: issue.user.login,
+    avatarUrl: issue.user.avatar_url,
+  },
+  assignees: issue.assignees.map(assignee => ({ login: assignee.login, avatarUrl: assignee.avatar_url })),
+  labels: issue.labels.map(label => ({ name: label.name, color: label.color })),
+  comments: issue.comments,
+});
+
+export const toMember = (collaborator: GitHubCollaborator): Member => ({
+  id: collaborator.id,
+  login: collaborator.login,
+  avatarUrl: collaborator.avatar_url,
+  url: collaborator.html_url,
+  isAdmin: Boolean(collaborator.permissions?.admin),
+});
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRequestScheduler } from './scheduler';
+
+const rateLimited = (headers: Record<string, string>) =>
+  new Response(JSON.stringify({ message: 'API rate limit exceeded' }), {
+    status: 403,
+    headers: { 'x-ratelimit-remaining': '0', ...headers },
+  });
+
+// Sends the given responses in order, recording when each request went out
+const sender = (...responses: Response[]) => {
+  const sentAt: number[] = [];
+  return {
+    sentAt,
+    send: async () => {
+      sentAt.push(Date.now());
+      return responses.shift() ?? new Response('{}');
+    },
+  };
+};
+
+describe('createRequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for the reset before retrying a primary rate limit', async () => {
+    const reset = Date.now() / 1000 + 60;
+    const { sentAt, send } = sender(
+      rateLimited({ 'x-ratelimit-limit': '60', 'x-ratelimit-reset': String(reset) })
+    );
+    const scheduler = createRequestScheduler();
+
+    const response = scheduler.schedule('/repos/a/b', send);
+    await vi.advanceTimersByTimeAsync(61 * 1000);
+
+    expect((await response).status).toBe(200);
+    expect(sentAt[1] - sentAt[0]).toBeGreaterThanOrEqual(60 * 1000);
+  });
+
+  it('falls back to retry-after when there is no reset time', async () => {
+    const { sentAt, send } = sender(rateLimited({ 'retry-after': '30' }));
+    const scheduler = createRequestScheduler();
+
+    const response = scheduler.schedule('/repos/a/b', send);
+    await vi.advanceTimersByTimeAsync(29 * 1000);
+    expect(sentAt).toHaveLength(1);
+    expect(scheduler.getState().pausedUntil).not.toBeNull();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect((await response).status).toBe(200);
+    expect(sentAt).toHaveLength(2);
+  });
+
+  it('backs off exponentially without a reset time or retry-after', async () => {
+    const { sentAt, send } = sender(rateLimited({}), rateLimited({}));
+    const scheduler = createRequestScheduler({ baseBackoffMs: 1000 });
+
+    const response = scheduler.schedule('/repos/a/b', send);
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect((await response).status).toBe(200);
+    expect([sentAt[1] - sentAt[0], sentAt[2] - sentAt[1]]).toEqual([1000, 2000]);
+  });
+
+  it('gives up when the wait is longer than the longest pause', async () => {
+    const { sentAt, send } = sender(rateLimited({ 'retry-after': '3600' }));
+    const scheduler = createRequestScheduler({ maxPauseMs: 60 * 1000 });
+
+    const response = await scheduler.schedule('/repos/a/b', send);
+
+    expect(response.status).toBe(403);
+    expect(sentAt).toHaveLength(1);
+  });
+});
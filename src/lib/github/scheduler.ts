@@ -0,0 +1,206 @@
+// Request scheduler for API calls. It caps how many requests are in flight,
+// tracks the rate-limit budget from response headers, waits for the reset when
+// the budget runs low, and retries secondary rate limits with backoff.
+
+export type RateLimitResource = 'core' | 'graphql' | 'search';
+
+export interface RateLimitBudget {
+  resource: RateLimitResource;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export interface SchedulerState {
+  budgets: Partial<Record<RateLimitResource, RateLimitBudget>>;
+  // Set while requests are held back waiting for a rate-limit reset
+  pausedUntil: Date | null;
+  inFlight: number;
+  queued: number;
+}
+
+interface SchedulerOptions {
+  concurrency: number;
+  // Hold new requests once a budget drops to this many remaining calls
+  lowBudgetThreshold: number;
+  maxRetries: number;
+  baseBackoffMs: number;
+  // Don't sit on a paused load for longer than this; fail with the rate-limit error instead
+  maxPauseMs: number;
+}
+
+const DEFAULT_OPTIONS: SchedulerOptions = {
+  concurrency: 6,
+  lowBudgetThreshold: 5,
+  maxRetries: 3,
+  baseBackoffMs: 1000,
+  maxPauseMs: 15 * 60 * 1000,
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Which budget a request draws from, based on the proxied API path
+const getResource = (path: string): RateLimitResource => {
+  if (path.startsWith('/graphql')) return 'graphql';
+  if (path.startsWith('/search/')) return 'search';
+  return 'core';
+};
+
+// GitHub sends x-ratelimit-* headers; GitLab sends the same values as ratelimit-*
+const readHeader = (response: Response, name: string) =>
+  response.headers.get(`x-${name}`) ?? response.headers.get(name);
+
+const readBudget = (response: Response, fallback: RateLimitResource): RateLimitBudget | null => {
+  const limit = readHeader(response, 'ratelimit-limit');
+  const remaining = readHeader(response, 'ratelimit-remaining');
+  const reset = readHeader(response, 'ratelimit-reset');
+  if (limit === null || remaining === null || reset === null) return null;
+
+  const resource = response.headers.get('x-ratelimit-resource');
+  return {
+    resource: resource === 'core' || resource === 'graphql' || resource === 'search' ? resource : fallback,
+    limit: parseInt(limit, 10),
+    remaining: parseInt(remaining, 10),
+    resetAt: new Date(parseInt(reset, 10) * 1000),
+  };
+};
+
+// Secondary limits come back as a 403 (or 429) with a retry-after header or a
+// "secondary rate limit" message, while the primary budget may still have calls left
+const isSecondaryRateLimit = async (response: Response): Promise<boolean> => {
+  if (response.status === 429) return true;
+  if (response.status !== 403) return false;
+  if (response.headers.get('retry-after')) return true;
+
+  try {
+    const body = await response.clone().json();
+    return /secondary rate limit|abuse/i.test(body.message || '');
+  } catch {
+    return false;
+  }
+};
+
+const isPrimaryRateLimit = (response: Response): boolean =>
+  response.status === 403 && response.headers.get('x-ratelimit-remaining') === '0';
+
+export interface RequestScheduler {
+  schedule: (path: string, send: () => Promise<Response>) => Promise<Response>;
+  getState: () => SchedulerState;
+  subscribe: (listener: (state: SchedulerState) => void) => () => void;
+}
+
+export const createRequestScheduler = (overrides: Partial<SchedulerOptions> = {}): RequestScheduler => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const listeners = new Set<(state: SchedulerState) => void>();
+  const waiting: Array<() => void> = [];
+  let state: SchedulerState = { budgets: {}, pausedUntil: null, inFlight: 0, queued: 0 };
+
+  const setState = (changes: Partial<SchedulerState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const acquireSlot = async () => {
+    if (state.inFlight >= options.concurrency) {
+      setState({ queued: state.queued + 1 });
+      await new Promise<void>(resolve => waiting.push(resolve));
+      setState({ queued: state.queued - 1 });
+    }
+    setState({ inFlight: state.inFlight + 1 });
+  };
+
+  const releaseSlot = () => {
+    setState({ inFlight: state.inFlight - 1 });
+    waiting.shift()?.();
+  };
+
+  // Hold the request until its budget resets, or give up if that's too far away
+  const waitForBudget = async (resource: RateLimitResource) => {
+    const budget = state.budgets[resource];
+    if (!budget || budget.remaining > options.lowBudgetThreshold) return;
+
+    const waitMs = budget.resetAt.getTime() - Date.now();
+    if (waitMs <= 0 || waitMs > options.maxPauseMs) return;
+
+    setState({ pausedUntil: budget.resetAt });
+    await sleep(waitMs + 1000);
+    setState({
+      pausedUntil: null,
+      budgets: { ...state.budgets, [resource]: { ...budget, remaining: budget.limit } },
+    });
+  };
+
+  // How long to back off before a retry: retry-after when the response gives it, exponential otherwise
+  const backoffFor = (response: Response, attempt: number) => {
+    const retryAfter = parseInt(response.headers.get('retry-after') || '', 10);
+    return Number.isNaN(retryAfter) ? options.baseBackoffMs * 2 ** attempt : retryAfter * 1000;
+  };
+
+  const pause = async (ms: number) => {
+    setState({ pausedUntil: new Date(Date.now() + ms) });
+    await sleep(ms);
+    setState({ pausedUntil: null });
+  };
+
+  const schedule = async (path: string, send: () => Promise<Response>): Promise<Response> => {
+    const resource = getResource(path);
+    await acquireSlot();
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await waitForBudget(resource);
+        const response = await send();
+
+        const budget = readBudget(response, resource);
+        if (budget) {
+          setState({ budgets: { ...state.budgets, [budget.resource]: budget } });
+        }
+
+        if (attempt >= options.maxRetries) return response;
+
+        if (isPrimaryRateLimit(response)) {
+          // Retry once the budget resets (waitForBudget holds the retry until then), if
+          // that's soon enough; otherwise surface the error. Without a usable reset time, back off.
+          const resetInMs = budget ? budget.resetAt.getTime() - Date.now() : NaN;
+          const waitMs = resetInMs > 0 ? resetInMs : backoffFor(response, attempt);
+          if (waitMs > options.maxPauseMs) return response;
+          if (!(resetInMs > 0)) await pause(waitMs);
+          continue;
+        }
+
+        if (await isSecondaryRateLimit(response)) {
+          await pause(backoffFor(response, attempt));
+          continue;
+        }
+
+        return response;
+      }
+    } finally {
+      releaseSlot();
+    }
+  };
+
+  return {
+    schedule,
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// Every GitHub request in the browser shares one scheduler, and so one budget
+export const githubScheduler = createRequestScheduler();
+
+// Self-hosted instances each get their own scheduler, and so their own budget
+const hostSchedulers = new Map<string, RequestScheduler>();
+
+export const getHostScheduler = (hostId: string): RequestScheduler => {
+  if (!hostSchedulers.has(hostId)) {
+    hostSchedulers.set(hostId, createRequestScheduler());
+  }
+  return hostSchedulers.get(hostId)!;
+};
@@ -0,0 +1,145 @@
+// Shapes of the GitHub REST API responses gitvis consumes
+
+export interface GitHubRepository {
+  name: string;
+  full_name: string;
+  html_url: string;
+  default_branch: string;
+  permissions?: {
+    admin: boolean;
+    maintain?: boolean;
+    push: boolean;
+    triage?: boolean;
+    pull: boolean;
+  };
+}
+
+export interface GitHubBranch {
+  name: string;
+  commit: {
+    sha: string;
+    url: string;
+  };
+  protected: boolean;
+}
+
+export interface GitHubCommit {
+  sha: string;
+  commit: {
+    message: string;
+    author: {
+      name: string;
+      date: string;
+    };
+  };
+  parents?: Array<{
+    sha: string;
+  }>;
+}
+
+export interface GitHubCompare {
+  status: 'diverged' | 'ahead' | 'behind' | 'identical';
+  ahead_by: number;
+  behind_by: number;
+  total_commits: number;
+  merge_base_commit?: GitHubCommit;
+}
+
+export interface GitHubPullRequest {
+  id: number;
+  number: number;
+  title: string;
+  state: string;
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  user: {
+    login: string;
+    avatar_url: string;
+  };
+  head: {
+    ref: string; // source branch
+    sha: string;
+  };
+  base: {
+    ref: string; // target branch
+    sha: string;
+  };
+  draft: boolean;
+  merged: boolean;
+  merged_at?: string | null; // List responses have this but not `merged`
+  mergeable?: boolean;
+  mergeable_state?: string;
+  commits?: number; // Only on single-PR responses and webhook payloads
+}
+
+export interface GitHubIssue {
+  id: number;
+  number: number;
+  title: string;
+  state: string;
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  user: {
+    login: string;
+    avatar_url: string;
+  };
+  assignees: Array<{
+    login: string;
+    avatar_url: string;
+  }>;
+  labels: Array<{
+    name: string;
+    color: string;
+  }>;
+  milestone?: {
+    title: string;
+  };
+  comments: number;
+  pull_request?: {
+    url: string;
+  };
+}
+
+export interface GitHubCollaborator {
+  id: number;
+  login: string;
+  avatar_url: string;
+  html_url: string;
+  type: string;
+  site_admin: boolean;
+  permissions?: {
+    admin: boolean;
+    maintain: boolean;
+    push: boolean;
+    triage: boolean;
+    pull: boolean;
+  };
+}
+
+export interface RepoSearchResult {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string | null;
+  stargazers_count: number;
+  owner: {
+    login: string;
+    avatar_url: string;
+  };
+}
+
+export interface GitHubContent {
+  type: string;
+  content: string;
+  encoding: string;
+}
+
+export interface GitHubRef {
+  ref: string;
+  object: {
+    sha: string;
+    type: string;
+  };
+}
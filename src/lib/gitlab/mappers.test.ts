@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { toBranchHead, toCommit, toPullRequest, toRepository } from './mappers';
+import { GitLabBranch, GitLabCommit, GitLabMergeRequest, GitLabProject } from './types';
+import project from './fixtures/project.json';
+import branches from './fixtures/branches.json';
+import commits from './fixtures/commits.json';
+import mergeRequests from './fixtures/merge_requests.json';
+import mergeRequest from './fixtures/merge_request.json';
+
+describe('toRepository', () => {
+  it('maps the project and takes push rights from the group access level', () => {
+    expect(toRepository(project as GitLabProject, true)).toEqual({
+      name: 'web',
+      fullName: 'acme/platform/web',
+      webUrl: 'https://gitlab.example.com/acme/platform/web',
+      defaultBranch: 'main',
+      canPush: true,
+    });
+  });
+
+  it('never allows pushing when the host is read-only', () => {
+    expect(toRepository(project as GitLabProject, false).canPush).toBe(false);
+  });
+
+  it('needs Developer access to push', () => {
+    const reporter = { ...project, permissions: { project_access: { access_level: 20 }, group_access: null } };
+    expect(toRepository(reporter as GitLabProject, true).canPush).toBe(false);
+  });
+});
+
+describe('toBranchHead', () => {
+  it('maps the name, head commit and protection', () => {
+    const [feature, main] = (branches as GitLabBranch[]).map(toBranchHead);
+    expect(feature).toEqual({
+      name: 'feature/checkout',
+      commit: {
+        sha: '9d1c5e7b2a4f6e8d0c3b5a7f9e1d3c5b7a9f0e2d',
+        url: 'https://gitlab.example.com/acme/platform/web/-/commit/9d1c5e7b2a4f6e8d0c3b5a7f9e1d3c5b7a9f0e2d',
+      },
+      protected: false,
+    });
+    expect(main.protected).toBe(true);
+  });
+});
+
+describe('toCommit', () => {
+  it('maps the message, author and parents', () => {
+    expect(toCommit((commits as GitLabCommit[])[1])).toEqual({
+      sha: '4b7e2f9a1c3d5e7f9b0a2c4e6d8f0a1b3c5e7d9f',
+      message: 'Add the checkout page\n\nRenders the cart summary and a card form.\n',
+      author: { name: 'Priya Raman', date: '2024-04-30T10:21:05.000+02:00' },
+      parents: ['1f3e5d7c9b2a4f6e8d0c2b4a6f8e0d2c4b6a8f0e'],
+    });
+  });
+
+  it('keeps both parents of a merge commit', () => {
+    expect(toCommit((branches as GitLabBranch[])[1].commit).parents).toHaveLength(2);
+  });
+});
+
+describe('toPullRequest', () => {
+  it('numbers merge requests by iid and maps the branches', () => {
+    expect(toPullRequest((mergeRequests as GitLabMergeRequest[])[0])).toEqual({
+      id: 90317,
+      number: 42,
+      title: 'Draft: Checkout page',
+      state: 'open',
+      url: 'https://gitlab.example.com/acme/platform/web/-/merge_requests/42',
+      createdAt: '2024-04-30T08:30:12.401Z',
+      updatedAt: '2024-05-02T13:39:02.918Z',
+      author: { login: 'priya', avatarUrl: 'https://gitlab.example.com/uploads/-/system/user/avatar/311/avatar.png' },
+      head: { ref: 'feature/checkout', sha: '9d1c5e7b2a4f6e8d0c3b5a7f9e1d3c5b7a9f0e2d' },
+      base: { ref: 'main', sha: '' },
+      draft: true,
+      merged: false,
+      blocked: false,
+    });
+  });
+
+  it('marks merge requests waiting on approval as blocked', () => {
+    const tokens = toPullRequest((mergeRequests as GitLabMergeRequest[])[1]);
+    expect(tokens).toMatchObject({ draft: false, blocked: true, author: { login: 'sam', avatarUrl: '' } });
+  });
+
+  it('takes the base commit from the diff refs when they are there', () => {
+    expect(toPullRequest(mergeRequest as GitLabMergeRequest).base).toEqual({
+      ref: 'main',
+      sha: 'e3a8c1f5d7b9e2a4c6f8d0b2e4a6c8f0d2b4e6a8',
+    });
+  });
+
+  it('treats merged and closed merge requests as closed', () => {
+    const merged = { ...mergeRequests[0], state: 'merged' } as GitLabMergeRequest;
+    expect(toPullRequest(merged)).toMatchObject({ state: 'closed', merged: true });
+    const closed = { ...mergeRequests[0], state: 'closed' } as GitLabMergeRequest;
+    expect(toPullRequest(closed)).toMatchObject({ state: 'closed', merged: false });
+  });
+});
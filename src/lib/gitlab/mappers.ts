@@ -0,0 +1,98 @@
+import {
+  GitLabBranch,
+  GitLabCommit,
+  GitLabIssue,
+  GitLabMember,
+  GitLabMergeRequest,
+  GitLabProject,
+} from './types';
+import { BranchHead, Commit, Issue, Member, PullRequest, Repository } from '../types';
+
+// GitLab REST (v4) JSON -> gitvis' internal model
+
+// GitLab access levels (Developer can push branches, Maintainer administers the project)
+const DEVELOPER_ACCESS = 30;
+const MAINTAINER_ACCESS = 40;
+
+// detailed_merge_status values that mean approvals or protection are holding the MR back
+const BLOCKED_MERGE_STATUSES = new Set([
+  'blocked_status',
+  'discussions_not_resolved',
+  'external_status_checks',
+  'not_approved',
+  'requested_changes',
+]);
+
+const toPerson = (user: { username: string; avatar_url: string | null } | null) => ({
+  login: user?.username || 'ghost',
+  avatarUrl: user?.avatar_url || '',
+});
+
+export const toRepository = (project: GitLabProject, allowWrites: boolean): Repository => {
+  const accessLevel = Math.max(
+    project.permissions?.project_access?.access_level ?? 0,
+    project.permissions?.group_access?.access_level ?? 0
+  );
+  return {
+    name: project.name,
+    fullName: project.path_with_namespace,
+    webUrl: project.web_url,
+    defaultBranch: project.default_branch || 'main',
+    canPush: allowWrites && accessLevel >= DEVELOPER_ACCESS,
+  };
+};
+
+export const toBranchHead = (branch: GitLabBranch): BranchHead => ({
+  name: branch.name,
+  commit: { sha: branch.commit.id, url: branch.commit.web_url },
+  protected: branch.protected,
+});
+
+export const toCommit = (commit: GitLabCommit): Commit => ({
+  sha: commit.id,
+  message: commit.message,
+  author: {
+    name: commit.author_name,
+    date: commit.authored_date,
+  },
+  parents: commit.parent_ids,
+});
+
+// Merge requests are numbered by iid within the project, which is what the UI shows
+export const toPullRequest = (mergeRequest: GitLabMergeRequest): PullRequest => ({
+  id: mergeRequest.id,
+  number: mergeRequest.iid,
+  title: mergeRequest.title,
+  state: mergeRequest.state === 'opened' ? 'open' : 'closed',
+  url: mergeRequest.web_url,
+  createdAt: mergeRequest.created_at,
+  updatedAt: mergeRequest.updated_at,
+  author: toPerson(mergeRequest.author),
+  head: { ref: mergeRequest.source_branch, sha: mergeRequest.sha },
+  base: { ref: mergeRequest.target_branch, sha: mergeRequest.diff_refs?.base_sha || '' },
+  draft: Boolean(mergeRequest.draft ?? mergeRequest.work_in_progress),
+  merged: mergeRequest.state === 'merged',
+  mergedAt: mergeRequest.merged_at ?? undefined,
+  blocked: BLOCKED_MERGE_STATUSES.has(mergeRequest.detailed_merge_status || ''),
+});
+
+export const toIssue = (issue: GitLabIssue): Issue => ({
+  id: issue.id,
+  number: issue.iid,
+  title: issue.title,
+  state: issue.state === 'opened' ? 'open' : 'closed',
+  url: issue.web_url,
+  createdAt: issue.created_at,
+  updatedAt: issue.updated_at,
+  author: toPerson(issue.author),
+  assignees: issue.assignees.map(toPerson),
+  labels: issue.labels.map(label => ({ name: label.name, color: label.color.replace(/^#/, '') })),
+  comments: issue.user_notes_count,
+});
+
+export const toMember = (member: GitLabMember): Member => ({
+  id: member.id,
+  ...toPerson(member),
+  url: member.web_url,
+  isAdmin: member.access_level >= MAINTAINER_ACCESS,
+});
@@ -0,0 +1,88 @@
+// Shapes of the GitLab REST API (v4) responses gitvis consumes
+
+export interface GitLabUser {
+  id: number;
+  username: string;
+  avatar_url: string | null;
+  web_url: string;
+}
+
+export interface GitLabProject {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  web_url: string;
+  default_branch: string | null;
+  permissions?: {
+    project_access: { access_level: number } | null;
+    group_access: { access_level: number } | null;
+  };
+}
+
+export interface GitLabCommit {
+  id: string;
+  message: string;
+  author_name: string;
+  authored_date: string;
+  parent_ids?: string[];
+  web_url: string;
+}
+
+export interface GitLabBranch {
+  name: string;
+  commit: GitLabCommit;
+  protected: boolean;
+}
+
+export interface GitLabCompare {
+  commits: GitLabCommit[];
+}
+
+export interface GitLabFile {
+  content: string;
+  encoding: 'base64' | 'text';
+}
+
+export interface GitLabMergeRequest {
+  id: number;
+  iid: number;
+  title: string;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  web_url: string;
+  created_at: string;
+  updated_at: string;
+  author: GitLabUser;
+  source_branch: string;
+  target_branch: string;
+  sha: string;
+  diff_refs?: {
+    base_sha: string;
+    head_sha: string;
+  } | null;
+  draft?: boolean;
+  work_in_progress?: boolean;
+  detailed_merge_status?: string;
+  merged_at?: string | null;
+}
+
+export interface GitLabIssue {
+  id: number;
+  iid: number;
+  title: string;
+  state: 'opened' | 'closed';
+  web_url: string;
+  created_at: string;
+  updated_at: string;
+  author: GitLabUser;
+  assignees: GitLabUser[];
+  // Objects when requested with with_labels_details=true
+  labels: Array<{
+    name: string;
+    color: string; // "#rrggbb"
+  }>;
+  user_notes_count: number;
+}
+
+export interface GitLabMember extends GitLabUser {
+  access_level: number;
+}
@@ -0,0 +1,25 @@
+import { Branch } from './types';
+import { TreeOrientation, calculateTreeLayout } from './treeLayout';
+import { TimelineLayout, calculateTimelineLayout } from './timelineLayout';
+
+// The tidy tree in one of its orientations, the force-directed simulation, or lanes along a time axis
+export type LayoutMode = TreeOrientation | 'force' | 'timeline';
+
+export interface LayoutResult {
+  positions: Record<string, { x: number; y: number }>;
+  // The lanes and axis to draw, in timeline mode
+  timeline: TimelineLayout | null;
+}
+
+const CANVAS_WIDTH = 1200;
+const CANVAS_HEIGHT = 800;
+
+// Force-directed mode starts from (and resets to) the horizontal tree
+export const calculateLayout = (branches: Branch[], mode: LayoutMode): LayoutResult => {
+  if (mode === 'timeline') {
+    const timeline = calculateTimelineLayout(branches, CANVAS_WIDTH, CANVAS_HEIGHT);
+    return { positions: timeline.positions, timeline };
+  }
+  const orientation = mode === 'force' ? 'horizontal' : mode;
+  return { positions: calculateTreeLayout(branches, CANVAS_WIDTH, CANVAS_HEIGHT, orientation), timeline: null };
+};
@@ -0,0 +1,60 @@
+// Live positions of the cards that are moving right now. The physics loop
+// writes them here every frame instead of into React state, and whatever
+// draws a card reads it from here first, so only the moving cards redraw.
+// Once everything has come to rest, the canvas commits the final positions
+// to its state and the live ones are dropped.
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface MotionStore {
+  get: (id: string) => Point | undefined;
+  // Positions are replaced, never mutated, so subscribers can compare them
+  set: (id: string, position: Point) => void;
+  delete: (id: string) => void;
+  ids: () => string[];
+  // `positions` with the live ones laid over it; the same object when nothing moves
+  overlay: (positions: Record<string, Point>) => Record<string, Point>;
+  // Tell subscribers about everything set since the last notify, once per frame
+  notify: () => void;
+  subscribe: (listener: () => void) => () => void;
+  version: () => number;
+}
+
+export const createMotionStore = (): MotionStore => {
+  const positions = new Map<string, Point>();
+  const listeners = new Set<() => void>();
+  let version = 0;
+
+  return {
+    get: id => positions.get(id),
+    set: (id, position) => {
+      positions.set(id, position);
+    },
+    delete: id => {
+      positions.delete(id);
+    },
+    ids: () => [...positions.keys()],
+    overlay: resting => {
+      if (positions.size === 0) return resting;
+      const overlaid = { ...resting };
+      positions.forEach((position, id) => {
+        if (id in overlaid) overlaid[id] = position;
+      });
+      return overlaid;
+    },
+    notify: () => {
+      version++;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    version: () => version,
+  };
+};
@@ -0,0 +1,31 @@
+// Errors every provider throws, so the canvas can handle failures without
+// knowing which host it's talking to
+
+export interface ApiFieldError {
+  resource?: string;
+  field?: string;
+  code: string;
+  message?: string;
+}
+
+export class ApiError extends Error {
+  status: number;
+  errors?: ApiFieldError[];
+
+  constructor(message: string, status: number, errors?: ApiFieldError[]) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+export class RateLimitError extends ApiError {
+  resetAt: Date | null;
+
+  constructor(message: string, status: number, resetAt: Date | null) {
+    super(message, status);
+    this.name = 'RateLimitError';
+    this.resetAt = resetAt;
+  }
+}
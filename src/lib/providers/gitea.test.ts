@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createGiteaProvider } from './gitea';
+import { HostInfo } from './types';
+import pulls from '../gitea/fixtures/pulls.json';
+
+const HOST: HostInfo = {
+  id: 'gitea-test',
+  kind: 'gitea',
+  name: 'Gitea',
+  webUrl: 'https://git.example.com',
+  allowWrites: true,
+};
+
+const REPO_URL = '/api/hosts/gitea-test/repos/acme/web';
+
+const json = (body: unknown) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+
+// Answers proxied requests from the recorded fixtures, by path
+const serve = (routes: Record<string, () => Response>) => {
+  const urls: string[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    urls.push(url);
+    const route = routes[url.replace(REPO_URL, '')];
+    return route ? route() : new Response(JSON.stringify({ message: 'The target couldn\'t be found.' }), { status: 404 });
+  }));
+  return urls;
+};
+
+describe('createGiteaProvider', () => {
+  const provider = createGiteaProvider(HOST, 'acme', 'web');
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('compares both ways with each ref encoded and slashes kept', async () => {
+    const urls = serve({
+      '/compare/release/v1%231...feature/caf%C3%A9': () => json({ total_commits: 3, commits: [] }),
+      '/compare/feature/caf%C3%A9...release/v1%231': () => json({ total_commits: 1, commits: [] }),
+    });
+
+    expect(await provider.compare('release/v1#1', 'feature/café')).toEqual({ aheadBy: 3, behindBy: 1 });
+    expect(urls).toHaveLength(2);
+  });
+
+  it('lists only the closed pull requests that were merged', async () => {
+    serve({
+      '/pulls?state=closed&sort=recentupdate&limit=20': () => json(pulls.map(pull => ({ ...pull, state: 'closed' }))),
+    });
+
+    const merged = await provider.listMergedPulls(20);
+
+    expect(merged.map(pull => [pull.number, pull.mergedAt])).toEqual([[40, '2024-04-30T07:12:09Z']]);
+  });
+});
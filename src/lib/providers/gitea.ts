@@ -0,0 +1,121 @@
+import { HostInfo, RepoProvider } from './types';
+import { ApiError, RateLimitError } from './errors';
+import { createHttpClient, decodeBase64, nullIfNotFound } from './http';
+import { getHostScheduler } from '../github/scheduler';
+import {
+  GiteaBranch,
+  GiteaCommit,
+  GiteaCompare,
+  GiteaContent,
+  GiteaIssue,
+  GiteaPullRequest,
+  GiteaRepository,
+  GiteaUser,
+} from '../gitea/types';
+import { toBranchHead, toCommit, toIssue, toMember, toPullRequest, toRepository } from '../gitea/mappers';
+
+const toApiError = async (response: Response): Promise<ApiError> => {
+  let body: { message?: string } = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Non-JSON error body, fall back to the status code
+  }
+
+  // Rate limiting is off by default, but a reverse proxy in front may add it
+  if (response.status === 429) {
+    return new RateLimitError(body.message || 'Rate limit exceeded', response.status, null);
+  }
+
+  return new ApiError(body.message || `Gitea API error: ${response.status}`, response.status);
+};
+
+// A repository on a Gitea or Forgejo instance. Forgejo is a Gitea fork and
+// serves the same /api/v1.
+export const createGiteaProvider = (host: HostInfo, owner: string, repo: string): RepoProvider => {
+  const scheduler = getHostScheduler(host.id);
+  const { request, paginate } = createHttpClient({
+    baseUrl: `/api/hosts/${host.id}`,
+    headers: { 'Accept': 'application/json' },
+    scheduler,
+    toError: toApiError,
+    cacheNamespace: `${host.id}:`,
+    pageSizeParam: 'limit',
+  });
+
+  const repoPath = `/repos/${owner}/${repo}`;
+
+  // Gitea's compare lists only the commits on head that aren't on base, so ask both ways.
+  // Its route takes the refs as they are, slashes included, so only the rest is encoded.
+  const encodeRef = (ref: string) => ref.split('/').map(encodeURIComponent).join('/');
+  const commitsBetween = async (base: string, head: string) =>
+    (await request<GiteaCompare>(`${repoPath}/compare/${encodeRef(base)}...${encodeRef(head)}`)).data.total_commits;
+
+  return {
+    kind: 'gitea',
+    owner,
+    repo,
+    repoKey: `${host.id}:${owner}/${repo}`,
+    webUrl: `${host.webUrl}/${owner}/${repo}`,
+    httpCachePrefix: `${host.id}:${repoPath}`,
+    scheduler,
+    supportsSignIn: false,
+    supportsLiveEvents: false,
+
+    getRepository: async () => toRepository((await request<GiteaRepository>(repoPath)).data, host.allowWrites),
+
+    listBranches: async (onProgress) =>
+      (await paginate<GiteaBranch>(`${repoPath}/branches`, onProgress)).map(toBranchHead),
+
+    compare: async (base, head) => {
+      const [aheadBy, behindBy] = await Promise.all([commitsBetween(base, head), commitsBetween(head, base)]);
+      return { aheadBy, behindBy };
+    },
+
+    // Without a ref the contents API reads the default branch; a directory has no content
+    readFile: (path) => nullIfNotFound(async () => {
+      const { data: file } = await request<GiteaContent>(
+        `${repoPath}/contents/${path.split('/').map(encodeURIComponent).join('/')}`
+      );
+      return file.content === null ? null : decodeBase64(file.content);
+    }),
+
+    // Skip the per-commit stats and signature checks Gitea does by default
+    listCommits: async (sha, perPage = 50) =>
+      (await request<GiteaCommit[]>(
+        `${repoPath}/commits?sha=${encodeURIComponent(sha)}&limit=${perPage}&stat=false&verification=false&files=false`
+      )).data.map(toCommit),
+
+    listPulls: async () =>
+      (await paginate<GiteaPullRequest>(`${repoPath}/pulls?state=open`)).map(toPullRequest),
+
+    // Closed ones include those closed without merging
+    listMergedPulls: async (perPage = 50) =>
+      (await request<GiteaPullRequest[]>(`${repoPath}/pulls?state=closed&sort=recentupdate&limit=${perPage}`))
+        .data.filter(pullRequest => pullRequest.merged).map(toPullRequest),
+
+    listPullCommits: async (pullNumber) =>
+      (await request<GiteaCommit[]>(`${repoPath}/pulls/${pullNumber}/commits?verification=false&files=false`))
+        .data.map(toCommit),
+
+    // type=issues leaves pull requests out
+    listIssues: async (perPage = 50) =>
+      (await request<GiteaIssue[]>(`${repoPath}/issues?state=open&type=issues&limit=${perPage}`)).data.map(toIssue),
+
+    listMembers: async (perPage = 10) =>
+      (await request<GiteaUser[]>(`${repoPath}/collaborators?limit=${perPage}`)).data.map(toMember(host)),
+
+    createPull: async ({ title, body, head, base, draft }) =>
+      toPullRequest((await request<GiteaPullRequest>(`${repoPath}/pulls`, {
+        method: 'POST',
+        body: JSON.stringify({ title: draft ? `WIP: ${title}` : title, body, head, base }),
+      })).data),
+
+    // old_ref_name accepts a commit SHA (Gitea 1.22+, Forgejo 7+)
+    createBranch: async (name, sha) =>
+      toBranchHead((await request<GiteaBranch>(`${repoPath}/branches`, {
+        method: 'POST',
+        body: JSON.stringify({ new_branch_name: name, old_ref_name: sha }),
+      })).data),
+  };
+};
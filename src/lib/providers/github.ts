@@ -0,0 +1,60 @@
+import { HostInfo, RepoProvider } from './types';
+import { createGitHubClient } from '../github/client';
+import { loadBranchGraph } from '../github/graphql';
+import { toCommit, toComparison, toIssue, toMember, toPullRequest, toRepository } from '../github/mappers';
+import { getHostScheduler, githubScheduler } from '../github/scheduler';
+import { decodeBase64, nullIfNotFound } from './http';
+
+const GITHUB_WEB_URL = 'https://github.com';
+
+// github.com, or a GitHub Enterprise Server when a host is given. Enterprise
+// servers use the shared host token: no sign-in, and no webhook stream.
+export const createGitHubProvider = (owner: string, repo: string, host?: HostInfo): RepoProvider => {
+  const client = createGitHubClient(owner, repo, host);
+
+  return {
+    kind: 'github',
+    owner,
+    repo,
+    // Plain owner/repo on github.com, which is what everything stored before other hosts existed is keyed by
+    repoKey: host ? `${host.id}:${owner}/${repo}` : `${owner}/${repo}`,
+    webUrl: `${host?.webUrl ?? GITHUB_WEB_URL}/${owner}/${repo}`,
+    httpCachePrefix: `${host ? `${host.id}:` : ''}/repos/${owner}/${repo}`,
+    scheduler: host ? getHostScheduler(host.id) : githubScheduler,
+    supportsSignIn: !host,
+    supportsLiveEvents: !host,
+
+    getRepository: async () => toRepository(await client.getRepository()),
+
+    listBranches: (onProgress) => client.listBranches(onProgress),
+
+    compare: async (base, head) => toComparison(await client.compare(base, head)),
+
+    readFile: (path) => nullIfNotFound(async () => decodeBase64((await client.getContent(path)).content)),
+
+    listCommits: async (sha, perPage) => (await client.listCommits(sha, perPage)).map(toCommit),
+
+    listPulls: async () => (await client.listPulls()).map(toPullRequest),
+
+    // Closed ones include those closed without merging
+    listMergedPulls: async (perPage) =>
+      (await client.listClosedPulls(perPage)).filter(pullRequest => pullRequest.merged_at).map(toPullRequest),
+
+    listPullCommits: async (pullNumber) => (await client.listPullCommits(pullNumber)).map(toCommit),
+
+    // GitHub lists pull requests as issues too
+    listIssues: async (perPage) =>
+      (await client.listIssues(perPage)).filter(issue => !issue.pull_request).map(toIssue),
+
+    listMembers: async (perPage) => (await client.listCollaborators(perPage)).map(toMember),
+
+    createPull: async (params) => toPullRequest(await client.createPull(params)),
+
+    createBranch: async (name, sha) => {
+      const ref = await client.createRef(`refs/heads/${name}`, sha);
+      return { name, commit: { sha: ref.object.sha, url: '' }, protected: false };
+    },
+
+    loadBranchGraph: (hints, onProgress, buildTree) => loadBranchGraph(client, hints, onProgress, buildTree),
+  };
+};
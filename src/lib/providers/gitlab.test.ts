@@ -0,0 +1,178 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createGitLabProvider } from './gitlab';
+import { ApiError } from './errors';
+import { HostInfo } from './types';
+import project from '../gitlab/fixtures/project.json';
+import branches from '../gitlab/fixtures/branches.json';
+import commits from '../gitlab/fixtures/commits.json';
+import mergeRequests from '../gitlab/fixtures/merge_requests.json';
+import mergeRequest from '../gitlab/fixtures/merge_request.json';
+
+const HOST: HostInfo = {
+  id: 'gitlab-test',
+  kind: 'gitlab',
+  name: 'GitLab',
+  webUrl: 'https://gitlab.example.com',
+  allowWrites: true,
+};
+
+const PROJECT_URL = '/api/hosts/gitlab-test/projects/acme%2Fplatform%2Fweb';
+
+interface Recorded {
+  url: string;
+  method: string;
+  body?: unknown;
+}
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), { status: 200, ...init, headers: { 'Content-Type': 'application/json', ...init.headers } });
+
+// Answers proxied requests from the recorded fixtures, by path
+const serve = (routes: Record<string, () => Response>) => {
+  const requests: Recorded[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit = {}) => {
+    requests.push({
+      url,
+      method: init.method || 'GET',
+      body: typeof init.body === 'string' ? JSON.parse(init.body) : undefined,
+    });
+    const route = routes[url.replace(PROJECT_URL, '')];
+    return route ? route() : json({ message: '404 Not Found' }, { status: 404 });
+  }));
+  return requests;
+};
+
+describe('createGitLabProvider', () => {
+  const provider = createGitLabProvider(HOST, 'acme/platform', 'web');
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('addresses the project by its encoded path, subgroups included', async () => {
+    const requests = serve({ '': () => json(project) });
+
+    const repository = await provider.getRepository();
+
+    expect(requests.map(request => request.url)).toEqual([PROJECT_URL]);
+    expect(repository).toMatchObject({ fullName: 'acme/platform/web', defaultBranch: 'main', canPush: true });
+    expect(provider.webUrl).toBe('https://gitlab.example.com/acme/platform/web');
+  });
+
+  it('lists branches across every page', async () => {
+    const requests = serve({
+      '/repository/branches?per_page=100&page=1': () => json([branches[0]], {
+        headers: {
+          Link: `<https://gitlab.example.com/api/v4/projects/4821/repository/branches?page=2&per_page=100>; rel="next", ` +
+            `<https://gitlab.example.com/api/v4/projects/4821/repository/branches?page=2&per_page=100>; rel="last"`,
+        },
+      }),
+      '/repository/branches?per_page=100&page=2': () => json([branches[1]]),
+    });
+    const onProgress = vi.fn();
+
+    const heads = await provider.listBranches(onProgress);
+
+    expect(requests).toHaveLength(2);
+    expect(heads.map(head => [head.name, head.commit.sha, head.protected])).toEqual([
+      ['feature/checkout', '9d1c5e7b2a4f6e8d0c3b5a7f9e1d3c5b7a9f0e2d', false],
+      ['main', 'e3a8c1f5d7b9e2a4c6f8d0b2e4a6c8f0d2b4e6a8', true],
+    ]);
+    expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+  });
+
+  it('lists commits from a ref with their parents', async () => {
+    const requests = serve({
+      '/repository/commits?ref_name=feature%2Fcheckout&per_page=3': () => json(commits),
+    });
+
+    const history = await provider.listCommits('feature/checkout', 3);
+
+    expect(requests).toHaveLength(1);
+    expect(history.map(commit => [commit.sha.slice(0, 8), commit.parents])).toEqual([
+      ['9d1c5e7b', ['4b7e2f9a1c3d5e7f9b0a2c4e6d8f0a1b3c5e7d9f']],
+      ['4b7e2f9a', ['1f3e5d7c9b2a4f6e8d0c2b4a6f8e0d2c4b6a8f0e']],
+      ['1f3e5d7c', []],
+    ]);
+  });
+
+  it('lists open merge requests as pull requests', async () => {
+    const requests = serve({
+      '/merge_requests?state=opened&per_page=100&page=1': () => json(mergeRequests),
+    });
+
+    const pulls = await provider.listPulls();
+
+    expect(requests).toHaveLength(1);
+    expect(pulls.map(pull => [pull.number, pull.head.ref, pull.base.ref, pull.draft, pull.blocked])).toEqual([
+      [42, 'feature/checkout', 'main', true, false],
+      [40, 'chore/tokens', 'main', false, true],
+    ]);
+  });
+
+  it('lists merged merge requests with their merge dates', async () => {
+    const requests = serve({
+      '/merge_requests?state=merged&order_by=updated_at&sort=desc&per_page=20': () => json([
+        { ...mergeRequests[1], state: 'merged', merged_at: '2024-04-30T07:12:09.551Z' },
+      ]),
+    });
+
+    const pulls = await provider.listMergedPulls(20);
+
+    expect(requests).toHaveLength(1);
+    expect(pulls[0]).toMatchObject({
+      number: 40,
+      state: 'closed',
+      merged: true,
+      mergedAt: '2024-04-30T07:12:09.551Z',
+      base: { ref: 'main' },
+    });
+  });
+
+  it('opens drafts with GitLab\'s title prefix', async () => {
+    const requests = serve({ '/merge_requests': () => json(mergeRequest, { status: 201 }) });
+
+    const pull = await provider.createPull({
+      title: 'Pay with saved cards',
+      body: 'Lets returning customers pick a saved card.',
+      head: 'feature/saved-cards',
+      base: 'main',
+      draft: true,
+    });
+
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      body: {
+        title: 'Draft: Pay with saved cards',
+        description: 'Lets returning customers pick a saved card.',
+        source_branch: 'feature/saved-cards',
+        target_branch: 'main',
+      },
+    });
+    expect(pull).toMatchObject({ number: 43, draft: true, head: { ref: 'feature/saved-cards' } });
+  });
+
+  it('turns field errors into an ApiError', async () => {
+    serve({
+      '/merge_requests': () => json(
+        { message: { source_branch: ['is invalid'], target_branch: ['does not exist'] } },
+        { status: 400 }
+      ),
+    });
+
+    const error = await provider.createPull({ title: 'x', body: '', head: 'nope', base: 'gone' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      status: 400,
+      message: 'source_branch is invalid, target_branch does not exist',
+    });
+    expect(error.errors.map((fieldError: { field: string }) => fieldError.field)).toEqual(['source_branch', 'target_branch']);
+  });
+
+  it('reads a missing file as null', async () => {
+    serve({ '': () => json(project) });
+
+    expect(await provider.readFile('.gitvis.json')).toBeNull();
+  });
+});
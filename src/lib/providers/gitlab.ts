@@ -0,0 +1,142 @@
+import { HostInfo, RepoProvider } from './types';
+import { ApiError, RateLimitError } from './errors';
+import { createHttpClient, decodeBase64, nullIfNotFound } from './http';
+import { getHostScheduler } from '../github/scheduler';
+import {
+  GitLabBranch,
+  GitLabCommit,
+  GitLabCompare,
+  GitLabFile,
+  GitLabIssue,
+  GitLabMember,
+  GitLabMergeRequest,
+  GitLabProject,
+} from '../gitlab/types';
+import { toBranchHead, toCommit, toIssue, toMember, toPullRequest, toRepository } from '../gitlab/mappers';
+
+// GitLab reports validation failures as a string, a list of strings or a map of field -> messages
+const toApiError = async (response: Response): Promise<ApiError> => {
+  let body: { message?: string | string[] | Record<string, string[]>; error?: string } = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Non-JSON error body, fall back to the status code
+  }
+
+  if (response.status === 429) {
+    const reset = response.headers.get('ratelimit-reset');
+    return new RateLimitError(
+      typeof body.message === 'string' ? body.message : 'Rate limit exceeded',
+      response.status,
+      reset ? new Date(parseInt(reset, 10) * 1000) : null
+    );
+  }
+
+  const { message } = body;
+  if (message && typeof message === 'object' && !Array.isArray(message)) {
+    const errors = Object.entries(message).flatMap(([field, messages]) =>
+      messages.map(text => ({ field, code: 'invalid', message: `${field} ${text}` }))
+    );
+    return new ApiError(errors.map(error => error.message).join(', '), response.status, errors);
+  }
+
+  return new ApiError(
+    (Array.isArray(message) ? message.join(', ') : message) || body.error || `GitLab API error: ${response.status}`,
+    response.status
+  );
+};
+
+// A GitLab project on a configured host. "owner" is the full namespace, which
+// may include subgroups (group/subgroup).
+export const createGitLabProvider = (host: HostInfo, owner: string, repo: string): RepoProvider => {
+  const scheduler = getHostScheduler(host.id);
+  const { request, paginate } = createHttpClient({
+    baseUrl: `/api/hosts/${host.id}`,
+    headers: { 'Accept': 'application/json' },
+    scheduler,
+    toError: toApiError,
+    cacheNamespace: `${host.id}:`,
+  });
+
+  // GitLab addresses projects by their URL-encoded path
+  const projectPath = `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+
+  const commitsBetween = async (from: string, to: string) =>
+    (await request<GitLabCompare>(
+      `${projectPath}/repository/compare?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+    )).data.commits.length;
+
+  return {
+    kind: 'gitlab',
+    owner,
+    repo,
+    repoKey: `${host.id}:${owner}/${repo}`,
+    webUrl: `${host.webUrl}/${owner}/${repo}`,
+    httpCachePrefix: `${host.id}:${projectPath}`,
+    scheduler,
+    supportsSignIn: false,
+    supportsLiveEvents: false,
+
+    getRepository: async () => toRepository((await request<GitLabProject>(projectPath)).data, host.allowWrites),
+
+    listBranches: async (onProgress) =>
+      (await paginate<GitLabBranch>(`${projectPath}/repository/branches`, onProgress)).map(toBranchHead),
+
+    // GitLab's compare only lists the commits on one side, so ask both ways
+    compare: async (base, head) => {
+      const [aheadBy, behindBy] = await Promise.all([commitsBetween(base, head), commitsBetween(head, base)]);
+      return { aheadBy, behindBy };
+    },
+
+    // The files API needs a ref, so look up the default branch first
+    readFile: (path) => nullIfNotFound(async () => {
+      const { default_branch: ref } = (await request<GitLabProject>(projectPath)).data;
+      const { data: file } = await request<GitLabFile>(
+        `${projectPath}/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref || 'main')}`
+      );
+      return file.encoding === 'base64' ? decodeBase64(file.content) : file.content;
+    }),
+
+    listCommits: async (sha, perPage = 50) =>
+      (await request<GitLabCommit[]>(
+        `${projectPath}/repository/commits?ref_name=${encodeURIComponent(sha)}&per_page=${perPage}`
+      )).data.map(toCommit),
+
+    listPulls: async () =>
+      (await paginate<GitLabMergeRequest>(`${projectPath}/merge_requests?state=opened`)).map(toPullRequest),
+
+    listMergedPulls: async (perPage = 50) =>
+      (await request<GitLabMergeRequest[]>(
+        `${projectPath}/merge_requests?state=merged&order_by=updated_at&sort=desc&per_page=${perPage}`
+      )).data.map(toPullRequest),
+
+    listPullCommits: async (pullNumber) =>
+      (await request<GitLabCommit[]>(`${projectPath}/merge_requests/${pullNumber}/commits`)).data.map(toCommit),
+
+    listIssues: async (perPage = 50) =>
+      (await request<GitLabIssue[]>(
+        `${projectPath}/issues?state=opened&with_labels_details=true&per_page=${perPage}`
+      )).data.map(toIssue),
+
+    listMembers: async (perPage = 10) =>
+      (await request<GitLabMember[]>(`${projectPath}/members/all?per_page=${perPage}`)).data.map(toMember),
+
+    // GitLab marks drafts with a title prefix rather than a flag
+    createPull: async ({ title, body, head, base, draft }) =>
+      toPullRequest((await request<GitLabMergeRequest>(`${projectPath}/merge_requests`, {
+        method: 'POST',
+        body: JSON.stringify({
+          title: draft ? `Draft: ${title}` : title,
+          description: body,
+          source_branch: head,
+          target_branch: base,
+        }),
+      })).data),
+
+    createBranch: async (name, sha) =>
+      toBranchHead((await request<GitLabBranch>(
+        `${projectPath}/repository/branches?branch=${encodeURIComponent(name)}&ref=${encodeURIComponent(sha)}`,
+        { method: 'POST' }
+      )).data),
+  };
+};
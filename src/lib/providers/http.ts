@@ -0,0 +1,126 @@
+import { ApiError } from './errors';
+import { RequestScheduler } from '../github/scheduler';
+import { getHttpCacheStore } from '../github/httpCache';
+
+const PER_PAGE = 100;
+
+export interface HttpClientOptions {
+  // Our server-side proxy for the host, which attaches the token
+  baseUrl: string;
+  headers: Record<string, string>;
+  scheduler: RequestScheduler;
+  toError: (response: Response) => Promise<ApiError>;
+  // Prefixed to HTTP cache keys so hosts with overlapping API paths stay apart
+  cacheNamespace?: string;
+  // Query parameter for the page size; Gitea calls it "limit"
+  pageSizeParam?: string;
+}
+
+export interface HttpClient {
+  request: <T>(path: string, init?: RequestInit) => Promise<{ data: T; link: string | null }>;
+  paginate: <T>(path: string, onProgress?: (loaded: number, total: number) => void) => Promise<T[]>;
+}
+
+// Read the last page number from a Link header. GitHub, GitLab and Gitea format it the same way.
+const getLastPage = (linkHeader: string | null): number => {
+  const lastPageMatch = linkHeader?.match(/[?&]page=(\d+)[^>]*>; rel="last"/);
+  return lastPageMatch ? parseInt(lastPageMatch[1], 10) : 1;
+};
+
+export const createHttpClient = ({
+  baseUrl,
+  headers: defaultHeaders,
+  scheduler,
+  toError,
+  cacheNamespace = '',
+  pageSizeParam = 'per_page',
+}: HttpClientOptions): HttpClient => {
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<{ data: T; link: string | null }> => {
+    const headers: Record<string, string> = { ...defaultHeaders };
+    if (init.body) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    // GETs are revalidated against the cached copy; a 304 doesn't count against the rate limit
+    const isGet = !init.method || init.method === 'GET';
+    const cache = getHttpCacheStore();
+    const cacheKey = `${cacheNamespace}${path}`;
+    const cached = isGet ? await cache.get(cacheKey) : null;
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    } else if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    // The scheduler limits concurrency and waits out rate limits before we see the response
+    const response = await scheduler.schedule(path, () =>
+      fetch(`${baseUrl}${path}`, {
+        ...init,
+        // We do our own revalidation, so keep the browser cache out of the way
+        cache: 'no-store',
+        headers: { ...headers, ...(init.headers as Record<string, string> | undefined) }
+      })
+    );
+
+    if (response.status === 304 && cached) {
+      return { data: cached.data as T, link: cached.link };
+    }
+
+    if (!response.ok) {
+      throw await toError(response);
+    }
+
+    const data = await response.json();
+    const link = response.headers.get('Link');
+    const etag = response.headers.get('ETag');
+    const lastModified = response.headers.get('Last-Modified');
+    if (isGet && (etag || lastModified)) {
+      await cache.set(cacheKey, { etag, lastModified, link, data, storedAt: Date.now() });
+    }
+
+    return { data, link };
+  };
+
+  // Fetch every page of a list endpoint. The first page tells us how many pages
+  // there are; the rest are queued together and the scheduler caps concurrency.
+  const paginate = async <T>(
+    path: string,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<T[]> => {
+    const separator = path.includes('?') ? '&' : '?';
+    const pageUrl = (page: number) => `${path}${separator}${pageSizeParam}=${PER_PAGE}&page=${page}`;
+
+    const { data: firstPage, link } = await request<T[]>(pageUrl(1));
+    const totalPages = getLastPage(link);
+    let loaded = 1;
+    onProgress?.(loaded, totalPages);
+
+    const remainingPages = await Promise.all(
+      Array.from({ length: totalPages - 1 }, (_, index) =>
+        request<T[]>(pageUrl(index + 2)).then(({ data }) => {
+          loaded++;
+          onProgress?.(loaded, totalPages);
+          return data;
+        })
+      )
+    );
+
+    return [firstPage, ...remainingPages].flat();
+  };
+
+  return { request, paginate };
+};
+
+// Files come back from the contents APIs base64-encoded, with line breaks on GitHub
+export const decodeBase64 = (content: string): string =>
+  new TextDecoder().decode(Uint8Array.from(atob(content.replace(/\s/g, '')), char => char.charCodeAt(0)));
+
+// A missing file is an answer, not a failure
+export const nullIfNotFound = async <T>(load: () => Promise<T>): Promise<T | null> => {
+  try {
+    return await load();
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) return null;
+    throw error;
+  }
+};
@@ -0,0 +1,21 @@
+import { HostInfo, RepoProvider } from './types';
+import { createGitHubProvider } from './github';
+import { createGitLabProvider } from './gitlab';
+import { createGiteaProvider } from './gitea';
+import { createLocalProvider } from './local';
+
+// Pick the provider for a repository. Without a host it's a github.com repository.
+export const createProvider = (host: HostInfo | undefined, owner: string, repo: string): RepoProvider => {
+  switch (host?.kind) {
+    case 'gitlab':
+      return createGitLabProvider(host, owner, repo);
+    case 'gitea':
+      return createGiteaProvider(host, owner, repo);
+    case 'local':
+      return createLocalProvider(repo);
+    case 'github':
+      return createGitHubProvider(owner, repo, host);
+    default:
+      return createGitHubProvider(owner, repo);
+  }
+};
@@ -0,0 +1,92 @@
+import { HostInfo, RepoProvider } from './types';
+import { ApiError } from './errors';
+import { createHttpClient } from './http';
+import { getHostScheduler } from '../github/scheduler';
+import { BranchHead } from '../types';
+
+// The pseudo-host local repositories open under; they have no web UI and no token
+export const LOCAL_HOST: HostInfo = {
+  id: 'local',
+  kind: 'local',
+  name: 'Local',
+  webUrl: '',
+  allowWrites: false,
+};
+
+const toApiError = async (response: Response): Promise<ApiError> => {
+  let body: { message?: string } = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Non-JSON error body, fall back to the status code
+  }
+  return new ApiError(body.message || `Local git error: ${response.status}`, response.status);
+};
+
+// Read-only: there are no pull requests, issues or members, and nothing is written to the clone
+const notSupported = async (): Promise<never> => {
+  throw new ApiError('Local repositories are read-only', 405);
+};
+
+// A repository on the server's disk, read through /api/local with git plumbing.
+// Data comes back already in the internal model.
+export const createLocalProvider = (repo: string): RepoProvider => {
+  const scheduler = getHostScheduler(LOCAL_HOST.id);
+  const { request } = createHttpClient({
+    baseUrl: `/api/local/${encodeURIComponent(repo)}`,
+    headers: { 'Accept': 'application/json' },
+    scheduler,
+    toError: toApiError,
+    cacheNamespace: `${LOCAL_HOST.id}:${repo}`,
+  });
+
+  return {
+    kind: 'local',
+    owner: LOCAL_HOST.id,
+    repo,
+    repoKey: `${LOCAL_HOST.id}:${repo}`,
+    webUrl: '',
+    httpCachePrefix: `${LOCAL_HOST.id}:${repo}`,
+    scheduler,
+    supportsSignIn: false,
+    supportsLiveEvents: false,
+
+    getRepository: async () => (await request<Awaited<ReturnType<RepoProvider['getRepository']>>>('/repository')).data,
+
+    listBranches: async (onProgress) => {
+      const { data } = await request<BranchHead[]>('/branches');
+      onProgress?.(1, 1);
+      return data;
+    },
+
+    compare: async (base, head) =>
+      (await request<Awaited<ReturnType<RepoProvider['compare']>>>(
+        `/compare?base=${encodeURIComponent(base)}&head=${encodeURIComponent(head)}`
+      )).data,
+
+    readFile: async (path) =>
+      (await request<{ content: string | null }>(`/file?path=${encodeURIComponent(path)}`)).data.content,
+
+    listCommits: async (sha, perPage = 50) =>
+      (await request<Awaited<ReturnType<RepoProvider['listCommits']>>>(
+        `/commits?sha=${encodeURIComponent(sha)}&limit=${perPage}`
+      )).data,
+
+    listPulls: async () => [],
+    listMergedPulls: async () => [],
+    listPullCommits: async () => [],
+    listIssues: async () => [],
+    listMembers: async () => [],
+    createPull: notSupported,
+    createBranch: notSupported,
+
+    loadBranchGraph: async (hints, onProgress) => {
+      const { data } = await request<Awaited<ReturnType<NonNullable<RepoProvider['loadBranchGraph']>>>>('/graph', {
+        method: 'POST',
+        body: JSON.stringify({ hints }),
+      });
+      onProgress?.(1, 1);
+      return data;
+    },
+  };
+};
@@ -0,0 +1,81 @@
+import {
+  BranchHead,
+  BranchTree,
+  Commit,
+  Comparison,
+  CreatePullParams,
+  Issue,
+  Member,
+  ParentHints,
+  PullRequest,
+  Repository,
+} from '../types';
+import { RequestScheduler } from '../github/scheduler';
+
+export type ProviderKind = 'github' | 'gitlab' | 'gitea' | 'local';
+
+// What the browser knows about a configured host. Tokens and API URLs stay on the server.
+export interface HostInfo {
+  id: string;
+  kind: ProviderKind;
+  name: string;
+  webUrl: string;
+  allowWrites: boolean;
+}
+
+// Everything the canvas needs in one pass, for providers that can load it in bulk
+export interface BranchGraph extends BranchTree {
+  defaultBranch: string;
+  pullRequests: PullRequest[];
+  pullRequestAheadBy: Record<number, number>;
+}
+
+// The history a bulk loader fetched, for the tree to be inferred from
+export interface BranchHistories {
+  branches: BranchHead[];
+  defaultBranch: string;
+  commits: Array<Pick<Commit, 'sha' | 'parents'> & { date?: string }>;
+  // Commits each branch is ahead of the default branch, where a compare says exactly
+  aheadOfDefault: Record<string, number>;
+}
+
+// Infers the tree from loaded history; the canvas hands in one that runs off the main thread
+export type BuildBranchTree = (histories: BranchHistories, hints: ParentHints) => Promise<BranchTree>;
+
+// One repository on one host, mapped into gitvis' internal model
+export interface RepoProvider {
+  kind: ProviderKind;
+  owner: string;
+  repo: string;
+  // Unique across hosts; keys everything gitvis stores about the repository
+  repoKey: string;
+  webUrl: string;
+  // HTTP cache keys for this repository's API responses start with this
+  httpCachePrefix: string;
+  scheduler: RequestScheduler;
+  // Sign-in decides who writes are attributed to; without it the host's shared token is used
+  supportsSignIn: boolean;
+  // Webhook events reach the canvas over /api/events
+  supportsLiveEvents: boolean;
+  getRepository: () => Promise<Repository>;
+  listBranches: (onProgress?: (loaded: number, total: number) => void) => Promise<BranchHead[]>;
+  compare: (base: string, head: string) => Promise<Comparison>;
+  listCommits: (sha: string, perPage?: number) => Promise<Commit[]>;
+  // A file's text on the default branch, or null when there's no such file
+  readFile: (path: string) => Promise<string | null>;
+  listPulls: () => Promise<PullRequest[]>;
+  // The most recently merged pull requests, newest first
+  listMergedPulls: (perPage?: number) => Promise<PullRequest[]>;
+  listPullCommits: (pullNumber: number) => Promise<Commit[]>;
+  // Open issues only; pull requests never show up here
+  listIssues: (perPage?: number) => Promise<Issue[]>;
+  listMembers: (perPage?: number) => Promise<Member[]>;
+  createPull: (params: CreatePullParams) => Promise<PullRequest>;
+  createBranch: (name: string, sha: string) => Promise<BranchHead>;
+  // Optional bulk loader; the canvas falls back to listBranches and listCommits without it
+  loadBranchGraph?: (
+    hints: ParentHints,
+    onProgress?: (loaded: number, total: number) => void,
+    buildTree?: BuildBranchTree
+  ) => Promise<BranchGraph>;
+}
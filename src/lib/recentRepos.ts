@@ -0,0 +1,76 @@
+import { HostInfo } from './providers/types';
+
+export interface RecentRepo {
+  owner: string;
+  repo: string;
+  host?: string; // Configured host id; github.com when missing
+  visitedAt: number;
+}
+
+const RECENT_REPOS_KEY = 'gitvis-recent-repos';
+const MAX_RECENT_REPOS = 8;
+
+// Split a repository URL on a configured host into owner and repo. GitLab
+// namespaces can nest and its sub-pages sit after "/-/"; Gitea repos are always owner/repo.
+const parseHostUrl = (url: string, host: HostInfo): { owner: string; repo: string; host: string } | null => {
+  const base = host.webUrl.toLowerCase();
+  if (!url.toLowerCase().startsWith(`${base}/`)) return null;
+
+  const rest = url.slice(base.length + 1).split('/-/')[0];
+  const segments = rest.split('/').filter(Boolean);
+  const repoSegments = host.kind === 'gitlab' ? segments : segments.slice(0, 2);
+  if (repoSegments.length < 2) return null;
+
+  return {
+    owner: repoSegments.slice(0, -1).join('/'),
+    repo: repoSegments[repoSegments.length - 1],
+    host: host.id,
+  };
+};
+
+// Parse "owner/repo", a GitHub URL, or a repository URL on one of the configured hosts
+export const parseRepoInput = (
+  input: string,
+  hosts: HostInfo[] = []
+): { owner: string; repo: string; host?: string } | null => {
+  const trimmed = input.trim().replace(/\.git$/, '').replace(/\/+$/, '');
+  const match = trimmed.match(/^(?:https?:\/\/github\.com\/)?([A-Za-z0-9_.-]+)\/([A-Za-z0-9_.-]+)$/);
+  if (match) return { owner: match[1], repo: match[2] };
+
+  for (const host of hosts) {
+    const parsed = parseHostUrl(trimmed, host);
+    if (parsed) return parsed;
+  }
+  return null;
+};
+
+const isSameRepo = (recent: RecentRepo, owner: string, repo: string, host?: string) =>
+  recent.owner === owner && recent.repo === repo && recent.host === host;
+
+// Canvas route for a repository on github.com or a configured host
+export const repoPath = ({ owner, repo, host }: Pick<RecentRepo, 'owner' | 'repo' | 'host'>): string =>
+  host === 'local' ? `/local/${repo}` : host ? `/hosts/${host}/${owner}/${repo}` : `/${owner}/${repo}`;
+
+export const getRecentRepos = (): RecentRepo[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(RECENT_REPOS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.warn('Failed to parse recent repositories:', e);
+    return [];
+  }
+};
+
+export const addRecentRepo = (owner: string, repo: string, host?: string): RecentRepo[] => {
+  const recent = getRecentRepos().filter(r => !isSameRepo(r, owner, repo, host));
+  const updated = [{ owner, repo, host, visitedAt: Date.now() }, ...recent].slice(0, MAX_RECENT_REPOS);
+  localStorage.setItem(RECENT_REPOS_KEY, JSON.stringify(updated));
+  return updated;
+};
+
+export const removeRecentRepo = (owner: string, repo: string, host?: string): RecentRepo[] => {
+  const updated = getRecentRepos().filter(r => !isSameRepo(r, owner, repo, host));
+  localStorage.setItem(RECENT_REPOS_KEY, JSON.stringify(updated));
+  return updated;
+};
@@ -0,0 +1,51 @@
+import { ParentHints } from './types';
+
+// Branch parents kept per repository in localStorage, keyed by the provider's
+// repoKey. Parents a load inferred are remembered so the tree holds still
+// between loads. Overrides set on the canvas live under their own key, so
+// re-inferring or clearing cached data never drops them.
+
+const getCacheKey = (repoKey: string): string => `gitvis-branches-${repoKey}`;
+const savedKey = (repoKey: string) => `${getCacheKey(repoKey)}-relationships`;
+const overridesKey = (repoKey: string) => `${getCacheKey(repoKey)}-overrides`;
+
+const readMap = (key: string): Record<string, string> => {
+  if (typeof window === 'undefined') return {};
+  const stored = localStorage.getItem(key);
+  if (!stored) return {};
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.warn(`Failed to parse ${key}:`, e);
+    return {};
+  }
+};
+
+export const readParentHints = (repoKey: string): ParentHints => ({
+  overrides: readMap(overridesKey(repoKey)),
+  saved: readMap(savedKey(repoKey)),
+});
+
+export const writeSavedRelationships = (repoKey: string, relationships: Record<string, string>) => {
+  localStorage.setItem(savedKey(repoKey), JSON.stringify(relationships));
+};
+
+export const readParentOverrides = (repoKey: string): Record<string, string> => readMap(overridesKey(repoKey));
+
+// Set or clear (parent = null) a branch's override. The remembered inferred
+// parent goes too, so a cleared override falls back to fresh inference.
+export const setParentOverride = (repoKey: string, branch: string, parent: string | null): Record<string, string> => {
+  const overrides = readMap(overridesKey(repoKey));
+  if (parent) {
+    overrides[branch] = parent;
+  } else {
+    delete overrides[branch];
+  }
+  localStorage.setItem(overridesKey(repoKey), JSON.stringify(overrides));
+
+  const saved = readMap(savedKey(repoKey));
+  delete saved[branch];
+  writeSavedRelationships(repoKey, saved);
+
+  return overrides;
+};
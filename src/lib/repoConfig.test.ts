@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_BRANCH_RULES,
+  findBranchRule,
+  isIgnored,
+  loadRepoConfig,
+  matchesPattern,
+  parseRepoConfig,
+  pinnedRoots,
+} from './repoConfig';
+import { calculateBranchTree } from './branchTree';
+import { RateLimitError } from './providers/errors';
+import { Branch } from './types';
+
+const branch = (name: string): Branch => ({ name, commit: { sha: name, url: '' }, protected: false });
+
+describe('matchesPattern', () => {
+  it('matches globs against the whole name', () => {
+    expect(matchesPattern('release/*', 'release/1.2')).toBe(true);
+    expect(matchesPattern('release/*', 'release/1.2/hotfix')).toBe(false);
+    expect(matchesPattern('release/**', 'release/1.2/hotfix')).toBe(true);
+    expect(matchesPattern('v?', 'v1')).toBe(true);
+    expect(matchesPattern('main', 'main-old')).toBe(false);
+  });
+
+  it('treats regex characters in globs literally', () => {
+    expect(matchesPattern('v1.2', 'v1.2')).toBe(true);
+    expect(matchesPattern('v1.2', 'v1x2')).toBe(false);
+    expect(matchesPattern('(wip)+', '(wip)+')).toBe(true);
+  });
+
+  it('reads /regex/flags as a regular expression', () => {
+    expect(matchesPattern('/^feat(ure)?\\//i', 'Feature/login')).toBe(true);
+    expect(matchesPattern('/^feat(ure)?\\//', 'Feature/login')).toBe(false);
+  });
+
+  it('refuses stateful flags and broken regexes', () => {
+    expect(() => matchesPattern('/a/g', 'a')).toThrow(SyntaxError);
+    expect(() => matchesPattern('/(/', 'a')).toThrow(SyntaxError);
+  });
+});
+
+describe('parseRepoConfig', () => {
+  it('reads a valid file', () => {
+    const { config, errors } = parseRepoConfig(JSON.stringify({
+      branches: [
+        { pattern: 'trunk', color: '#22c55e' },
+        { pattern: 'staging/*', parent: 'trunk', color: '#F59' },
+      ],
+      ignore: ['dependabot/**'],
+      roots: ['trunk'],
+    }));
+
+    expect(errors).toEqual([]);
+    expect(config).toEqual({
+      branches: [
+        { pattern: 'trunk', color: '#22c55e' },
+        { pattern: 'staging/*', parent: 'trunk', color: '#F59' },
+      ],
+      ignore: ['dependabot/**'],
+      roots: ['trunk'],
+    });
+  });
+
+  it('rejects files that are not a JSON object', () => {
+    expect(parseRepoConfig('{').config).toBeNull();
+    expect(parseRepoConfig('{').errors[0]).toMatch(/^Not valid JSON/);
+    expect(parseRepoConfig('[]')).toEqual({ config: null, errors: ['The file must contain a JSON object'] });
+  });
+
+  it('reports unknown keys and keeps the rest', () => {
+    const { config, errors } = parseRepoConfig(JSON.stringify({
+      branches: [{ pattern: 'main', colour: '#fff' }],
+      root: ['main'],
+    }));
+
+    expect(config).toEqual({ branches: [{ pattern: 'main' }], ignore: [], roots: [] });
+    expect(errors).toEqual(['Unknown key "root"', 'branches[0]: unknown key "colour"']);
+  });
+
+  it('drops invalid fields and rules', () => {
+    const { config, errors } = parseRepoConfig(JSON.stringify({
+      branches: [
+        'main',
+        { parent: 'main' },
+        { pattern: 'env/*', parent: '', color: 'orange' },
+        { pattern: 'qa/*', parent: 'staging' },
+      ],
+      ignore: 'dependabot/**',
+      roots: ['trunk', 7],
+    }));
+
+    expect(config).toEqual({
+      branches: [{ pattern: 'env/*' }, { pattern: 'qa/*', parent: 'staging' }],
+      ignore: [],
+      roots: ['trunk'],
+    });
+    expect(errors).toEqual([
+      'branches[0] must be an object with a pattern',
+      'branches[1].pattern must be a non-empty string',
+      'branches[2].parent must be a non-empty string',
+      'branches[2].color must be a hex color like #22c55e',
+      'ignore must be a list of patterns',
+      'roots[1] must be a non-empty string',
+    ]);
+  });
+
+  it('reports patterns that do not compile', () => {
+    const { config, errors } = parseRepoConfig(JSON.stringify({
+      branches: [{ pattern: '/[/' }, { pattern: 'a', parent: '/a/g' }],
+      ignore: ['/(?<x/'],
+    }));
+
+    expect(config).toEqual({ branches: [{ pattern: 'a' }], ignore: [], roots: [] });
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toMatch(/^branches\[0\]\.pattern: invalid pattern \/\[\//);
+    expect(errors[1]).toBe('branches[1].parent: invalid pattern /a/g (unsupported flags "g")');
+    expect(errors[2]).toMatch(/^ignore\[0\]: invalid pattern/);
+  });
+
+  it('reports a branches value that is not a list', () => {
+    expect(parseRepoConfig('{"branches": {}}').errors).toEqual(['branches must be a list of rules']);
+  });
+});
+
+describe('rules', () => {
+  const { config } = parseRepoConfig(JSON.stringify({
+    branches: [{ pattern: 'staging/*', parent: 'trunk' }, { pattern: '**', color: '#000' }],
+    ignore: ['dependabot/**'],
+    roots: ['trunk'],
+  }));
+
+  it('applies the first rule that matches', () => {
+    expect(findBranchRule(config, 'staging/eu')).toEqual({ pattern: 'staging/*', parent: 'trunk' });
+    expect(findBranchRule(config, 'other')).toEqual({ pattern: '**', color: '#000' });
+    expect(findBranchRule(null, 'other')).toBeUndefined();
+  });
+
+  it('ignores and pins branches, but never the default branch', () => {
+    expect(isIgnored(config, 'dependabot/npm/react')).toBe(true);
+    expect(isIgnored(null, 'dependabot/npm/react')).toBe(false);
+    expect(pinnedRoots(config, ['main', 'trunk', 'staging/eu'], 'main')).toEqual(new Set(['main', 'trunk']));
+  });
+});
+
+describe('default rules', () => {
+  // History that can't be loaded sends calculateBranchTree to the rules
+  const failing = { listCommits: vi.fn().mockRejectedValue(new Error('offline')) };
+  const branches = [branch('main'), branch('develop'), branch('feature/login'), branch('hotfix/crash'), branch('spike')];
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('are git-flow names', () => {
+    expect(findBranchRule({ branches: DEFAULT_BRANCH_RULES, ignore: [], roots: [] }, 'feat/x')?.parent)
+      .toBe('/^(develop|dev|development)$/i');
+  });
+
+  it('place branches by name when there is no config', async () => {
+    const tree = await calculateBranchTree(branches, failing, 'main');
+
+    expect(tree.branches.map(({ name, parentage }) => [name, parentage?.parent, parentage?.reason])).toEqual([
+      ['main', undefined, undefined],
+      ['develop', 'main', 'default'],
+      ['feature/login', 'develop', 'pattern'],
+      ['hotfix/crash', 'develop', 'pattern'],
+      ['spike', 'main', 'default'],
+    ]);
+  });
+
+  it('give way to the repository\'s own rules', async () => {
+    const config = { branches: [{ pattern: 'spike', parent: 'develop' }], ignore: [], roots: [] };
+    const tree = await calculateBranchTree(branches, failing, 'main', { config });
+    const parentOf = (name: string) => tree.branches.find(candidate => candidate.name === name)?.parent;
+
+    expect(parentOf('spike')).toBe('develop');
+    expect(parentOf('feature/login')).toBe('main');
+  });
+});
+
+describe('loadRepoConfig', () => {
+  it('has no rules without a file', async () => {
+    expect(await loadRepoConfig({ readFile: async () => null })).toEqual({ config: null, errors: [] });
+  });
+
+  it('reports a file that cannot be read, but not a rate limit', async () => {
+    expect(await loadRepoConfig({ readFile: async () => { throw new Error('boom'); } }))
+      .toEqual({ config: null, errors: ['Couldn\'t be read: boom'] });
+
+    const limited = new RateLimitError('limited', 403, null);
+    await expect(loadRepoConfig({ readFile: async () => { throw limited; } })).rejects.toBe(limited);
+  });
+});
@@ -0,0 +1,173 @@
+import { BranchRule, RepoConfig } from './types';
+import { RepoProvider } from './providers/types';
+import { RateLimitError } from './providers/errors';
+
+// .gitvis.json on the default branch describes a repository's branch model:
+//
+//   {
+//     "branches": [
+//       { "pattern": "trunk", "color": "#22c55e" },
+//       { "pattern": "staging/*", "parent": "trunk", "color": "#f59e0b" },
+//       { "pattern": "env/*", "parent": "staging/*" }
+//     ],
+//     "ignore": ["dependabot/**"],
+//     "roots": ["trunk"]
+//   }
+//
+// The first rule whose pattern matches a branch applies to it. Invalid entries
+// are dropped and reported; the rest of the file still applies.
+
+export const CONFIG_PATH = '.gitvis.json';
+
+// Git-flow names, used to guess parents when history can't be loaded and the repository has no rules
+export const DEFAULT_BRANCH_RULES: BranchRule[] = [
+  { pattern: '/^(feature|feat)\\//i', parent: '/^(develop|dev|development)$/i' },
+  { pattern: '/^(bugfix|fix|hotfix)\\//i', parent: '/^(develop|dev|development)$/i' },
+];
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+// g and y make test() stateful
+const REGEX_FLAGS = /^[imsu]*$/;
+
+const compiled = new Map<string, RegExp>();
+
+// /regex/flags as written; anything else is a glob over the whole name
+const compilePattern = (pattern: string): RegExp => {
+  const regex = pattern.match(REGEX_PATTERN);
+  if (regex) {
+    if (!REGEX_FLAGS.test(regex[2])) throw new SyntaxError(`unsupported flags "${regex[2]}"`);
+    return new RegExp(regex[1], regex[2]);
+  }
+
+  const source = pattern.replace(/\*\*|\*|\?|[.+^${}()|[\]\\]/g, token =>
+    token === '**' ? '.*' : token === '*' ? '[^/]*' : token === '?' ? '[^/]' : `\\${token}`
+  );
+  return new RegExp(`^${source}$`);
+};
+
+export const matchesPattern = (pattern: string, name: string): boolean => {
+  let regex = compiled.get(pattern);
+  if (!regex) {
+    regex = compilePattern(pattern);
+    compiled.set(pattern, regex);
+  }
+  return regex.test(name);
+};
+
+export const findBranchRule = (config: RepoConfig | null | undefined, name: string): BranchRule | undefined =>
+  config?.branches.find(rule => matchesPattern(rule.pattern, name));
+
+export const isIgnored = (config: RepoConfig | null | undefined, name: string): boolean =>
+  Boolean(config?.ignore.some(pattern => matchesPattern(pattern, name)));
+
+// The default branch is always a root, and never ignored
+export const pinnedRoots = (
+  config: RepoConfig | null | undefined,
+  names: string[],
+  defaultBranch: string
+): Set<string> =>
+  new Set(names.filter(name => name === defaultBranch || config?.roots.some(pattern => matchesPattern(pattern, name))));
+
+export const withoutIgnored = <T extends { name: string }>(
+  config: RepoConfig | null | undefined,
+  branches: T[],
+  defaultBranch: string
+): T[] => branches.filter(branch => branch.name === defaultBranch || !isIgnored(config, branch.name));
+
+const checkPattern = (value: unknown, where: string, errors: string[]): value is string => {
+  if (typeof value !== 'string' || !value) {
+    errors.push(`${where} must be a non-empty string`);
+    return false;
+  }
+  try {
+    matchesPattern(value, '');
+  } catch (error) {
+    errors.push(`${where}: invalid pattern ${value} (${error instanceof Error ? error.message : error})`);
+    return false;
+  }
+  return true;
+};
+
+const parsePatternList = (value: unknown, key: string, errors: string[]): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${key} must be a list of patterns`);
+    return [];
+  }
+  return value.filter((pattern, index): pattern is string => checkPattern(pattern, `${key}[${index}]`, errors));
+};
+
+const parseRule = (value: unknown, index: number, errors: string[]): BranchRule | null => {
+  const where = `branches[${index}]`;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${where} must be an object with a pattern`);
+    return null;
+  }
+
+  const { pattern, parent, color, ...unknown } = value as Record<string, unknown>;
+  Object.keys(unknown).forEach(key => errors.push(`${where}: unknown key "${key}"`));
+  if (!checkPattern(pattern, `${where}.pattern`, errors)) return null;
+
+  const rule: BranchRule = { pattern };
+  if (parent !== undefined && checkPattern(parent, `${where}.parent`, errors)) {
+    rule.parent = parent;
+  }
+  if (color !== undefined) {
+    if (typeof color === 'string' && HEX_COLOR.test(color)) {
+      rule.color = color;
+    } else {
+      errors.push(`${where}.color must be a hex color like #22c55e`);
+    }
+  }
+  return rule;
+};
+
+// Validate the file's text. Whatever is valid is kept, so one typo doesn't turn the whole model off.
+export const parseRepoConfig = (text: string): { config: RepoConfig | null; errors: string[] } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    return { config: null, errors: [`Not valid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    return { config: null, errors: ['The file must contain a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const { branches, ignore, roots, ...unknown } = json as Record<string, unknown>;
+  Object.keys(unknown).forEach(key => errors.push(`Unknown key "${key}"`));
+
+  let rules: BranchRule[] = [];
+  if (Array.isArray(branches)) {
+    rules = branches
+      .map((rule, index) => parseRule(rule, index, errors))
+      .filter((rule): rule is BranchRule => rule !== null);
+  } else if (branches !== undefined) {
+    errors.push('branches must be a list of rules');
+  }
+
+  return {
+    config: {
+      branches: rules,
+      ignore: parsePatternList(ignore, 'ignore', errors),
+      roots: parsePatternList(roots, 'roots', errors),
+    },
+    errors,
+  };
+};
+
+// Read and validate the repository's config. No file means no rules; a file
+// that can't be read is reported rather than failing the whole load.
+export const loadRepoConfig = async (
+  provider: Pick<RepoProvider, 'readFile'>
+): Promise<{ config: RepoConfig | null; errors: string[] }> => {
+  try {
+    const text = await provider.readFile(CONFIG_PATH);
+    return text === null ? { config: null, errors: [] } : parseRepoConfig(text);
+  } catch (error) {
+    if (error instanceof RateLimitError) throw error;
+    return { config: null, errors: [`Couldn't be read: ${error instanceof Error ? error.message : error}`] };
+  }
+};
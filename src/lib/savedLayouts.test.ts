@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseLayoutsFile, placeSavedLayout, readSavedLayouts, saveLayouts, SavedLayout } from './savedLayouts';
+import { placeNearParent } from './sync';
+import { Branch } from './types';
+
+const branch = (name: string, parent?: string): Branch => ({
+  name,
+  commit: { sha: name, url: '' },
+  protected: false,
+  parent,
+});
+
+const layout = (positions: SavedLayout['positions']): SavedLayout => ({
+  name: 'Review',
+  savedAt: '2024-01-01T00:00:00Z',
+  positions,
+  scale: 1,
+  offset: { x: 0, y: 0 },
+});
+
+describe('placeSavedLayout', () => {
+  it('keeps saved positions and drops branches that are gone', () => {
+    const positions = placeSavedLayout(
+      layout({ main: { x: 10, y: 20 }, deleted: { x: 5, y: 5 } }),
+      [branch('main')],
+      {}
+    );
+
+    expect(positions).toEqual({ main: { x: 10, y: 20 } });
+  });
+
+  it('places new branches near their parent, spread out', () => {
+    const positions = placeSavedLayout(
+      layout({ main: { x: 500, y: 300 } }),
+      [branch('main'), branch('a', 'main'), branch('b', 'main'), branch('c', 'a')],
+      {}
+    );
+
+    expect(positions.a).toEqual(placeNearParent({ x: 500, y: 300 }, 0));
+    expect(positions.b).toEqual(placeNearParent({ x: 500, y: 300 }, 1));
+    expect(positions.c).toEqual(placeNearParent(positions.a, 0));
+  });
+
+  it('uses the fallback for new roots', () => {
+    const positions = placeSavedLayout(layout({}), [branch('main'), branch('orphan', 'gone')], {
+      main: { x: 1, y: 2 },
+    });
+
+    expect(positions).toEqual({ main: { x: 1, y: 2 }, orphan: { x: 100, y: 100 } });
+  });
+
+  it('stops at a parent cycle', () => {
+    const positions = placeSavedLayout(layout({}), [branch('a', 'b'), branch('b', 'a')], { b: { x: 40, y: 40 } });
+
+    expect(positions.b).toEqual({ x: 40, y: 40 });
+    expect(positions.a).toEqual(placeNearParent({ x: 40, y: 40 }, 0));
+  });
+});
+
+describe('parseLayoutsFile', () => {
+  it('reads an exported file', () => {
+    const { layouts, errors } = parseLayoutsFile(JSON.stringify({
+      version: 1,
+      repo: 'github:acme/web',
+      layouts: [{ ...layout({ main: { x: 1, y: 2 } }), name: '  Review  ', scale: 2, offset: { x: 3, y: 4 } }],
+    }));
+
+    expect(errors).toEqual([]);
+    expect(layouts).toEqual([{ ...layout({ main: { x: 1, y: 2 } }), scale: 2, offset: { x: 3, y: 4 } }]);
+  });
+
+  it('rejects text that is not a layouts file', () => {
+    expect(parseLayoutsFile('{').errors[0]).toMatch(/^Not valid JSON/);
+    expect(parseLayoutsFile('null').errors).toEqual(['The file must be an exported layouts file with a layouts list']);
+    expect(parseLayoutsFile('{"layouts": {}}').layouts).toEqual([]);
+  });
+
+  it('skips malformed layouts and positions and reports them', () => {
+    const { layouts, errors } = parseLayoutsFile(JSON.stringify({
+      layouts: [
+        'Review',
+        { name: '', positions: {} },
+        { name: 'No positions', positions: [] },
+        { name: 'Partial', positions: { main: { x: 1, y: 2 }, bad: { x: '1', y: 2 }, gone: null }, scale: -1, offset: 'x' },
+      ],
+    }));
+
+    expect(layouts).toHaveLength(1);
+    expect(layouts[0]).toMatchObject({ name: 'Partial', positions: { main: { x: 1, y: 2 } }, scale: 1, offset: { x: 0, y: 0 } });
+    expect(errors).toEqual([
+      'layouts[0] must be an object',
+      'layouts[1].name must be a non-empty string',
+      'layouts[2] (No positions): positions must map branch names to {x, y}',
+      'layouts[3] (Partial): skipped 2 position(s) without numeric x and y',
+    ]);
+  });
+});
+
+describe('stored layouts', () => {
+  const storage = new Map<string, string>();
+
+  const stubStorage = (stored: string) => {
+    storage.set('gitvis-layouts-github:acme/web', stored);
+    vi.stubGlobal('window', {});
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  };
+
+  afterEach(() => {
+    storage.clear();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('reads a stored value without a layouts list as empty', () => {
+    stubStorage('{"active": "Review"}');
+
+    expect(readSavedLayouts('github:acme/web')).toEqual([]);
+    expect(saveLayouts('github:acme/web', [layout({})])).toEqual([layout({})]);
+  });
+
+  it('drops stored layouts that are malformed', () => {
+    stubStorage(JSON.stringify({ active: 3, layouts: [layout({ main: { x: 1, y: 2 } }), { name: 7 }] }));
+
+    expect(readSavedLayouts('github:acme/web')).toEqual([layout({ main: { x: 1, y: 2 } })]);
+  });
+});
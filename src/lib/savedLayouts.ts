@@ -0,0 +1,185 @@
+import { Branch } from './types';
+import { placeNearParent } from './sync';
+
+// Named arrangements of the canvas, kept per repository in localStorage and
+// keyed by the provider's repoKey. The active one is re-applied on load, so
+// an arrangement made in Free Layout survives a reload once it's saved.
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface SavedLayout {
+  name: string;
+  savedAt: string;
+  positions: Record<string, Point>;
+  scale: number;
+  offset: Point;
+}
+
+interface StoredLayouts {
+  active: string | null;
+  layouts: SavedLayout[];
+}
+
+// The exported file; version lets the format change without breaking old exports
+interface LayoutsFile {
+  version: 1;
+  repo: string;
+  layouts: SavedLayout[];
+}
+
+const layoutsKey = (repoKey: string) => `gitvis-layouts-${repoKey}`;
+
+const readStored = (repoKey: string): StoredLayouts => {
+  if (typeof window === 'undefined') return { active: null, layouts: [] };
+  const stored = localStorage.getItem(layoutsKey(repoKey));
+  if (!stored) return { active: null, layouts: [] };
+  let json: unknown;
+  try {
+    json = JSON.parse(stored);
+  } catch (e) {
+    console.warn('Failed to parse saved layouts:', e);
+    return { active: null, layouts: [] };
+  }
+  // Checked like an imported file, so a hand-edited or stale value can't break the panel
+  const { layouts, errors } = parseLayouts(json);
+  if (errors.length > 0) console.warn('Skipped parts of the saved layouts:', errors);
+  const { active } = json as Partial<StoredLayouts>;
+  return { active: typeof active === 'string' ? active : null, layouts };
+};
+
+const writeStored = (repoKey: string, stored: StoredLayouts) => {
+  localStorage.setItem(layoutsKey(repoKey), JSON.stringify(stored));
+};
+
+export const readSavedLayouts = (repoKey: string): SavedLayout[] => readStored(repoKey).layouts;
+
+export const readActiveLayout = (repoKey: string): SavedLayout | null => {
+  const { active, layouts } = readStored(repoKey);
+  return layouts.find(layout => layout.name === active) || null;
+};
+
+export const setActiveLayout = (repoKey: string, name: string | null) => {
+  writeStored(repoKey, { ...readStored(repoKey), active: name });
+};
+
+// Layouts with the same name are replaced
+export const saveLayouts = (repoKey: string, saved: SavedLayout[]): SavedLayout[] => {
+  const stored = readStored(repoKey);
+  const names = new Set(saved.map(layout => layout.name));
+  const layouts = [...stored.layouts.filter(layout => !names.has(layout.name)), ...saved]
+    .sort((a, b) => a.name.localeCompare(b.name));
+  writeStored(repoKey, { ...stored, layouts });
+  return layouts;
+};
+
+export const deleteLayout = (repoKey: string, name: string): SavedLayout[] => {
+  const stored = readStored(repoKey);
+  const layouts = stored.layouts.filter(layout => layout.name !== name);
+  writeStored(repoKey, { active: stored.active === name ? null : stored.active, layouts });
+  return layouts;
+};
+
+// Saved positions for the branches that are still around. Branches that are
+// new since the layout was saved go next to their parent, and roots without a
+// saved position keep `fallback`.
+export const placeSavedLayout = (
+  layout: SavedLayout,
+  branches: Branch[],
+  fallback: Record<string, Point>
+): Record<string, Point> => {
+  const byName = new Map(branches.map(branch => [branch.name, branch]));
+  const positions: Record<string, Point> = {};
+  const addedUnder = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const place = (name: string): Point => {
+    if (positions[name]) return positions[name];
+    const saved = layout.positions[name];
+    const parent = byName.get(name)?.parent;
+    if (saved) {
+      positions[name] = saved;
+    } else if (parent && byName.has(parent) && !visiting.has(parent)) {
+      visiting.add(name);
+      const index = addedUnder.get(parent) ?? 0;
+      addedUnder.set(parent, index + 1);
+      positions[name] = placeNearParent(place(parent), index);
+      visiting.delete(name);
+    } else {
+      positions[name] = fallback[name] || { x: 100, y: 100 };
+    }
+    return positions[name];
+  };
+
+  branches.forEach(branch => place(branch.name));
+  return positions;
+};
+
+export const exportLayouts = (repoKey: string, layouts: SavedLayout[]): string =>
+  JSON.stringify({ version: 1, repo: repoKey, layouts } satisfies LayoutsFile, null, 2);
+
+const isPoint = (value: unknown): value is Point =>
+  Boolean(value) &&
+  typeof value === 'object' &&
+  Number.isFinite((value as Point).x) &&
+  Number.isFinite((value as Point).y);
+
+const parseLayout = (value: unknown, index: number, errors: string[]): SavedLayout | null => {
+  const where = `layouts[${index}]`;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${where} must be an object`);
+    return null;
+  }
+
+  const { name, savedAt, positions, scale, offset } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim()) {
+    errors.push(`${where}.name must be a non-empty string`);
+    return null;
+  }
+  if (!positions || typeof positions !== 'object' || Array.isArray(positions)) {
+    errors.push(`${where} (${name}): positions must map branch names to {x, y}`);
+    return null;
+  }
+
+  const valid = Object.entries(positions).filter(([, position]) => isPoint(position));
+  const invalid = Object.keys(positions).length - valid.length;
+  if (invalid > 0) errors.push(`${where} (${name}): skipped ${invalid} position(s) without numeric x and y`);
+
+  return {
+    name: name.trim(),
+    savedAt: typeof savedAt === 'string' ? savedAt : new Date().toISOString(),
+    positions: Object.fromEntries(valid.map(([branch, position]) => [branch, { x: position.x, y: position.y }])),
+    scale: typeof scale === 'number' && scale > 0 && Number.isFinite(scale) ? scale : 1,
+    offset: isPoint(offset) ? { x: offset.x, y: offset.y } : { x: 0, y: 0 },
+  };
+};
+
+// The layouts list of an exported file or of the stored value
+const parseLayouts = (json: unknown): { layouts: SavedLayout[]; errors: string[] } => {
+  const layouts = json && typeof json === 'object' ? (json as Partial<LayoutsFile>).layouts : undefined;
+  if (!Array.isArray(layouts)) {
+    return { layouts: [], errors: ['The file must be an exported layouts file with a layouts list'] };
+  }
+
+  const errors: string[] = [];
+  return {
+    layouts: layouts
+      .map((layout, index) => parseLayout(layout, index, errors))
+      .filter((layout): layout is SavedLayout => layout !== null),
+    errors,
+  };
+};
+
+// Read an exported file. Layouts saved for another repository still import;
+// their branches are matched by name.
+export const parseLayoutsFile = (text: string): { layouts: SavedLayout[]; errors: string[] } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    return { layouts: [], errors: [`Not valid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+  return parseLayouts(json);
+};
@@ -0,0 +1,133 @@
+import { HostInfo, ProviderKind } from '../providers/types';
+
+// A self-hosted code host the server can proxy to, including GitHub Enterprise
+// Server. github.com is built in and isn't listed here; it has its own proxy and sign-in.
+export interface HostConfig {
+  id: string;
+  kind: ProviderKind;
+  name: string;
+  apiUrl: string;
+  // GitHub Enterprise serves GraphQL outside the REST prefix
+  graphqlUrl?: string;
+  webUrl: string;
+  token?: string;
+  // Writes go out under the shared token, so they're off unless explicitly allowed
+  allowWrites: boolean;
+}
+
+// One entry of GITVIS_HOSTS, e.g.
+// [{ "id": "forgejo", "kind": "gitea", "url": "https://code.example.org", "token": "...", "allowWrites": true }]
+interface HostEntry {
+  id?: unknown;
+  kind?: unknown;
+  name?: unknown;
+  url?: unknown;
+  apiUrl?: unknown;
+  graphqlUrl?: unknown;
+  token?: unknown;
+  allowWrites?: unknown;
+}
+
+// Where each kind of host serves its REST API, relative to the web URL
+const API_PATHS: Partial<Record<ProviderKind, string>> = {
+  github: '/api/v3',
+  gitlab: '/api/v4',
+  gitea: '/api/v1',
+};
+
+// Forgejo is a Gitea fork with the same API; "github" here always means an Enterprise Server
+const KIND_ALIASES: Record<string, ProviderKind> = {
+  github: 'github',
+  ghes: 'github',
+  gitlab: 'gitlab',
+  gitea: 'gitea',
+  forgejo: 'gitea',
+};
+
+// Host ids end up in URLs (/hosts/<id>/...), so keep them simple
+const HOST_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const trimSlashes = (url: string) => url.replace(/\/+$/, '');
+
+const toHostConfig = (entry: HostEntry): HostConfig | null => {
+  const kind = typeof entry.kind === 'string' ? KIND_ALIASES[entry.kind.toLowerCase()] : undefined;
+  if (typeof entry.id !== 'string' || !HOST_ID_PATTERN.test(entry.id) || !kind || typeof entry.url !== 'string') {
+    return null;
+  }
+
+  let webUrl: URL;
+  try {
+    webUrl = new URL(trimSlashes(entry.url));
+  } catch {
+    return null;
+  }
+
+  const base = trimSlashes(webUrl.toString());
+  return {
+    id: entry.id,
+    kind,
+    name: typeof entry.name === 'string' ? entry.name : webUrl.host,
+    apiUrl: typeof entry.apiUrl === 'string' ? trimSlashes(entry.apiUrl) : `${base}${API_PATHS[kind]}`,
+    graphqlUrl: kind !== 'github' ? undefined
+      : typeof entry.graphqlUrl === 'string' ? trimSlashes(entry.graphqlUrl) : `${base}/api/graphql`,
+    webUrl: base,
+    token: typeof entry.token === 'string' ? entry.token : undefined,
+    allowWrites: entry.allowWrites === true,
+  };
+};
+
+// GitLab: GITLAB_URL (defaults to gitlab.com), GITLAB_TOKEN and GITLAB_ALLOW_WRITES
+const getGitLabHost = (): HostConfig =>
+  toHostConfig({
+    id: 'gitlab',
+    kind: 'gitlab',
+    url: process.env.GITLAB_URL || 'https://gitlab.com',
+    token: process.env.GITLAB_TOKEN,
+    allowWrites: process.env.GITLAB_ALLOW_WRITES === 'true',
+  })!;
+
+// Hosts listed in GITVIS_HOSTS (a JSON array). Invalid entries are skipped with a warning.
+const getRegisteredHosts = (): HostConfig[] => {
+  const raw = process.env.GITVIS_HOSTS;
+  if (!raw) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch {
+    // The parse error can quote the value, tokens and all, so don't pass it on
+    console.warn('GITVIS_HOSTS is not valid JSON');
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    console.warn('GITVIS_HOSTS must be a JSON array of hosts');
+    return [];
+  }
+
+  return entries.flatMap((entry: HostEntry, index) => {
+    const host = entry && typeof entry === 'object' ? toHostConfig(entry) : null;
+    if (!host) {
+      // Entries can hold tokens, so only say which one it was
+      console.warn(`Ignoring invalid GITVIS_HOSTS entry at index ${index}`);
+      return [];
+    }
+    return [host];
+  });
+};
+
+// Registered hosts, plus the GitLab host from the GITLAB_* variables unless one is registered as "gitlab"
+export const listHosts = (): HostConfig[] => {
+  const registered = getRegisteredHosts();
+  return registered.some(host => host.id === 'gitlab') ? registered : [getGitLabHost(), ...registered];
+};
+
+export const getHost = (id: string): HostConfig | null => listHosts().find(host => host.id === id) ?? null;
+
+// The parts of a host that are safe to hand to the browser
+export const toHostInfo = ({ id, kind, name, webUrl, allowWrites }: HostConfig): HostInfo => ({
+  id,
+  kind,
+  name,
+  webUrl,
+  allowWrites,
+});
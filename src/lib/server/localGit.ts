@@ -0,0 +1,169 @@
+import { execFile } from 'child_process';
+import { basename, isAbsolute } from 'path';
+import { BranchHead, Commit, Comparison } from '../types';
+
+// Local repositories are read with git plumbing on the server. Only the paths
+// listed in GITVIS_LOCAL_REPOS can be opened, and only by their name.
+
+export interface LocalRepo {
+  name: string;
+  path: string;
+}
+
+// Keeps a large tree's pairwise compares from spawning hundreds of git processes at once
+const MAX_CONCURRENT_GIT = 4;
+const GIT_TIMEOUT_MS = 30 * 1000;
+const GIT_MAX_BUFFER = 32 * 1024 * 1024;
+
+// Field and record separators for --format output; neither can appear in commit data
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+
+export class LocalGitError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'LocalGitError';
+    this.status = status;
+  }
+}
+
+// GITVIS_LOCAL_REPOS is a comma-separated list of absolute paths. Each
+// repository is named after its directory; later duplicates are skipped.
+export const listLocalRepos = (): LocalRepo[] => {
+  const repos: LocalRepo[] = [];
+  (process.env.GITVIS_LOCAL_REPOS || '').split(',').map(path => path.trim()).filter(Boolean).forEach(path => {
+    const name = basename(path);
+    if (!isAbsolute(path) || repos.some(repo => repo.name === name)) {
+      console.warn(`Ignoring GITVIS_LOCAL_REPOS entry ${path}`);
+      return;
+    }
+    repos.push({ name, path });
+  });
+  return repos;
+};
+
+export const getLocalRepo = (name: string): LocalRepo | null =>
+  listLocalRepos().find(repo => repo.name === name) ?? null;
+
+let running = 0;
+const waiting: Array<() => void> = [];
+
+const acquireSlot = async () => {
+  if (running < MAX_CONCURRENT_GIT) {
+    running++;
+    return;
+  }
+  // The finishing process hands its slot straight over
+  await new Promise<void>(resolve => waiting.push(resolve));
+};
+
+const releaseSlot = () => {
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    running--;
+  }
+};
+
+const git = async (repo: LocalRepo, args: string[]): Promise<string> => {
+  await acquireSlot();
+  try {
+    return await new Promise<string>((resolve, reject) => {
+      execFile(
+        'git',
+        ['-C', repo.path, ...args],
+        { timeout: GIT_TIMEOUT_MS, maxBuffer: GIT_MAX_BUFFER },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(new LocalGitError(stderr.trim() || error.message, 500));
+          } else {
+            resolve(stdout);
+          }
+        }
+      );
+    });
+  } finally {
+    releaseSlot();
+  }
+};
+
+// Refs come from the browser, so anything that git could read as an option or a range is refused
+export const assertRef = (ref: string): string => {
+  if (!ref || ref.startsWith('-') || ref.includes('..') || /[\s\x00-\x1f~^:?*[\\]/.test(ref)) {
+    throw new LocalGitError(`Invalid ref: ${ref}`, 400);
+  }
+  return ref;
+};
+
+// Repository-relative file paths, with nothing that climbs out or reads as an option
+export const assertPath = (path: string): string => {
+  if (!path || path.startsWith('-') || path.startsWith('/') || path.split('/').some(part => part === '..' || !part) ||
+    /[\x00-\x1f:\\]/.test(path)) {
+    throw new LocalGitError(`Invalid path: ${path}`, 400);
+  }
+  return path;
+};
+
+export const readBranches = async (repo: LocalRepo): Promise<BranchHead[]> => {
+  const output = await git(repo, ['for-each-ref', `--format=%(refname)${FIELD}%(objectname)`, 'refs/heads']);
+  return output.split('\n').filter(Boolean).map(line => {
+    const [ref, sha] = line.split(FIELD);
+    // Full ref names, since the short form turns into heads/x when a tag shares the name
+    return { name: ref.replace(/^refs\/heads\//, ''), commit: { sha, url: '' }, protected: false };
+  });
+};
+
+// origin's HEAD when there is one, then main or master, then whatever is checked out
+export const readDefaultBranch = async (repo: LocalRepo, branches: BranchHead[]): Promise<string> => {
+  const names = new Set(branches.map(branch => branch.name));
+
+  const originHead = await git(repo, ['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD'])
+    .then(output => output.trim().replace(/^origin\//, ''))
+    .catch(() => '');
+  if (names.has(originHead)) return originHead;
+
+  const conventional = ['main', 'master'].find(name => names.has(name));
+  if (conventional) return conventional;
+
+  const checkedOut = await git(repo, ['symbolic-ref', '--quiet', '--short', 'HEAD'])
+    .then(output => output.trim())
+    .catch(() => '');
+  return checkedOut || branches[0]?.name || 'main';
+};
+
+// Counts on each side of the merge base, like GitHub's compare: aheadBy is head-only commits
+export const compareRefs = async (repo: LocalRepo, base: string, head: string): Promise<Comparison> => {
+  const output = await git(repo, ['rev-list', '--left-right', '--count', `${assertRef(base)}...${assertRef(head)}`, '--']);
+  const [behindBy, aheadBy] = output.trim().split(/\s+/).map(count => parseInt(count, 10));
+  return { aheadBy, behindBy };
+};
+
+export const readLog = async (repo: LocalRepo, ref: string, limit: number): Promise<Commit[]> => {
+  const output = await git(repo, [
+    'log',
+    `--max-count=${limit}`,
+    `--format=%H${FIELD}%P${FIELD}%an${FIELD}%aI${FIELD}%B${RECORD}`,
+    assertRef(ref),
+    '--',
+  ]);
+
+  return output.split(RECORD).map(record => record.replace(/^\n/, '')).filter(Boolean).map(record => {
+    const [sha, parents, name, date, message] = record.split(FIELD);
+    return {
+      sha,
+      message: message.trim(),
+      author: { name, date },
+      parents: parents ? parents.split(' ') : [],
+    };
+  });
+};
+
+// A file's text at a ref, or null when the ref's tree has no file there
+export const readFileAt = async (repo: LocalRepo, ref: string, path: string): Promise<string | null> => {
+  const object = `${assertRef(ref)}:${assertPath(path)}`;
+  const type = await git(repo, ['cat-file', '-t', object]).then(output => output.trim()).catch(() => null);
+  return type === 'blob' ? git(repo, ['cat-file', 'blob', object]) : null;
+};
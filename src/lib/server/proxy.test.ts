@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { isGraphQLQuery, toApiPath } from './proxy';
+
+const body = (query: unknown) => JSON.stringify({ query, variables: {} });
+
+describe('isGraphQLQuery', () => {
+  it('accepts queries', () => {
+    expect(isGraphQLQuery(body('query Branches($cursor: String) { repository(owner: "a", name: "b") { id } }'))).toBe(true);
+    expect(isGraphQLQuery(body('{ viewer { login } }'))).toBe(true);
+    expect(isGraphQLQuery(body('query { a } fragment F on User { login } query B { b }'))).toBe(true);
+  });
+
+  it('rejects mutations and subscriptions', () => {
+    expect(isGraphQLQuery(body('mutation { deleteRef(input: {refId: "x"}) { clientMutationId } }'))).toBe(false);
+    expect(isGraphQLQuery(body('subscription { events }'))).toBe(false);
+    expect(isGraphQLQuery(body('query A { a } mutation B { b }'))).toBe(false);
+  });
+
+  it('reads the decoded query, not the raw JSON', () => {
+    expect(isGraphQLQuery('{"query": "mutatio\\u006e { deleteRef(input: {}) { clientMutationId } }"}')).toBe(false);
+    expect(isGraphQLQuery('{"query": "\\u006dutation { a }"}')).toBe(false);
+  });
+
+  it('ignores the word mutation inside strings, comments and field names', () => {
+    expect(isGraphQLQuery(body('# mutation\nquery { search(query: "mutation") { mutationCount } }'))).toBe(true);
+    expect(isGraphQLQuery(body('query { a(text: """ } mutation { """) }'))).toBe(true);
+  });
+
+  it('does not let strings or comments hide a mutation', () => {
+    expect(isGraphQLQuery(body('query { a(x: "\\"") } mutation { b }'))).toBe(false);
+    expect(isGraphQLQuery(body('query { a } # }\nmutation { b }'))).toBe(false);
+  });
+
+  it('treats anything it cannot read as a write', () => {
+    expect(isGraphQLQuery(undefined)).toBe(false);
+    expect(isGraphQLQuery('not json')).toBe(false);
+    expect(isGraphQLQuery('[{"query": "{ a }"}]')).toBe(false);
+    expect(isGraphQLQuery(JSON.stringify({ query: 42 }))).toBe(false);
+    expect(isGraphQLQuery(body(''))).toBe(false);
+    expect(isGraphQLQuery(body('query { a'))).toBe(false);
+    expect(isGraphQLQuery(body('query { a }}'))).toBe(false);
+    expect(isGraphQLQuery(body('query { a(x: "open) }'))).toBe(false);
+    expect(isGraphQLQuery(body('@skip { a }'))).toBe(false);
+    expect(isGraphQLQuery(body('queryX { a }'))).toBe(false);
+  });
+});
+
+describe('toApiPath', () => {
+  it('encodes each segment', () => {
+    expect(toApiPath(['repos', 'owner', 'repo', 'branches'])).toBe('repos/owner/repo/branches');
+    expect(toApiPath(['projects', 'group/project', 'repository', 'branches'])).toBe('projects/group%2Fproject/repository/branches');
+    expect(toApiPath(['repos', '..%2F'])).toBe('repos/..%252F');
+  });
+
+  it('rejects dot and empty segments', () => {
+    expect(toApiPath(['repos', '..', 'user', 'keys'])).toBeNull();
+    expect(toApiPath(['repos', '.', 'owner'])).toBeNull();
+    expect(toApiPath(['repos', '', 'owner'])).toBeNull();
+  });
+});
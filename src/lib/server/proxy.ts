@@ -0,0 +1,86 @@
+// Helpers shared by the API proxies (/api/github and /api/hosts)
+
+// The upstream path for a proxied route's segments, or null when a segment is
+// empty, "." or "..": fetch would resolve those and step outside the allowed
+// prefixes (Next has already decoded %2E%2E to "..")
+export const toApiPath = (segments: string[]): string | null =>
+  segments.some(segment => segment === '' || segment === '.' || segment === '..')
+    ? null
+    : segments.map(encodeURIComponent).join('/');
+
+const NAME_START = /[_A-Za-z]/;
+const NAME_CHAR = /[_0-9A-Za-z]/;
+const IGNORED = /[\s,]/;
+const CLOSERS: Record<string, string> = { '}': '{', ')': '(', ']': '[' };
+
+// The keyword each top-level definition starts with ('query' for the { ... }
+// shorthand), or null when the document doesn't tokenize. Strings and comments
+// are skipped, so only real keywords count.
+const definitionKeywords = (document: string): string[] | null => {
+  const keywords: string[] = [];
+  const open: string[] = [];
+  let expectingDefinition = true;
+
+  for (let i = 0; i < document.length; i++) {
+    const char = document[i];
+
+    if (char === '#') {
+      while (i < document.length && document[i] !== '\n' && document[i] !== '\r') i++;
+    } else if (document.startsWith('"""', i)) {
+      i += 3;
+      while (i < document.length && !document.startsWith('"""', i)) {
+        i += document.startsWith('\\"""', i) ? 4 : 1;
+      }
+      if (i >= document.length) return null;
+      i += 2;
+    } else if (char === '"') {
+      i++;
+      while (i < document.length && document[i] !== '"') {
+        i += document[i] === '\\' ? 2 : 1;
+      }
+      if (i >= document.length) return null;
+    } else if (char === '{' || char === '(' || char === '[') {
+      if (open.length === 0 && expectingDefinition) {
+        if (char !== '{') return null;
+        keywords.push('query');
+        expectingDefinition = false;
+      }
+      open.push(char);
+    } else if (CLOSERS[char]) {
+      if (open.pop() !== CLOSERS[char]) return null;
+      // A definition ends with the selection set that closes it
+      if (open.length === 0 && char === '}') expectingDefinition = true;
+    } else if (open.length === 0 && expectingDefinition && !IGNORED.test(char)) {
+      if (!NAME_START.test(char)) return null;
+      let end = i + 1;
+      while (end < document.length && NAME_CHAR.test(document[end])) end++;
+      keywords.push(document.slice(i, end));
+      expectingDefinition = false;
+      i = end - 1;
+    }
+  }
+
+  return open.length === 0 && expectingDefinition ? keywords : null;
+};
+
+// Whether a GraphQL request body only reads: its query is a document whose
+// operations are all queries. The body is parsed rather than searched, so JSON
+// escapes can't hide a mutation; anything else (mutations, subscriptions,
+// batches, bodies that don't parse) counts as a write.
+export const isGraphQLQuery = (body: string | undefined): boolean => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body || '');
+  } catch {
+    return false;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return false;
+
+  const { query } = parsed as { query?: unknown };
+  if (typeof query !== 'string') return false;
+
+  const keywords = definitionKeywords(query);
+  return !!keywords &&
+    keywords.includes('query') &&
+    keywords.every(keyword => keyword === 'query' || keyword === 'fragment');
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeReturnTo } from './session';
+
+const ORIGIN = 'https://gitvis.example.com';
+
+describe('sanitizeReturnTo', () => {
+  it('keeps paths on this site', () => {
+    expect(sanitizeReturnTo('/acme/web', ORIGIN)).toBe('/acme/web');
+    expect(sanitizeReturnTo('/acme/web?layout=tree#main', ORIGIN)).toBe('/acme/web?layout=tree#main');
+  });
+
+  it('rejects protocol-relative and backslash paths', () => {
+    expect(sanitizeReturnTo('//evil.com', ORIGIN)).toBe('/');
+    expect(sanitizeReturnTo('/\\evil.com', ORIGIN)).toBe('/');
+    expect(sanitizeReturnTo('/\\/evil.com', ORIGIN)).toBe('/');
+    expect(sanitizeReturnTo('/\t/evil.com', ORIGIN)).toBe('/');
+  });
+
+  it('rejects absolute URLs', () => {
+    expect(sanitizeReturnTo('https://evil.com/', ORIGIN)).toBe('/');
+    expect(sanitizeReturnTo(`${ORIGIN}/acme/web`, ORIGIN)).toBe('/');
+    expect(sanitizeReturnTo('javascript:alert(1)', ORIGIN)).toBe('/');
+  });
+
+  it('falls back to the root without a value', () => {
+    expect(sanitizeReturnTo(null, ORIGIN)).toBe('/');
+    expect(sanitizeReturnTo('', ORIGIN)).toBe('/');
+  });
+});
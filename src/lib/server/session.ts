@@ -0,0 +1,69 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { NextRequest } from 'next/server';
+
+export const SESSION_COOKIE = 'gitvis_session';
+export const OAUTH_STATE_COOKIE = 'gitvis_oauth_state';
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60; // 30 days
+
+export interface Session {
+  token: string;
+  login: string;
+  avatarUrl: string;
+  scopes: string[];
+}
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge: SESSION_MAX_AGE,
+};
+
+// Derive a 256-bit key from SESSION_SECRET so any length of secret works
+const getKey = (): Buffer => {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  return createHash('sha256').update(secret).digest();
+};
+
+// Encrypt the session (AES-256-GCM) so the token is unreadable in the cookie
+export const sealSession = (session: Session): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(session), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+};
+
+export const unsealSession = (sealed: string | undefined): Session | null => {
+  if (!sealed) return null;
+  try {
+    const data = Buffer.from(sealed, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', getKey(), data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    const decrypted = Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]);
+    return JSON.parse(decrypted.toString('utf8'));
+  } catch (error) {
+    console.warn('Ignoring invalid session cookie:', error);
+    return null;
+  }
+};
+
+export const getSession = (request: NextRequest): Session | null =>
+  unsealSession(request.cookies.get(SESSION_COOKIE)?.value);
+
+// Only allow redirects back to paths on this site. The path is resolved against
+// the origin the way the redirect will be, so "//host" and "/\host" (which
+// browsers read as "//host") can't send the user elsewhere.
+export const sanitizeReturnTo = (returnTo: string | null | undefined, origin: string): string => {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.includes('\\')) return '/';
+  try {
+    const url = new URL(returnTo, origin);
+    return url.origin === origin ? url.pathname + url.search + url.hash : '/';
+  } catch {
+    return '/';
+  }
+};
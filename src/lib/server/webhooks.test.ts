@@ -0,0 +1,47 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it, vi } from 'vitest';
+import { publishRepoEvent, subscribeToRepo, verifyWebhookSignature } from './webhooks';
+
+const SECRET = 'webhook-secret';
+const BODY = JSON.stringify({ ref: 'refs/heads/main', after: 'abc123', repository: { full_name: 'acme/web' } });
+
+const sign = (body: string, secret = SECRET) => `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+describe('verifyWebhookSignature', () => {
+  it('accepts the signature GitHub sends for the body', () => {
+    expect(verifyWebhookSignature(BODY, sign(BODY), SECRET)).toBe(true);
+  });
+
+  it('rejects a tampered body or another secret', () => {
+    expect(verifyWebhookSignature(BODY.replace('main', 'evil'), sign(BODY), SECRET)).toBe(false);
+    expect(verifyWebhookSignature(BODY, sign(BODY, 'other-secret'), SECRET)).toBe(false);
+  });
+
+  it('rejects a missing header or another algorithm', () => {
+    expect(verifyWebhookSignature(BODY, null, SECRET)).toBe(false);
+    expect(verifyWebhookSignature(BODY, '', SECRET)).toBe(false);
+    expect(verifyWebhookSignature(BODY, sign(BODY).replace('sha256=', 'sha1='), SECRET)).toBe(false);
+  });
+
+  it('rejects signatures of the wrong length', () => {
+    expect(verifyWebhookSignature(BODY, sign(BODY).slice(0, -2), SECRET)).toBe(false);
+    expect(verifyWebhookSignature(BODY, `${sign(BODY)}00`, SECRET)).toBe(false);
+    expect(verifyWebhookSignature(BODY, 'sha256=', SECRET)).toBe(false);
+  });
+});
+
+describe('subscribeToRepo', () => {
+  it('delivers events to the repository\'s subscribers until they leave', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToRepo('Acme/Web', listener);
+    const event = { type: 'branch-created' as const, repo: 'acme/web', branch: 'feature' };
+
+    expect(publishRepoEvent(event)).toBe(1);
+    expect(publishRepoEvent({ ...event, repo: 'acme/other' })).toBe(0);
+    unsubscribe();
+    expect(publishRepoEvent(event)).toBe(0);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(event);
+  });
+});
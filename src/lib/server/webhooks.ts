@@ -0,0 +1,40 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { RepoEvent, repoChannel } from '../events';
+
+type Listener = (event: RepoEvent) => void;
+
+// Check the X-Hub-Signature-256 header against an HMAC of the raw body
+export const verifyWebhookSignature = (body: string, signature: string | null, secret: string): boolean => {
+  if (!signature?.startsWith('sha256=')) return false;
+
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+// In-memory fan-out from webhook deliveries to open SSE streams. It lives on
+// globalThis so dev-server reloads don't strand existing subscribers. With more
+// than one server instance, each one only reaches its own connections.
+const globalForEvents = globalThis as unknown as { gitvisEventListeners?: Map<string, Set<Listener>> };
+const listeners = globalForEvents.gitvisEventListeners ??= new Map<string, Set<Listener>>();
+
+export const subscribeToRepo = (fullName: string, listener: Listener): (() => void) => {
+  const channel = repoChannel(fullName);
+  const channelListeners = listeners.get(channel) ?? new Set<Listener>();
+  channelListeners.add(listener);
+  listeners.set(channel, channelListeners);
+
+  return () => {
+    channelListeners.delete(listener);
+    if (channelListeners.size === 0) {
+      listeners.delete(channel);
+    }
+  };
+};
+
+// Returns how many connected canvases received the event
+export const publishRepoEvent = (event: RepoEvent): number => {
+  const channelListeners = listeners.get(repoChannel(event.repo));
+  channelListeners?.forEach(listener => listener(event));
+  return channelListeners?.size ?? 0;
+};
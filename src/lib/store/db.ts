@@ -0,0 +1,72 @@
+// Thin promise wrapper around the gitvis IndexedDB database. Keys are strings
+// prefixed with the repository ("owner/repo:") so one repo can be cleared alone.
+
+const DB_NAME = 'gitvis';
+const DB_VERSION = 1;
+
+export type StoreName = 'commits' | 'compares' | 'lists' | 'http';
+
+export const STORE_NAMES: StoreName[] = ['commits', 'compares', 'lists', 'http'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        STORE_NAMES.forEach(name => {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again if opening failed (e.g. private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(name, mode).objectStore(name));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const prefixRange = (prefix: string) => IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+
+export const idbGet = <T>(name: StoreName, key: string): Promise<T | undefined> =>
+  run<T | undefined>(name, 'readonly', store => store.get(key));
+
+export const idbPut = async (name: StoreName, key: string, value: unknown): Promise<void> => {
+  await run(name, 'readwrite', store => store.put(value, key));
+};
+
+export const idbDelete = async (name: StoreName, key: string): Promise<void> => {
+  await run(name, 'readwrite', store => store.delete(key));
+};
+
+export const idbDeletePrefix = async (name: StoreName, prefix: string): Promise<void> => {
+  await run(name, 'readwrite', store => store.delete(prefixRange(prefix)));
+};
+
+export const idbClear = async (name: StoreName): Promise<void> => {
+  await run(name, 'readwrite', store => store.clear());
+};
+
+export const idbCount = (name: StoreName, prefix?: string): Promise<number> =>
+  run(name, 'readonly', store => store.count(prefix ? prefixRange(prefix) : undefined));
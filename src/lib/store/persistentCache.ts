@@ -0,0 +1,134 @@
+import { RepoProvider } from '../providers/types';
+import {
+  STORE_NAMES,
+  StoreName,
+  idbClear,
+  idbCount,
+  idbDelete,
+  idbDeletePrefix,
+  idbGet,
+  idbPut,
+  isIndexedDbAvailable,
+} from './db';
+
+// How long list responses stay fresh before they're fetched again. Commits and
+// compares between two SHAs never change, so they're kept forever.
+export const FRESHNESS_MS = {
+  pulls: 60 * 1000,
+  issues: 5 * 60 * 1000,
+};
+
+interface StoredEntry<T> {
+  data: T;
+  storedAt: number;
+}
+
+const isSha = (ref: string) => /^[0-9a-f]{40}$/i.test(ref);
+
+export const repoKeyPrefix = (provider: RepoProvider) => `${provider.repoKey}:`;
+
+// HTTP cache keys are API paths, so a repo's entries sit under its repository path
+const httpKeyPrefix = (provider: RepoProvider) => `${provider.httpCachePrefix}/`;
+
+// Serve from IndexedDB when the entry is fresh enough, otherwise load and store it.
+// Storage errors never break a load; they just mean a trip to the network.
+const readThrough = async <T>(
+  name: StoreName,
+  key: string,
+  load: () => Promise<T>,
+  maxAgeMs?: number
+): Promise<T> => {
+  try {
+    const entry = await idbGet<StoredEntry<T>>(name, key);
+    if (entry && (maxAgeMs === undefined || Date.now() - entry.storedAt < maxAgeMs)) {
+      return entry.data;
+    }
+  } catch (error) {
+    console.warn(`Failed to read ${name} from IndexedDB:`, error);
+  }
+
+  const data = await load();
+  idbPut(name, key, { data, storedAt: Date.now() }).catch(error => {
+    console.warn(`Failed to store ${name} in IndexedDB:`, error);
+  });
+  return data;
+};
+
+// Wrap a provider so commits, compares, PRs and issues are persisted in IndexedDB.
+// Only calls made with full SHAs are cached forever; branch names can move.
+export const withPersistentCache = (provider: RepoProvider): RepoProvider => {
+  if (!isIndexedDbAvailable()) return provider;
+
+  const prefix = repoKeyPrefix(provider);
+
+  return {
+    ...provider,
+
+    listCommits: (sha, perPage = 50) =>
+      isSha(sha)
+        ? readThrough('commits', `${prefix}${sha}:${perPage}`, () => provider.listCommits(sha, perPage))
+        : provider.listCommits(sha, perPage),
+
+    compare: (base, head) =>
+      isSha(base) && isSha(head)
+        ? readThrough('compares', `${prefix}${base}...${head}`, () => provider.compare(base, head))
+        : provider.compare(base, head),
+
+    listPulls: () => readThrough('lists', `${prefix}pulls`, provider.listPulls, FRESHNESS_MS.pulls),
+
+    listMergedPulls: (perPage = 50) =>
+      readThrough('lists', `${prefix}merged-pulls:${perPage}`, () => provider.listMergedPulls(perPage), FRESHNESS_MS.pulls),
+
+    listIssues: (perPage = 50) =>
+      readThrough('lists', `${prefix}issues:${perPage}`, () => provider.listIssues(perPage), FRESHNESS_MS.issues),
+
+    // A new PR makes the cached list stale straight away
+    createPull: async (params) => {
+      const pullRequest = await provider.createPull(params);
+      await idbDelete('lists', `${prefix}pulls`).catch(() => {});
+      return pullRequest;
+    },
+  };
+};
+
+export interface StorageStats {
+  // Entry counts per store, for this repository and across all repositories
+  repo: Record<StoreName, number>;
+  total: Record<StoreName, number>;
+  usageBytes: number | null;
+  quotaBytes: number | null;
+}
+
+export const getStorageStats = async (provider: RepoProvider): Promise<StorageStats> => {
+  const repoCounts = {} as Record<StoreName, number>;
+  const totalCounts = {} as Record<StoreName, number>;
+
+  await Promise.all(STORE_NAMES.map(async (name) => {
+    const keyPrefix = name === 'http' ? httpKeyPrefix(provider) : repoKeyPrefix(provider);
+    [repoCounts[name], totalCounts[name]] = await Promise.all([idbCount(name, keyPrefix), idbCount(name)]);
+  }));
+
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : null;
+
+  return {
+    repo: repoCounts,
+    total: totalCounts,
+    usageBytes: estimate?.usage ?? null,
+    quotaBytes: estimate?.quota ?? null,
+  };
+};
+
+export const clearRepoStorage = async (provider: RepoProvider): Promise<void> => {
+  await Promise.all(STORE_NAMES.map(async (name) => {
+    if (name === 'http') {
+      await idbDelete(name, provider.httpCachePrefix);
+      await idbDeletePrefix(name, httpKeyPrefix(provider));
+    } else {
+      await idbDeletePrefix(name, repoKeyPrefix(provider));
+    }
+  }));
+};
+
+export const clearAllStorage = async (): Promise<void> => {
+  await Promise.all(STORE_NAMES.map(name => idbClear(name)));
+};
@@ -0,0 +1,259 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyMergedPulls,
+  applyPullRequests,
+  diffBranches,
+  diffConnections,
+  isEmptyDiff,
+  mergeTree,
+  placeNearParent,
+  sameHeads,
+  syncedPositions,
+} from './sync';
+import { Branch, BranchConnection, Commit, PullRequest } from './types';
+
+const branch = (name: string, sha: string, fields: Partial<Branch> = {}): Branch => ({
+  name,
+  commit: { sha, url: '' },
+  protected: false,
+  ...fields,
+});
+
+const open = (id: number, head: string, base: string): PullRequest => ({
+  id,
+  number: id,
+  title: `#${id}`,
+  state: 'open',
+  url: '',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  author: { login: 'someone', avatarUrl: '' },
+  head: { ref: head, sha: head },
+  base: { ref: base, sha: '' },
+  draft: false,
+  merged: false,
+  blocked: false,
+});
+
+const merged = (id: number, head: string, sha: string, base: string, mergedAt: string): PullRequest => ({
+  ...open(id, head, base),
+  state: 'closed',
+  updatedAt: mergedAt,
+  head: { ref: head, sha },
+  merged: true,
+  mergedAt,
+});
+
+const edge = (from: string, to: string, fields: Partial<BranchConnection> = {}): BranchConnection => ({ from, to, ...fields });
+
+const commits: Commit[] = [{ sha: 'f', message: 'Add login', author: { name: 'someone', date: '2024-01-01T00:00:00Z' } }];
+
+describe('diffBranches', () => {
+  const current = [
+    branch('main', 'm'),
+    branch('feature', 'f', { parent: 'main', aheadBy: 1 }),
+    branch('old', 'o', { parent: 'main' }),
+  ];
+
+  it('finds added and removed branches', () => {
+    const diff = diffBranches(current, [...current.slice(0, 2), branch('new', 'n', { parent: 'main' })]);
+
+    expect(diff.added.map(({ name }) => name)).toEqual(['new']);
+    expect(diff.removed.map(({ name }) => name)).toEqual(['old']);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it('finds branches whose head, parent, lead or parent reason changed', () => {
+    const diff = diffBranches(current, [
+      branch('main', 'm2'),
+      branch('feature', 'f', { parent: 'develop', aheadBy: 1 }),
+      branch('old', 'o', { parent: 'main', aheadBy: 2 }),
+    ]);
+
+    expect(diff.changed.map(({ name }) => name)).toEqual(['main', 'feature', 'old']);
+
+    const reparented = diffBranches(current, [
+      current[0],
+      { ...current[1], parentage: { parent: 'main', reason: 'override' } as Branch['parentage'] },
+      current[2],
+    ]);
+    expect(reparented.changed.map(({ name }) => name)).toEqual(['feature']);
+  });
+
+  it('is empty when nothing moved', () => {
+    const diff = diffBranches(current, current.map(existing => ({ ...existing })));
+
+    expect(isEmptyDiff(diff, { added: [], removed: [] })).toBe(true);
+  });
+});
+
+describe('diffConnections', () => {
+  it('keys arrows by their ends and pull request', () => {
+    const pr = open(7, 'feature', 'main');
+    const diff = diffConnections(
+      [edge('feature', 'main'), edge('old', 'main')],
+      [edge('feature', 'main'), edge('feature', 'main', { pullRequest: pr }), edge('new', 'main')]
+    );
+
+    expect(diff.added).toEqual([edge('feature', 'main', { pullRequest: pr }), edge('new', 'main')]);
+    expect(diff.removed).toEqual([edge('old', 'main')]);
+    expect(isEmptyDiff({ added: [], removed: [], changed: [] }, diff)).toBe(false);
+  });
+
+  it('ignores a changed commit count', () => {
+    const diff = diffConnections([edge('feature', 'main', { commitCount: 1 })], [edge('feature', 'main', { commitCount: 3 })]);
+
+    expect(diff).toEqual({ added: [], removed: [] });
+  });
+});
+
+describe('mergeTree', () => {
+  const pr = open(7, 'feature', 'main');
+
+  it('keeps loaded commits while the head stays put', () => {
+    const { branches } = mergeTree(
+      [branch('feature', 'f', { commits }), branch('moved', 'a', { commits })],
+      [],
+      [branch('feature', 'f'), branch('moved', 'b')],
+      []
+    );
+
+    expect(branches[0].commits).toBe(commits);
+    expect(branches[1].commits).toBeUndefined();
+  });
+
+  it('keeps pull request arrows until the next pull request sync', () => {
+    const { connections } = mergeTree(
+      [branch('main', 'm'), branch('feature', 'f'), branch('fix', 'x')],
+      [
+        edge('feature', 'main', { pullRequest: pr, commitCount: 3 }),
+        edge('fix', 'feature', { pullRequest: open(8, 'fix', 'feature'), commitCount: 1 }),
+      ],
+      [branch('main', 'm'), branch('feature', 'f'), branch('fix', 'x')],
+      [edge('feature', 'main'), edge('fix', 'main')]
+    );
+
+    expect(connections).toEqual([
+      edge('feature', 'main', { pullRequest: pr, commitCount: 3 }),
+      edge('fix', 'main'),
+      edge('fix', 'feature', { pullRequest: open(8, 'fix', 'feature'), commitCount: 1 }),
+    ]);
+  });
+
+  it('drops pull request arrows to branches that are gone', () => {
+    const { connections } = mergeTree(
+      [branch('main', 'm'), branch('feature', 'f')],
+      [edge('feature', 'main', { pullRequest: pr })],
+      [branch('main', 'm')],
+      []
+    );
+
+    expect(connections).toEqual([]);
+  });
+});
+
+describe('syncedPositions', () => {
+  it('leaves existing cards where they are', () => {
+    const positions = syncedPositions(
+      [branch('main', 'm'), branch('feature', 'f', { parent: 'develop' })],
+      [],
+      { main: { x: 10, y: 20 }, feature: { x: 30, y: 40 }, develop: { x: 0, y: 0 } },
+      { main: { x: 500, y: 500 }, feature: { x: 600, y: 600 } }
+    );
+
+    expect(positions).toEqual({ main: { x: 10, y: 20 }, feature: { x: 30, y: 40 } });
+  });
+
+  it('fans new branches out around their parent', () => {
+    const added = [branch('a', 'a', { parent: 'main' }), branch('b', 'b', { parent: 'main' })];
+    const positions = syncedPositions([branch('main', 'm'), ...added], added, { main: { x: 10, y: 20 } }, {});
+
+    expect(positions.a).toEqual(placeNearParent({ x: 10, y: 20 }, 0));
+    expect(positions.b).toEqual(placeNearParent({ x: 10, y: 20 }, 1));
+  });
+
+  it('puts new branches without a placed parent at their tree position', () => {
+    const added = [branch('root', 'r'), branch('orphan', 'o', { parent: 'gone' })];
+    const positions = syncedPositions(added, added, {}, { root: { x: 300, y: 100 } });
+
+    expect(positions).toEqual({ root: { x: 300, y: 100 }, orphan: { x: 100, y: 100 } });
+  });
+});
+
+describe('applyPullRequests', () => {
+  const branches = [
+    branch('main', 'm'),
+    branch('feature', 'f', { parent: 'main' }),
+    branch('fix', 'x', { parent: 'main' }),
+  ];
+
+  it('attaches open pull requests to their tree edges', () => {
+    const pr = open(7, 'feature', 'main');
+
+    expect(applyPullRequests([edge('feature', 'main'), edge('fix', 'main')], branches, [pr], { 7: 4 })).toEqual([
+      edge('feature', 'main', { pullRequest: pr, commitCount: 4 }),
+      edge('fix', 'main'),
+    ]);
+  });
+
+  it('adds arrows for pull requests between branches that are not parent and child', () => {
+    const pr = open(8, 'fix', 'feature');
+
+    expect(applyPullRequests([], branches, [pr, open(9, 'fix', 'gone')], {})).toEqual([
+      edge('fix', 'feature', { pullRequest: pr, commitCount: 0 }),
+    ]);
+  });
+
+  it('turns closed pull requests back into plain edges, or drops their arrows', () => {
+    const connections = [
+      edge('feature', 'main', { pullRequest: open(7, 'feature', 'main'), commitCount: 4 }),
+      edge('fix', 'feature', { pullRequest: open(8, 'fix', 'feature'), commitCount: 1 }),
+    ];
+
+    expect(applyPullRequests(connections, branches, [], {})).toEqual([
+      edge('feature', 'main', { pullRequest: undefined, commitCount: 0 }),
+    ]);
+  });
+});
+
+describe('applyMergedPulls', () => {
+  it('dates the branches whose tips were merged', () => {
+    const branches = [branch('main', 'm'), branch('feature', 'f')];
+
+    const [main, feature] = applyMergedPulls(branches, [merged(1, 'feature', 'f', 'main', '2024-02-01T10:00:00Z')]);
+
+    expect(main).toBe(branches[0]);
+    expect(feature).toMatchObject({ mergedAt: '2024-02-01T10:00:00Z', mergedInto: 'main' });
+  });
+
+  it('ignores a merge the branch has moved on from', () => {
+    const branches = [branch('feature', 'f2')];
+
+    expect(applyMergedPulls(branches, [merged(1, 'feature', 'f1', 'main', '2024-02-01T10:00:00Z')])).toEqual(branches);
+  });
+
+  it('keeps the latest merge of the same tip', () => {
+    const [feature] = applyMergedPulls([branch('feature', 'f')], [
+      merged(1, 'feature', 'f', 'develop', '2024-02-01T10:00:00Z'),
+      merged(2, 'feature', 'f', 'main', '2024-02-03T10:00:00Z'),
+      merged(3, 'feature', 'f', 'release', '2024-02-02T10:00:00+05:00'),
+    ]);
+
+    expect(feature).toMatchObject({ mergedAt: '2024-02-03T10:00:00Z', mergedInto: 'main' });
+  });
+});
+
+describe('sameHeads', () => {
+  const built = [branch('main', 'm'), branch('feature', 'f')];
+
+  it('matches the same branches at the same tips in any order', () => {
+    expect(sameHeads([branch('feature', 'f'), branch('main', 'm')], built)).toBe(true);
+  });
+
+  it('notices a moved, new or deleted branch', () => {
+    expect(sameHeads([branch('main', 'm2'), branch('feature', 'f')], built)).toBe(false);
+    expect(sameHeads([...built, branch('other', 'o')], built)).toBe(false);
+    expect(sameHeads([branch('main', 'm')], built)).toBe(false);
+    expect(sameHeads([branch('main', 'm'), branch('renamed', 'f')], built)).toBe(false);
+  });
+});
@@ -0,0 +1,191 @@
+import { Branch, BranchConnection, BranchHead, PullRequest } from './types';
+
+// Diffing between what's on the canvas and what a background sync fetched, so
+// changes can be animated in place instead of rebuilding the whole canvas.
+
+export interface BranchDiff {
+  added: Branch[];
+  removed: Branch[];
+  // Still present, but the head moved or the tree placed it under a new parent (or for a new reason)
+  changed: Branch[];
+}
+
+export interface ConnectionDiff {
+  added: BranchConnection[];
+  removed: BranchConnection[];
+}
+
+// A PR arrow is a different thing from the plain tree edge it may sit on, so the PR is part of the key
+export const connectionKey = (connection: BranchConnection): string =>
+  `${connection.from}->${connection.to}#${connection.pullRequest?.number ?? ''}`;
+
+export const diffBranches = (current: Branch[], next: Branch[]): BranchDiff => {
+  const currentByName = new Map(current.map(branch => [branch.name, branch]));
+  const nextNames = new Set(next.map(branch => branch.name));
+
+  return {
+    added: next.filter(branch => !currentByName.has(branch.name)),
+    removed: current.filter(branch => !nextNames.has(branch.name)),
+    changed: next.filter(branch => {
+      const existing = currentByName.get(branch.name);
+      return existing !== undefined && (
+        existing.commit.sha !== branch.commit.sha ||
+        existing.parent !== branch.parent ||
+        existing.aheadBy !== branch.aheadBy ||
+        existing.parentage?.reason !== branch.parentage?.reason
+      );
+    }),
+  };
+};
+
+export const diffConnections = (current: BranchConnection[], next: BranchConnection[]): ConnectionDiff => {
+  const currentKeys = new Set(current.map(connectionKey));
+  const nextKeys = new Set(next.map(connectionKey));
+
+  return {
+    added: next.filter(connection => !currentKeys.has(connectionKey(connection))),
+    removed: current.filter(connection => !nextKeys.has(connectionKey(connection))),
+  };
+};
+
+export const isEmptyDiff = (branchDiff: BranchDiff, connectionDiff: ConnectionDiff): boolean =>
+  branchDiff.added.length === 0 &&
+  branchDiff.removed.length === 0 &&
+  branchDiff.changed.length === 0 &&
+  connectionDiff.added.length === 0 &&
+  connectionDiff.removed.length === 0;
+
+// Whether fetched heads are exactly the branches a tree was built from, at the same tips
+export const sameHeads = (heads: BranchHead[], built: BranchHead[]): boolean => {
+  if (heads.length !== built.length) return false;
+  const tips = new Map(built.map(branch => [branch.name, branch.commit.sha]));
+  return heads.every(head => tips.get(head.name) === head.commit.sha);
+};
+
+// Merge freshly fetched tree data into what's on screen: loaded commits survive
+// when the head hasn't moved, and PR arrows stay until the next PR sync decides.
+export const mergeTree = (
+  currentBranches: Branch[],
+  currentConnections: BranchConnection[],
+  nextBranches: Branch[],
+  nextConnections: BranchConnection[]
+): { branches: Branch[]; connections: BranchConnection[] } => {
+  const currentByName = new Map(currentBranches.map(branch => [branch.name, branch]));
+  const pullRequestByEdge = new Map(
+    currentConnections
+      .filter(connection => connection.pullRequest)
+      .map(connection => [`${connection.from}->${connection.to}`, connection])
+  );
+
+  const branches = nextBranches.map(branch => {
+    const existing = currentByName.get(branch.name);
+    return existing?.commits && existing.commit.sha === branch.commit.sha
+      ? { ...branch, commits: existing.commits }
+      : branch;
+  });
+
+  const connections = nextConnections.map(connection => {
+    const withPullRequest = pullRequestByEdge.get(`${connection.from}->${connection.to}`);
+    return withPullRequest
+      ? { ...connection, pullRequest: withPullRequest.pullRequest, commitCount: withPullRequest.commitCount }
+      : connection;
+  });
+
+  // PR-only arrows (head and base not parent/child in the tree) are kept as well
+  const treeEdges = new Set(connections.map(connection => `${connection.from}->${connection.to}`));
+  const branchNames = new Set(branches.map(branch => branch.name));
+  pullRequestByEdge.forEach((connection, edge) => {
+    if (!treeEdges.has(edge) && branchNames.has(connection.from) && branchNames.has(connection.to)) {
+      connections.push(connection);
+    }
+  });
+
+  return { branches, connections };
+};
+
+// Attach open PRs to their arrows. Tree edges whose PR closed go back to plain
+// edges; arrows that only existed for a PR are dropped.
+export const applyPullRequests = (
+  connections: BranchConnection[],
+  branches: Branch[],
+  pullRequests: PullRequest[],
+  aheadBy: Record<number, number>
+): BranchConnection[] => {
+  const openByEdge = new Map(pullRequests.map(pr => [`${pr.head.ref}->${pr.base.ref}`, pr]));
+  const parentOf = new Map(branches.map(branch => [branch.name, branch.parent]));
+  const branchNames = new Set(branches.map(branch => branch.name));
+
+  const updated = connections.flatMap(connection => {
+    const pr = openByEdge.get(`${connection.from}->${connection.to}`);
+    if (pr) {
+      return [{ ...connection, pullRequest: pr, commitCount: aheadBy[pr.id] ?? connection.commitCount ?? 0 }];
+    }
+    if (connection.pullRequest) {
+      return parentOf.get(connection.from) === connection.to
+        ? [{ ...connection, pullRequest: undefined, commitCount: 0 }]
+        : [];
+    }
+    return [connection];
+  });
+
+  // Add new connections for PRs that don't have existing branch relationships
+  const edges = new Set(updated.map(connection => `${connection.from}->${connection.to}`));
+  pullRequests.forEach(pr => {
+    const edge = `${pr.head.ref}->${pr.base.ref}`;
+    if (!edges.has(edge) && branchNames.has(pr.head.ref) && branchNames.has(pr.base.ref)) {
+      updated.push({ from: pr.head.ref, to: pr.base.ref, pullRequest: pr, commitCount: aheadBy[pr.id] ?? 0 });
+    }
+  });
+
+  return updated;
+};
+
+// Date each branch whose tip a merged PR landed, and the branch it landed on.
+// A branch that moved on since isn't merged any more. The latest merge wins.
+export const applyMergedPulls = (branches: Branch[], mergedPullRequests: PullRequest[]): Branch[] => {
+  const latest = new Map<string, PullRequest>();
+  mergedPullRequests.forEach(pr => {
+    const key = `${pr.head.ref}@${pr.head.sha}`;
+    const current = latest.get(key);
+    if (pr.mergedAt && (!current || Date.parse(pr.mergedAt) > Date.parse(current.mergedAt!))) {
+      latest.set(key, pr);
+    }
+  });
+  if (latest.size === 0) return branches;
+
+  return branches.map(branch => {
+    const pr = latest.get(`${branch.name}@${branch.commit.sha}`);
+    return pr && pr.base.ref !== branch.name
+      ? { ...branch, mergedAt: pr.mergedAt, mergedInto: pr.base.ref }
+      : branch;
+  });
+};
+
+// Spot for a new card next to its parent, fanned out so several new siblings don't stack
+export const placeNearParent = (parent: { x: number; y: number }, index: number): { x: number; y: number } => {
+  const angle = Math.PI / 4 + index * 2.4; // Golden-angle-ish spread
+  const distance = 120 + index * 10;
+  return {
+    x: parent.x + Math.cos(angle) * distance,
+    y: parent.y + Math.sin(angle) * distance
+  };
+};
+
+// Card positions after a sync: existing cards stay where they are, new ones
+// appear next to their parent, and the rest take their spot in `fallback`
+export const syncedPositions = (
+  branches: Branch[],
+  added: Branch[],
+  positions: Record<string, { x: number; y: number }>,
+  fallback: Record<string, { x: number; y: number }>
+): Record<string, { x: number; y: number }> => {
+  const addedIndex = new Map(added.map((branch, index) => [branch.name, index]));
+  const placed: Record<string, { x: number; y: number }> = {};
+  branches.forEach(branch => {
+    const parentPosition = branch.parent ? positions[branch.parent] : undefined;
+    placed[branch.name] = positions[branch.name] || (parentPosition
+      ? placeNearParent(parentPosition, addedIndex.get(branch.name) ?? 0)
+      : fallback[branch.name] || { x: 100, y: 100 });
+  });
+  return placed;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTimelineLayout } from './timelineLayout';
+import { Branch } from './types';
+
+const branch = (name: string, fields: Partial<Branch>): Branch => ({
+  name,
+  commit: { sha: name, url: '' },
+  protected: false,
+  ...fields,
+});
+
+describe('calculateTimelineLayout', () => {
+  it('ends a merged branch where it landed on its target lane', () => {
+    const layout = calculateTimelineLayout([
+      branch('main', { lastCommitDate: '2024-01-31T00:00:00Z' }),
+      branch('feature', {
+        parent: 'main',
+        forkDate: '2024-01-05T00:00:00Z',
+        lastCommitDate: '2024-01-10T00:00:00Z',
+        mergedAt: '2024-01-20T00:00:00Z',
+        mergedInto: 'main',
+      }),
+    ]);
+
+    const feature = layout.lanes.find(lane => lane.branch === 'feature')!;
+    expect(feature.mergedInto).toBe('main');
+    // The axis runs from the fork (Jan 5) to main's tip (Jan 31); the merge is 15 days in
+    expect(feature.startX).toBe(100);
+    expect(feature.endX).toBeCloseTo(100 + 1600 * 15 / 26);
+    expect(layout.positions.feature.x).toBe(feature.endX);
+  });
+
+  it('leaves out a target that isn\'t on the canvas', () => {
+    const layout = calculateTimelineLayout([
+      branch('feature', { mergedAt: '2024-01-20T00:00:00Z', mergedInto: 'gone' }),
+    ]);
+
+    expect(layout.lanes[0].mergedInto).toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+import { Branch } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MARGIN = 100;
+const MIN_WIDTH = 1600;
+const LANE_SPACING = 60;
+const MAX_TICKS = 12;
+
+// One branch as a horizontal lane, from where it forked to its tip, or to
+// where it landed on the branch it was merged into
+export interface TimelineLane {
+  branch: string;
+  parent?: string;
+  mergedInto?: string;
+  startX: number;
+  endX: number;
+}
+
+export interface TimelineTick {
+  x: number;
+  label: string;
+}
+
+// Maps times (ms) in [start, end] onto x in [left, left + width]
+export interface TimelineAxis {
+  start: number;
+  end: number;
+  left: number;
+  width: number;
+}
+
+// Plain data, so it can be computed off the main thread
+export interface TimelineLayout {
+  // Tips sit at the end of their lane
+  positions: Record<string, { x: number; y: number }>;
+  lanes: TimelineLane[];
+  ticks: TimelineTick[];
+  axis: TimelineAxis;
+}
+
+const time = (date: string | undefined) => {
+  const ms = date ? Date.parse(date) : NaN;
+  return Number.isNaN(ms) ? null : ms;
+};
+
+const axisX = ({ start, end, left, width }: TimelineAxis, ms: number) =>
+  left + ((Math.min(Math.max(ms, start), end) - start) / (end - start)) * width;
+
+// Clamped to the axis, so pull requests older or newer than every branch still land on it
+export const timelineX = (axis: TimelineAxis, date: string): number => axisX(axis, time(date) ?? axis.end);
+
+// Where a lane ends: when it was merged, else its tip (from the branch load, or from commits fetched for its card)
+const endDate = (branch: Branch) => branch.mergedAt ?? branch.lastCommitDate ?? branch.commits?.[0]?.author.date;
+
+// Day, week, then month steps, whichever is the finest that keeps the axis readable
+const timeTicks = (start: number, end: number, xForTime: (ms: number) => number): TimelineTick[] => {
+  const spanDays = (end - start) / DAY_MS;
+  const ticks: TimelineTick[] = [];
+
+  const dayStep = [1, 7].find(days => spanDays / days <= MAX_TICKS);
+  if (dayStep) {
+    const first = new Date(start);
+    first.setUTCHours(0, 0, 0, 0);
+    for (let ms = first.getTime() + DAY_MS; ms <= end; ms += dayStep * DAY_MS) {
+      const label = new Date(ms).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+      ticks.push({ x: xForTime(ms), label });
+    }
+    return ticks;
+  }
+
+  const monthStep = [1, 3, 6, 12, 24, 60].find(months => spanDays / 30 / months <= MAX_TICKS) ?? 120;
+  const first = new Date(start);
+  const cursor = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 1));
+  while (cursor.getTime() <= end) {
+    const label = cursor.toLocaleDateString(
+      undefined,
+      monthStep >= 12 ? { year: 'numeric', timeZone: 'UTC' } : { month: 'short', year: 'numeric', timeZone: 'UTC' }
+    );
+    ticks.push({ x: xForTime(cursor.getTime()), label });
+    cursor.setUTCMonth(cursor.getUTCMonth() + monthStep);
+  }
+  return ticks;
+};
+
+// Time runs left to right. Each branch gets a lane from its fork date to its
+// last commit (or merge) date; lanes are stacked with each branch's children
+// below it, so fork connectors stay short. Roots start at the earliest date,
+// and a branch whose dates weren't loaded is drawn at the latest one.
+export const calculateTimelineLayout = (
+  branches: Branch[],
+  canvasWidth: number = 1200,
+  canvasHeight: number = 800
+): TimelineLayout => {
+  const times = branches
+    .flatMap(branch => [branch.forkDate, endDate(branch)])
+    .map(time)
+    .filter((ms): ms is number => ms !== null);
+  const start = times.length > 0 ? Math.min(...times) : Date.now();
+  const end = Math.max(times.length > 0 ? Math.max(...times) : start, start + DAY_MS);
+  const axis: TimelineAxis = { start, end, left: MARGIN, width: Math.max(MIN_WIDTH, canvasWidth - 2 * MARGIN) };
+  const xForTime = (ms: number) => axisX(axis, ms);
+
+  // Lanes in tree order: each branch, then its children by name, depth first
+  const names = new Set(branches.map(branch => branch.name));
+  const childrenOf = new Map<string | null, Branch[]>();
+  branches.forEach(branch => {
+    const parent = branch.parent && names.has(branch.parent) && branch.parent !== branch.name ? branch.parent : null;
+    childrenOf.set(parent, [...(childrenOf.get(parent) || []), branch]);
+  });
+  const ordered: Branch[] = [];
+  const placed = new Set<string>();
+  const visit = (children: Branch[]) => {
+    [...children].sort((a, b) => a.name.localeCompare(b.name)).forEach(branch => {
+      if (placed.has(branch.name)) return;
+      placed.add(branch.name);
+      ordered.push(branch);
+      visit(childrenOf.get(branch.name) || []);
+    });
+  };
+  visit(childrenOf.get(null) || []);
+  // Parent cycles are never reached from a root
+  visit(branches);
+  const top = Math.max(MARGIN, (canvasHeight - (ordered.length - 1) * LANE_SPACING) / 2);
+
+  const positions: TimelineLayout['positions'] = {};
+  const lanes = ordered.map((branch, index): TimelineLane => {
+    const endX = xForTime(time(endDate(branch)) ?? end);
+    const forked = time(branch.forkDate);
+    const startX = forked !== null ? xForTime(forked) : branch.parent ? endX : xForTime(start);
+    positions[branch.name] = { x: endX, y: top + index * LANE_SPACING };
+    const mergedInto = branch.mergedAt && branch.mergedInto && names.has(branch.mergedInto) ? branch.mergedInto : undefined;
+    return { branch: branch.name, parent: branch.parent, mergedInto, startX: Math.min(startX, endX), endX };
+  });
+
+  return {
+    positions,
+    lanes,
+    ticks: timeTicks(start, end, xForTime),
+    axis,
+  };
+};
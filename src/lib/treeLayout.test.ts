@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTreeLayout, tidyTree } from './treeLayout';
+import { Branch } from './types';
+
+const branch = (name: string, parent?: string): Branch => ({
+  name,
+  commit: { sha: name, url: '' },
+  protected: false,
+  parent,
+});
+
+// A random forest from a fixed seed: each branch hangs off an earlier one, or is a root
+const randomForest = (seed: number, size: number): Branch[] => {
+  let state = seed;
+  const random = () => {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    return state / 2 ** 32;
+  };
+  const branches: Branch[] = [];
+  for (let i = 0; i < size; i++) {
+    const parent = i > 0 && random() > 0.1 ? branches[Math.floor(random() * i)].name : undefined;
+    branches.push(branch(`b${i}`, parent));
+  }
+  return branches;
+};
+
+describe('tidyTree', () => {
+  it('keeps nodes on the same level at least 1 apart', () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      const layout = tidyTree(randomForest(seed, 40));
+      const levels = new Map<number, number[]>();
+      layout.forEach(({ breadth, depth }) => levels.set(depth, [...(levels.get(depth) || []), breadth]));
+
+      levels.forEach(breadths => {
+        const sorted = [...breadths].sort((a, b) => a - b);
+        sorted.slice(1).forEach((breadth, i) => expect(breadth - sorted[i]).toBeGreaterThanOrEqual(1 - 1e-9));
+      });
+    }
+  });
+
+  it('centers parents over their first and last child', () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      const branches = randomForest(seed, 40);
+      const layout = tidyTree(branches);
+
+      branches.forEach(({ name }) => {
+        const children = branches
+          .filter(child => child.parent === name)
+          .map(child => child.name)
+          .sort((a, b) => a.localeCompare(b));
+        if (children.length === 0) return;
+        const first = layout.get(children[0])!;
+        const last = layout.get(children[children.length - 1])!;
+        expect(layout.get(name)!.breadth).toBeCloseTo((first.breadth + last.breadth) / 2);
+        expect(first.depth).toBe(layout.get(name)!.depth + 1);
+      });
+    }
+  });
+
+  it('orders siblings by name', () => {
+    const layout = tidyTree([branch('main'), branch('zeta', 'main'), branch('alpha', 'main')]);
+
+    expect(layout.get('alpha')!.breadth).toBeLessThan(layout.get('zeta')!.breadth);
+  });
+
+  it('puts branches with a missing parent on the virtual root', () => {
+    const layout = tidyTree([branch('main'), branch('orphan', 'gone'), branch('self', 'self')]);
+
+    expect(layout.get('orphan')).toMatchObject({ depth: 0 });
+    expect(layout.get('self')).toMatchObject({ depth: 0 });
+  });
+
+  it('still places branches whose parents form a cycle', () => {
+    const layout = tidyTree([branch('main'), branch('a', 'b'), branch('b', 'a')]);
+
+    expect(layout.size).toBe(3);
+    expect(layout.get('a')).toMatchObject({ depth: 0 });
+    expect(layout.get('b')).toMatchObject({ depth: 1 });
+  });
+
+  it('is empty without branches', () => {
+    expect(tidyTree([]).size).toBe(0);
+  });
+});
+
+describe('calculateTreeLayout', () => {
+  it('puts a lone root in the middle of a radial layout', () => {
+    expect(calculateTreeLayout([branch('main')], 1200, 800, 'radial')).toEqual({ main: { x: 600, y: 400 } });
+  });
+
+  it('gives every branch finite radial coordinates', () => {
+    const positions = calculateTreeLayout(randomForest(7, 30), 1200, 800, 'radial');
+
+    Object.values(positions).forEach(({ x, y }) => {
+      expect(Number.isFinite(x)).toBe(true);
+      expect(Number.isFinite(y)).toBe(true);
+    });
+  });
+
+  it('lays levels out top-down when horizontal and left-to-right when vertical', () => {
+    const branches = [branch('main'), branch('feature', 'main')];
+
+    const horizontal = calculateTreeLayout(branches, 1200, 800, 'horizontal');
+    const vertical = calculateTreeLayout(branches, 1200, 800, 'vertical');
+
+    expect(horizontal.feature.y - horizontal.main.y).toBe(150);
+    expect(vertical.feature.x - vertical.main.x).toBe(200);
+  });
+});
@@ -0,0 +1,232 @@
+import { Branch } from './types';
+
+export type TreeOrientation = 'horizontal' | 'vertical' | 'radial';
+
+// Distance between neighbouring subtrees across the tree, and between levels along it
+const BREADTH_SPACING = { horizontal: 200, vertical: 150 };
+const DEPTH_SPACING = { horizontal: 150, vertical: 200 };
+const MARGIN = 100;
+// Smallest gap between neighbours on the outer ring of a radial layout
+const RADIAL_GAP = 90;
+const RADIAL_LEVEL_SPACING = 150;
+
+interface LayoutNode {
+  name: string | null; // null for the virtual root that holds a forest together
+  children: LayoutNode[];
+  parent: LayoutNode | null;
+  number: number; // Position among siblings
+  prelim: number;
+  mod: number;
+  shift: number;
+  change: number;
+  thread: LayoutNode | null;
+  ancestor: LayoutNode | null; // null until apportion sets it: the node itself
+}
+
+const createNode = (name: string | null, parent: LayoutNode | null, number: number): LayoutNode => ({
+  name,
+  children: [],
+  parent,
+  number,
+  prelim: 0,
+  mod: 0,
+  shift: 0,
+  change: 0,
+  thread: null,
+  ancestor: null,
+});
+
+const leftSibling = (node: LayoutNode) => (node.number > 0 ? node.parent!.children[node.number - 1] : null);
+const nextLeft = (node: LayoutNode) => node.children[0] ?? node.thread;
+const nextRight = (node: LayoutNode) => node.children[node.children.length - 1] ?? node.thread;
+
+const moveSubtree = (left: LayoutNode, right: LayoutNode, shift: number) => {
+  const subtrees = right.number - left.number;
+  right.change -= shift / subtrees;
+  right.shift += shift;
+  left.change += shift / subtrees;
+  right.prelim += shift;
+  right.mod += shift;
+};
+
+// Push the subtree rooted at `node` right until its left contour clears the
+// right contour of the siblings before it, spreading the shift over the
+// subtrees in between (Buchheim, Jünger and Leipert's linear-time Walker)
+const apportion = (node: LayoutNode, defaultAncestor: LayoutNode): LayoutNode => {
+  const sibling = leftSibling(node);
+  if (!sibling) return defaultAncestor;
+
+  let insideRight = node;
+  let outsideRight = node;
+  let insideLeft = sibling;
+  let outsideLeft = node.parent!.children[0];
+  let sumInsideRight = node.mod;
+  let sumOutsideRight = node.mod;
+  let sumInsideLeft = insideLeft.mod;
+  let sumOutsideLeft = outsideLeft.mod;
+
+  while (nextRight(insideLeft) && nextLeft(insideRight)) {
+    insideLeft = nextRight(insideLeft)!;
+    insideRight = nextLeft(insideRight)!;
+    outsideLeft = nextLeft(outsideLeft)!;
+    outsideRight = nextRight(outsideRight)!;
+    outsideRight.ancestor = node;
+
+    const shift = insideLeft.prelim + sumInsideLeft - (insideRight.prelim + sumInsideRight) + 1;
+    if (shift > 0) {
+      const leftAncestor = insideLeft.ancestor ?? insideLeft;
+      const ancestor = leftAncestor.parent === node.parent ? leftAncestor : defaultAncestor;
+      moveSubtree(ancestor, node, shift);
+      sumInsideRight += shift;
+      sumOutsideRight += shift;
+    }
+    sumInsideLeft += insideLeft.mod;
+    sumInsideRight += insideRight.mod;
+    sumOutsideLeft += outsideLeft.mod;
+    sumOutsideRight += outsideRight.mod;
+  }
+
+  if (nextRight(insideLeft) && !nextRight(outsideRight)) {
+    outsideRight.thread = nextRight(insideLeft);
+    outsideRight.mod += sumInsideLeft - sumOutsideRight;
+  }
+  if (nextLeft(insideRight) && !nextLeft(outsideLeft)) {
+    outsideLeft.thread = nextLeft(insideRight);
+    outsideLeft.mod += sumInsideRight - sumOutsideLeft;
+    return node;
+  }
+  return defaultAncestor;
+};
+
+const executeShifts = (node: LayoutNode) => {
+  let shift = 0;
+  let change = 0;
+  for (let i = node.children.length - 1; i >= 0; i--) {
+    const child = node.children[i];
+    child.prelim += shift;
+    child.mod += shift;
+    change += child.change;
+    shift += child.shift + change;
+  }
+};
+
+const firstWalk = (node: LayoutNode) => {
+  const sibling = leftSibling(node);
+  if (node.children.length === 0) {
+    node.prelim = sibling ? sibling.prelim + 1 : 0;
+    return;
+  }
+
+  let defaultAncestor = node.children[0];
+  node.children.forEach(child => {
+    firstWalk(child);
+    defaultAncestor = apportion(child, defaultAncestor);
+  });
+  executeShifts(node);
+
+  // Parents sit centered over their first and last child
+  const midpoint = (node.children[0].prelim + node.children[node.children.length - 1].prelim) / 2;
+  if (sibling) {
+    node.prelim = sibling.prelim + 1;
+    node.mod = node.prelim - midpoint;
+  } else {
+    node.prelim = midpoint;
+  }
+};
+
+const secondWalk = (
+  node: LayoutNode,
+  modSum: number,
+  depth: number,
+  place: (name: string, breadth: number, depth: number) => void
+) => {
+  if (node.name !== null) place(node.name, node.prelim + modSum, depth);
+  node.children.forEach(child => secondWalk(child, modSum + node.mod, depth + 1, place));
+};
+
+// Tidy (Reingold–Tilford) layout of the branch forest in unit coordinates:
+// depth is the level below the branch's root, breadth the position across,
+// with neighbouring subtrees at least 1 apart. Children are ordered by name,
+// and parents are centered over their children.
+export const tidyTree = (branches: Branch[]): Map<string, { breadth: number; depth: number }> => {
+  const names = new Set(branches.map(branch => branch.name));
+  const childrenOf = new Map<string | null, string[]>();
+  branches.forEach(branch => {
+    // Roots, and branches whose parent isn't in the list, hang off the virtual root
+    const parent = branch.parent && names.has(branch.parent) && branch.parent !== branch.name ? branch.parent : null;
+    childrenOf.set(parent, [...(childrenOf.get(parent) || []), branch.name]);
+  });
+
+  // Build the tree from the virtual root; a parent cycle would never be reached, so those go on the root too
+  const root = createNode(null, null, 0);
+  const placed = new Set<string>();
+  const build = (node: LayoutNode, childNames: string[]) => {
+    [...childNames].sort((a, b) => a.localeCompare(b)).forEach(name => {
+      if (placed.has(name)) return;
+      placed.add(name);
+      const child = createNode(name, node, node.children.length);
+      node.children.push(child);
+      build(child, childrenOf.get(name) || []);
+    });
+  };
+  build(root, childrenOf.get(null) || []);
+  build(root, branches.map(branch => branch.name).filter(name => !placed.has(name)));
+
+  const layout = new Map<string, { breadth: number; depth: number }>();
+  if (root.children.length === 0) return layout;
+
+  firstWalk(root);
+  secondWalk(root, 0, -1, (name, breadth, depth) => layout.set(name, { breadth, depth }));
+  return layout;
+};
+
+// Canvas positions for the tidy tree: top-down rows, left-to-right columns, or
+// rings around the root (the default branch, or the center of several roots)
+export const calculateTreeLayout = (
+  branches: Branch[],
+  canvasWidth: number = 1200,
+  canvasHeight: number = 800,
+  orientation: TreeOrientation = 'horizontal'
+): Record<string, { x: number; y: number }> => {
+  const layout = tidyTree(branches);
+  const positions: Record<string, { x: number; y: number }> = {};
+  if (layout.size === 0) return positions;
+
+  const breadths = Array.from(layout.values()).map(node => node.breadth);
+  const minBreadth = Math.min(...breadths);
+  const span = Math.max(...breadths) - minBreadth;
+  const maxDepth = Math.max(...Array.from(layout.values()).map(node => node.depth));
+
+  if (orientation === 'radial') {
+    // A lone root goes in the middle; several roots share the first ring
+    const rootCount = Array.from(layout.values()).filter(node => node.depth === 0).length;
+    const levelOffset = rootCount > 1 ? 1 : 0;
+    const outerLevel = maxDepth + levelOffset;
+    const levelSpacing = Math.max(
+      RADIAL_LEVEL_SPACING,
+      outerLevel > 0 ? ((span + 1) * RADIAL_GAP) / (2 * Math.PI * outerLevel) : 0
+    );
+    layout.forEach(({ breadth, depth }, name) => {
+      const angle = (2 * Math.PI * (breadth - minBreadth)) / (span + 1) - Math.PI / 2;
+      const radius = (depth + levelOffset) * levelSpacing;
+      positions[name] = {
+        x: canvasWidth / 2 + Math.cos(angle) * radius,
+        y: canvasHeight / 2 + Math.sin(angle) * radius,
+      };
+    });
+    return positions;
+  }
+
+  const breadthSpacing = BREADTH_SPACING[orientation];
+  const depthSpacing = DEPTH_SPACING[orientation];
+  const across = orientation === 'horizontal' ? canvasWidth : canvasHeight;
+  // Centered across the canvas when it fits, otherwise starting at the margin
+  const start = Math.max(MARGIN, (across - span * breadthSpacing) / 2);
+
+  layout.forEach(({ breadth, depth }, name) => {
+    const along = MARGIN + depth * depthSpacing;
+    const offset = start + (breadth - minBreadth) * breadthSpacing;
+    positions[name] = orientation === 'horizontal' ? { x: offset, y: along } : { x: along, y: offset };
+  });
+  return positions;
+};
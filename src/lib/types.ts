@@ -0,0 +1,185 @@
+// gitvis' internal model. Providers (GitHub, GitLab, ...) map their API
+// responses into these shapes, so the canvas never sees provider JSON.
+
+export interface Person {
+  login: string;
+  avatarUrl: string;
+}
+
+export interface Commit {
+  sha: string;
+  message: string;
+  author: {
+    name: string;
+    date: string;
+  };
+  parents?: string[];
+}
+
+export interface Comparison {
+  aheadBy: number; // Commits on head that aren't on base
+  behindBy: number; // Commits on base that aren't on head
+}
+
+export interface Repository {
+  name: string;
+  fullName: string;
+  webUrl: string;
+  defaultBranch: string;
+  canPush: boolean; // Whoever the requests run as may create branches and pull requests
+}
+
+export interface BranchHead {
+  name: string;
+  commit: {
+    sha: string;
+    url: string;
+  };
+  protected: boolean;
+}
+
+export interface Branch extends BranchHead {
+  parent?: string; // Added parent branch reference
+  depth?: number; // Added depth in tree
+  children?: string[]; // Added children branches
+  mergedAt?: string; // When a merged pull request landed the branch's tip
+  mergedInto?: string; // The branch it landed on
+  lastCommitDate?: string; // Author date of the tip commit, when its history was loaded
+  forkDate?: string; // Author date of the commit it forked from its parent at
+  aheadBy?: number; // Number of commits ahead of parent (0 = not ahead, >0 = ahead, <0 = behind, undefined = unknown)
+  commits?: Commit[];
+  parentage?: Parentage; // Why `parent` was chosen
+}
+
+// How a branch's parent was chosen
+export type ParentReason =
+  | 'override'    // set by hand on the canvas
+  | 'rule'        // a .gitvis.json rule names the parent
+  | 'saved'       // kept from an earlier load
+  | 'same-tip'    // points at the same commit as an earlier branch
+  | 'merged'      // the tip was merged into the parent
+  | 'fork-point'  // the branch's own history leaves the parent's history here
+  | 'default'     // nothing found in the loaded history
+  | 'pattern';    // history couldn't be loaded, so the branch name decided
+
+// A branch that contained the fork point, with the keys candidates are ranked by
+export interface ParentCandidate {
+  name: string;
+  onChain: boolean; // The fork point is one of the candidate's own (first-parent) commits
+  distance: number; // Commits from the candidate's tip back to the fork point
+}
+
+export interface Parentage {
+  parent: string;
+  reason: ParentReason;
+  // First commit on the branch's first-parent chain that's also in the parent's history
+  forkPoint: string | null;
+  // Best common ancestor of the branch and its parent
+  mergeBase: string | null;
+  // Commits on the branch that aren't on the parent, and the reverse, within the loaded history
+  aheadBy: number;
+  behindBy: number;
+  merged: boolean;
+  // The loaded history ran out before the branch met another branch
+  truncated: boolean;
+  // Every branch that contained the fork point, best first
+  candidates?: ParentCandidate[];
+  // What the commit graph alone picks, when an override, rule or saved relationship won instead
+  inferred?: Parentage;
+  // The branch-name pattern that matched, for 'rule' and 'pattern'
+  pattern?: string;
+}
+
+// A branch model rule from .gitvis.json. Patterns are globs (* within a path
+// segment, ** across them) or /regular expressions/.
+export interface BranchRule {
+  pattern: string;
+  // Branch name or pattern of the intended parent
+  parent?: string;
+  color?: string; // #rgb or #rrggbb
+}
+
+// A repository's .gitvis.json, validated
+export interface RepoConfig {
+  branches: BranchRule[];
+  ignore: string[]; // Patterns of branches left off the canvas
+  roots: string[];  // Patterns of branches that sit at the top of their own tree
+}
+
+// Relationships that take precedence over inference: hand-set overrides, the
+// repository's branch rules, then the parents a previous load picked
+export interface ParentHints {
+  overrides?: Record<string, string>;
+  saved?: Record<string, string>;
+  config?: RepoConfig;
+}
+
+// Pull requests on GitHub, merge requests on GitLab
+export interface PullRequest {
+  id: number;
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  author: Person;
+  head: {
+    ref: string; // source branch
+    sha: string;
+  };
+  base: {
+    ref: string; // target branch
+    sha: string;
+  };
+  draft: boolean;
+  merged: boolean;
+  mergedAt?: string; // Only on merged ones
+  blocked: boolean; // Can't be merged yet because of branch protection or required approvals
+  commitCount?: number; // Only known for some responses
+}
+
+export interface Issue {
+  id: number;
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  author: Person;
+  assignees: Person[];
+  labels: Array<{
+    name: string;
+    color: string; // Hex without the leading "#"
+  }>;
+  comments: number;
+}
+
+// Collaborators on GitHub, project members on GitLab
+export interface Member extends Person {
+  id: number;
+  url: string;
+  isAdmin: boolean;
+}
+
+export interface CreatePullParams {
+  title: string;
+  body?: string;
+  head: string;
+  base: string;
+  draft?: boolean;
+}
+
+export interface BranchConnection {
+  from: string;
+  to: string;
+  pullRequest?: PullRequest; // Added pull request info
+  commitCount?: number; // Added commit count for the connection
+}
+
+// Branches placed in their tree, with one connection from each child to its parent
+export interface BranchTree {
+  branches: Branch[];
+  connections: BranchConnection[];
+}
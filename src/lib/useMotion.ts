@@ -0,0 +1,26 @@
+import { useSyncExternalStore } from 'react';
+import { MotionStore } from './motion';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const noSubscription = () => () => {};
+
+// Where a card is drawn: its live position while it moves, `resting` otherwise.
+// Re-renders only when this card's live position changes.
+export const useLivePosition = (motion: MotionStore | undefined, id: string | undefined, resting: Point): Point => {
+  const live = useSyncExternalStore(
+    motion ? motion.subscribe : noSubscription,
+    () => (motion && id !== undefined ? motion.get(id) : undefined),
+    () => undefined
+  );
+  return live ?? resting;
+};
+
+// Every card's position, live ones included; re-renders on every frame of motion
+export const useLivePositions = (motion: MotionStore, resting: Record<string, Point>): Record<string, Point> => {
+  useSyncExternalStore(motion.subscribe, motion.version, motion.version);
+  return motion.overlay(resting);
+};
@@ -0,0 +1,41 @@
+import { useEffect, useRef, useState } from 'react';
+import { RepoEvent } from './events';
+
+// Subscribe to webhook events for a repository over server-sent events.
+// Returns whether the stream is currently connected.
+export const useRepoEvents = (
+  owner: string,
+  repo: string,
+  onEvent: (event: RepoEvent) => void,
+  enabled = true
+): boolean => {
+  const [connected, setConnected] = useState(false);
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(`/api/events/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`);
+    source.onopen = () => setConnected(true);
+    // EventSource reconnects by itself; until it does, polling takes over
+    source.onerror = () => setConnected(false);
+    source.onmessage = (message) => {
+      try {
+        onEventRef.current(JSON.parse(message.data));
+      } catch (error) {
+        console.warn('Ignoring malformed repository event:', error);
+      }
+    };
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [owner, repo, enabled]);
+
+  return connected;
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { clusterSubtrees, containsPoint, overlapsSegment, visibleWorldRect } from './viewport';
+import { Branch } from './types';
+
+const branch = (name: string, parent?: string): Branch => ({
+  name,
+  commit: { sha: name, url: '' },
+  protected: false,
+  parent,
+});
+
+// main with two small subtrees, each packed into 100 world px
+const branches = [
+  branch('main'),
+  branch('a', 'main'), branch('a1', 'a'), branch('a2', 'a'),
+  branch('b', 'main'), branch('b1', 'b'), branch('b2', 'b'),
+];
+const positions = {
+  main: { x: 0, y: 0 },
+  a: { x: 1000, y: 0 }, a1: { x: 1100, y: 0 }, a2: { x: 1000, y: 100 },
+  b: { x: 0, y: 1000 }, b1: { x: 100, y: 1000 }, b2: { x: 0, y: 1100 },
+};
+
+describe('visibleWorldRect', () => {
+  it('maps the screen, plus a margin, back to world coordinates', () => {
+    expect(visibleWorldRect({ width: 800, height: 600 }, 2, { x: 100, y: 50 }, 0)).toEqual({
+      left: -50, top: -25, right: 350, bottom: 275,
+    });
+  });
+});
+
+describe('overlapsSegment', () => {
+  const rect = { left: 0, top: 0, right: 100, bottom: 100 };
+
+  it('keeps edges with an end on screen', () => {
+    expect(overlapsSegment(rect, { x: 50, y: 50 }, { x: 500, y: 500 })).toBe(true);
+    expect(containsPoint(rect, { x: 50, y: 50 })).toBe(true);
+  });
+
+  it('keeps edges that cross the viewport with both ends off screen', () => {
+    expect(overlapsSegment(rect, { x: -500, y: 50 }, { x: 500, y: 50 })).toBe(true);
+    expect(overlapsSegment(rect, { x: 50, y: 500 }, { x: 50, y: -500 })).toBe(true);
+    expect(overlapsSegment(rect, { x: -100, y: 200 }, { x: 200, y: -100 })).toBe(true);
+  });
+
+  it('drops edges whose bounding box misses the viewport', () => {
+    expect(overlapsSegment(rect, { x: 200, y: 0 }, { x: 300, y: 100 })).toBe(false);
+    expect(overlapsSegment(rect, { x: -300, y: -10 }, { x: 300, y: -1 })).toBe(false);
+  });
+});
+
+describe('clusterSubtrees', () => {
+  it('collapses nothing at or above half scale', () => {
+    expect(clusterSubtrees(branches, positions, 0.5, new Set())).toEqual([]);
+    expect(clusterSubtrees(branches, positions, 1, new Set())).toEqual([]);
+  });
+
+  it('collapses the largest subtrees that fit on screen', () => {
+    const clusters = clusterSubtrees(branches, positions, 0.4, new Set());
+
+    expect(clusters).toEqual([
+      { root: 'a', members: ['a', 'a1', 'a2'], center: { x: 3100 / 3, y: 100 / 3 } },
+      { root: 'b', members: ['b', 'b1', 'b2'], center: { x: 100 / 3, y: 3100 / 3 } },
+    ]);
+  });
+
+  it('collapses the whole tree once it fits', () => {
+    const clusters = clusterSubtrees(branches, positions, 0.05, new Set());
+
+    expect(clusters.map(cluster => cluster.root)).toEqual(['main']);
+    expect(clusters[0].members).toHaveLength(7);
+  });
+
+  it('keeps subtrees holding a kept branch expanded', () => {
+    const clusters = clusterSubtrees(branches, positions, 0.05, new Set(['a1']));
+
+    expect(clusters.map(cluster => cluster.root)).toEqual(['b']);
+  });
+
+  it('leaves subtrees smaller than the minimum expanded', () => {
+    const small = branches.filter(({ name }) => name !== 'a2' && name !== 'b2');
+
+    expect(clusterSubtrees(small, positions, 0.4, new Set())).toEqual([]);
+  });
+
+  it('skips branches without a position', () => {
+    const unplaced = Object.fromEntries(Object.entries(positions).filter(([name]) => name !== 'a2'));
+
+    expect(clusterSubtrees(branches, unplaced, 0.4, new Set()).map(cluster => cluster.root)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,129 @@
+import { Branch } from './types';
+
+// What's worth drawing: the part of the world that's on screen, and subtrees
+// that are too small on screen to tell apart, collapsed into one cluster each.
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+export interface WorldRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface Cluster {
+  root: string; // The subtree's top branch
+  members: string[]; // Every branch in the subtree, the root included
+  center: Point; // Average member position
+}
+
+const CULL_MARGIN = 200; // Screen px kept around the viewport, so labels and glows don't pop in at the edges
+const CLUSTER_MAX_SCALE = 0.5; // Subtrees only collapse when zoomed out further than this
+const CLUSTER_SCREEN_SIZE = 64; // Screen px a subtree has to fit in to collapse
+const MIN_CLUSTER_SIZE = 3; // Smaller subtrees stay as they are
+
+// The world coordinates on screen, given the screen size and the canvas's zoom and pan
+export const visibleWorldRect = (size: Size, scale: number, offset: Point, margin = CULL_MARGIN): WorldRect => ({
+  left: (-margin - offset.x) / scale,
+  top: (-margin - offset.y) / scale,
+  right: (size.width + margin - offset.x) / scale,
+  bottom: (size.height + margin - offset.y) / scale,
+});
+
+export const containsPoint = (rect: WorldRect, point: Point): boolean =>
+  point.x >= rect.left && point.x <= rect.right && point.y >= rect.top && point.y <= rect.bottom;
+
+// Compares bounding boxes, so a diagonal line passing just outside a corner still counts
+export const overlapsSegment = (rect: WorldRect, from: Point, to: Point): boolean =>
+  Math.max(from.x, to.x) >= rect.left &&
+  Math.min(from.x, to.x) <= rect.right &&
+  Math.max(from.y, to.y) >= rect.top &&
+  Math.min(from.y, to.y) <= rect.bottom;
+
+// The largest subtrees that fit in CLUSTER_SCREEN_SIZE at this zoom. Subtrees
+// holding a branch in `keep` (being dragged, expanded) never collapse.
+export const clusterSubtrees = (
+  branches: Branch[],
+  positions: Record<string, Point>,
+  scale: number,
+  keep: Set<string>
+): Cluster[] => {
+  if (scale >= CLUSTER_MAX_SCALE) return [];
+
+  const placed = branches.filter(branch => positions[branch.name]);
+  const names = new Set(placed.map(branch => branch.name));
+  const children = new Map<string, string[]>();
+  const roots: string[] = [];
+  placed.forEach(branch => {
+    if (branch.parent && branch.parent !== branch.name && names.has(branch.parent)) {
+      children.set(branch.parent, [...(children.get(branch.parent) || []), branch.name]);
+    } else {
+      roots.push(branch.name);
+    }
+  });
+
+  // Bounding box and size of every subtree, bottom-up. Each branch has one
+  // parent, so walking down from the roots visits every branch at most once.
+  const extents = new Map<string, WorldRect & { count: number; kept: boolean }>();
+  const measure = (name: string) => {
+    const position = positions[name];
+    const extent = {
+      left: position.x,
+      top: position.y,
+      right: position.x,
+      bottom: position.y,
+      count: 1,
+      kept: keep.has(name)
+    };
+    (children.get(name) || []).forEach(child => {
+      const childExtent = measure(child);
+      extent.left = Math.min(extent.left, childExtent.left);
+      extent.top = Math.min(extent.top, childExtent.top);
+      extent.right = Math.max(extent.right, childExtent.right);
+      extent.bottom = Math.max(extent.bottom, childExtent.bottom);
+      extent.count += childExtent.count;
+      extent.kept = extent.kept || childExtent.kept;
+    });
+    extents.set(name, extent);
+    return extent;
+  };
+  roots.forEach(measure);
+
+  const collect = (name: string, members: string[]) => {
+    members.push(name);
+    (children.get(name) || []).forEach(child => collect(child, members));
+    return members;
+  };
+
+  const clusters: Cluster[] = [];
+  const visit = (name: string) => {
+    const extent = extents.get(name)!;
+    const fits =
+      (extent.right - extent.left) * scale <= CLUSTER_SCREEN_SIZE &&
+      (extent.bottom - extent.top) * scale <= CLUSTER_SCREEN_SIZE;
+    if (fits && extent.count >= MIN_CLUSTER_SIZE && !extent.kept) {
+      const members = collect(name, []);
+      clusters.push({
+        root: name,
+        members,
+        center: {
+          x: members.reduce((sum, member) => sum + positions[member].x, 0) / members.length,
+          y: members.reduce((sum, member) => sum + positions[member].y, 0) / members.length
+        }
+      });
+      return;
+    }
+    (children.get(name) || []).forEach(visit);
+  };
+  roots.forEach(visit);
+  return clusters;
+};
@@ -0,0 +1,127 @@
+import { Branch, BranchHead, BranchTree, Commit, ParentHints } from '../types';
+import { BranchHistories, RepoProvider } from '../providers/types';
+import { LayoutMode, LayoutResult } from '../layout';
+import { LoadProgress, TaskName, TaskRequest, WorkerRequest, WorkerResponse, WorkerTasks } from './protocol';
+import { TaskContext, runTask } from './tasks';
+
+export type { LoadProgress } from './protocol';
+
+export interface TreeWorker {
+  calculateBranchTree: (
+    branches: BranchHead[],
+    listCommits: RepoProvider['listCommits'],
+    defaultBranch: string,
+    hints: ParentHints,
+    onProgress?: (progress: LoadProgress) => void
+  ) => Promise<BranchTree>;
+  buildBranchTree: (
+    histories: BranchHistories,
+    hints: ParentHints,
+    onProgress?: (progress: LoadProgress) => void
+  ) => Promise<BranchTree>;
+  calculateLayout: (branches: Branch[], mode: LayoutMode) => Promise<LayoutResult>;
+  uniqueCommits: (commits: Commit[], ancestorCommits: Commit[][]) => Promise<Commit[]>;
+  terminate: () => void;
+}
+
+interface PendingTask {
+  request: TaskRequest;
+  context: TaskContext;
+  resolve: (result: WorkerTasks[TaskName]['result']) => void;
+  reject: (error: Error) => void;
+}
+
+const ignoreProgress = () => {};
+const noHistory = () => Promise.reject(new Error('This task has no history to load'));
+
+// Tree inference, layout and commit filtering on a Web Worker, so sorting and
+// scoring hundreds of branches doesn't stall dragging and zooming. Where
+// workers aren't available, or this one fails to start, the same tasks run on
+// the main thread.
+export const createTreeWorker = (): TreeWorker => {
+  let worker: Worker | null = null;
+  try {
+    worker = typeof Worker === 'undefined' ? null : new Worker(new URL('./treeWorker.ts', import.meta.url));
+  } catch (error) {
+    console.warn('Tree worker unavailable, running on the main thread:', error);
+  }
+
+  const pending = new Map<number, PendingTask>();
+  let nextId = 0;
+  const send = (message: WorkerRequest) => worker?.postMessage(message);
+
+  worker?.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    const task = pending.get(message.id);
+    if (!task) return;
+
+    switch (message.type) {
+      case 'progress':
+        task.context.onProgress(message.progress);
+        break;
+      case 'listCommits':
+        task.context.listCommits(message.sha, message.perPage).then(
+          commits => send({ type: 'commits', requestId: message.requestId, commits }),
+          error => send({
+            type: 'commitsFailed',
+            requestId: message.requestId,
+            message: error instanceof Error ? error.message : String(error)
+          })
+        );
+        break;
+      case 'done':
+        pending.delete(message.id);
+        task.resolve(message.result);
+        break;
+      case 'failed':
+        pending.delete(message.id);
+        task.reject(new Error(message.message));
+        break;
+    }
+  });
+
+  // A worker script that can't load fails here; whatever was sent to it runs on the main thread instead
+  worker?.addEventListener('error', event => {
+    console.warn('Tree worker failed, running on the main thread:', event.message);
+    worker?.terminate();
+    worker = null;
+    const stranded = Array.from(pending.values());
+    pending.clear();
+    stranded.forEach(task => runTask(task.request, task.context).then(task.resolve, task.reject));
+  });
+
+  const run = <Task extends TaskName>(
+    task: Task,
+    params: WorkerTasks[Task]['params'],
+    context: TaskContext
+  ): Promise<WorkerTasks[Task]['result']> => {
+    const request = { task, params } as TaskRequest;
+    return new Promise((resolve, reject) => {
+      const settle = (result: WorkerTasks[TaskName]['result']) => resolve(result as WorkerTasks[Task]['result']);
+      if (!worker) {
+        runTask(request, context).then(settle, reject);
+        return;
+      }
+      const id = nextId++;
+      pending.set(id, { request, context, resolve: settle, reject });
+      send({ type: 'run', id, ...request });
+    });
+  };
+
+  return {
+    calculateBranchTree: (branches, listCommits, defaultBranch, hints, onProgress = ignoreProgress) =>
+      run('calculateTree', { branches, defaultBranch, hints }, { listCommits, onProgress }),
+    buildBranchTree: (histories, hints, onProgress = ignoreProgress) =>
+      run('buildTree', { histories, hints }, { listCommits: noHistory, onProgress }),
+    calculateLayout: (branches, mode) =>
+      run('layout', { branches, mode }, { listCommits: noHistory, onProgress: ignoreProgress }),
+    uniqueCommits: (commits, ancestorCommits) =>
+      run('uniqueCommits', { commits, ancestorCommits }, { listCommits: noHistory, onProgress: ignoreProgress }),
+    terminate: () => {
+      worker?.terminate();
+      worker = null;
+      pending.forEach(task => task.reject(new Error('The tree worker was stopped')));
+      pending.clear();
+    },
+  };
+};
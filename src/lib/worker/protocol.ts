@@ -0,0 +1,52 @@
+import { Branch, BranchHead, BranchTree, Commit, ParentHints } from '../types';
+import { BranchHistories } from '../providers/types';
+import { LayoutMode, LayoutResult } from '../layout';
+
+// Messages between the canvas and the tree worker. Each task the canvas runs
+// gets an id; the worker answers with progress, requests for commit history
+// (the provider, with its cache and rate limiting, stays on the main thread),
+// and finally the result or the error.
+
+export interface LoadProgress {
+  stage: 'branches' | 'history' | 'inference' | 'layout';
+  current: number;
+  total: number;
+}
+
+export interface WorkerTasks {
+  // The REST path: fetches history through listCommits as it goes
+  calculateTree: {
+    params: { branches: BranchHead[]; defaultBranch: string; hints: ParentHints };
+    result: BranchTree;
+  };
+  // History a bulk loader already fetched
+  buildTree: {
+    params: { histories: BranchHistories; hints: ParentHints };
+    result: BranchTree;
+  };
+  layout: {
+    params: { branches: Branch[]; mode: LayoutMode };
+    result: LayoutResult;
+  };
+  uniqueCommits: {
+    params: { commits: Commit[]; ancestorCommits: Commit[][] };
+    result: Commit[];
+  };
+}
+
+export type TaskName = keyof WorkerTasks;
+
+export type TaskRequest = { [Task in TaskName]: { task: Task; params: WorkerTasks[Task]['params'] } }[TaskName];
+
+// Canvas -> worker
+export type WorkerRequest =
+  | ({ type: 'run'; id: number } & TaskRequest)
+  | { type: 'commits'; requestId: number; commits: Commit[] }
+  | { type: 'commitsFailed'; requestId: number; message: string };
+
+// Worker -> canvas
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: LoadProgress }
+  | { type: 'listCommits'; id: number; requestId: number; sha: string; perPage?: number }
+  | { type: 'done'; id: number; result: WorkerTasks[TaskName]['result'] }
+  | { type: 'failed'; id: number; message: string };
@@ -0,0 +1,41 @@
+import { Commit } from '../types';
+import { buildBranchTree, calculateBranchTree, uniqueCommits } from '../branchTree';
+import { calculateLayout } from '../layout';
+import { LoadProgress, TaskName, TaskRequest, WorkerTasks } from './protocol';
+
+export interface TaskContext {
+  listCommits: (sha: string, perPage?: number) => Promise<Commit[]>;
+  onProgress: (progress: LoadProgress) => void;
+}
+
+// The work itself, shared by the worker and the main-thread fallback
+export const runTask = async (request: TaskRequest, context: TaskContext): Promise<WorkerTasks[TaskName]['result']> => {
+  switch (request.task) {
+    case 'calculateTree': {
+      const { branches, defaultBranch, hints } = request.params;
+      // History requests as they're issued and answered
+      let requested = 0;
+      let answered = 0;
+      const report = () => context.onProgress({ stage: 'history', current: answered, total: requested });
+      return calculateBranchTree(branches, {
+        listCommits: async (sha, perPage) => {
+          requested++;
+          report();
+          try {
+            return await context.listCommits(sha, perPage);
+          } finally {
+            answered++;
+            report();
+          }
+        },
+      }, defaultBranch, hints);
+    }
+    case 'buildTree':
+      context.onProgress({ stage: 'inference', current: 0, total: request.params.histories.branches.length });
+      return buildBranchTree(request.params.histories, request.params.hints);
+    case 'layout':
+      return calculateLayout(request.params.branches, request.params.mode);
+    case 'uniqueCommits':
+      return uniqueCommits(request.params.commits, request.params.ancestorCommits);
+  }
+};
@@ -0,0 +1,40 @@
+import { Commit } from '../types';
+import { WorkerRequest, WorkerResponse } from './protocol';
+import { runTask } from './tasks';
+
+// Worker entry: runs tasks from the canvas and asks it for commit history
+
+const post = (message: WorkerResponse) => postMessage(message);
+
+const pendingCommits = new Map<number, { resolve: (commits: Commit[]) => void; reject: (error: Error) => void }>();
+let nextRequestId = 0;
+
+addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'commits' || message.type === 'commitsFailed') {
+    const pending = pendingCommits.get(message.requestId);
+    pendingCommits.delete(message.requestId);
+    if (message.type === 'commits') {
+      pending?.resolve(message.commits);
+    } else {
+      pending?.reject(new Error(message.message));
+    }
+    return;
+  }
+
+  const { id } = message;
+  try {
+    const result = await runTask(message, {
+      listCommits: (sha, perPage) => new Promise((resolve, reject) => {
+        const requestId = nextRequestId++;
+        pendingCommits.set(requestId, { resolve, reject });
+        post({ type: 'listCommits', id, requestId, sha, perPage });
+      }),
+      onProgress: progress => post({ type: 'progress', id, progress }),
+    });
+    post({ type: 'done', id, result });
+  } catch (error) {
+    post({ type: 'failed', id, message: error instanceof Error ? error.message : String(error) });
+  }
+});